@@ -0,0 +1,211 @@
+// Keeps the app usable offline: the shell and lighting environments are precached, model listings fall back
+// to their last response, and viewed GLBs and thumbnails are kept in a size-capped cache that evicts the
+// least recently used.
+
+const SHELL_CACHE = 'three-dee-shell-v2'
+const API_CACHE = 'three-dee-api-v2'
+const MEDIA_CACHE = 'three-dee-media-v1'
+const ENVIRONMENT_CACHE = 'three-dee-environments-v1'
+const CACHES = [SHELL_CACHE, API_CACHE, MEDIA_CACHE, ENVIRONMENT_CACHE]
+
+const SHELL_URLS = ['/', '/index.html', '/embed.html', '/manifest.webmanifest', '/icon.svg']
+// Written by the build (see vite.config.ts); it also names the lazily loaded chunks and workers.
+const PRECACHE_MANIFEST = '/precache-manifest.json'
+
+// drei's Environment presets load from a commit-pinned copy of its asset repo, so the files never change.
+const ENVIRONMENT_ROOT = 'https://raw.githack.com/pmndrs/drei-assets/456060a26bbeb8fdf79326f224b6d99b8bcce736/hdri/'
+// The presets offered in src/viewer/lighting.ts, by their drei file names.
+const ENVIRONMENT_FILES = [
+  'potsdamer_platz_1k.hdr',
+  'studio_small_03_1k.hdr',
+  'venice_sunset_1k.hdr',
+  'dikhololo_night_1k.hdr',
+  'empty_warehouse_01_1k.hdr',
+]
+const MAX_API_ENTRIES = 200
+const MAX_MEDIA_BYTES = 300 * 1024 * 1024
+
+// Cache Storage doesn't track sizes or access times, so the media cache keeps its own index in IndexedDB.
+const INDEX_DB = 'three-dee-media-index'
+const INDEX_STORE = 'entries'
+
+function openIndex() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(INDEX_DB, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(INDEX_STORE, { keyPath: 'url' })
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withIndex(mode, operation) {
+  const db = await openIndex()
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = operation(db.transaction(INDEX_STORE, mode).objectStore(INDEX_STORE))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+// Listings differ per workspace, which travels in a header, so it becomes part of the cache key. The
+// workspace list itself doesn't, and is requested before a workspace is chosen.
+function apiCacheKey(request) {
+  const url = new URL(request.url)
+  if (url.pathname === '/api/workspaces') return url.href
+  url.searchParams.set('__workspace', request.headers.get('X-Workspace-Id') ?? '')
+  return url.href
+}
+
+async function touch(url) {
+  const entry = await withIndex('readonly', store => store.get(url))
+  if (entry) await withIndex('readwrite', store => store.put({ ...entry, lastUsed: Date.now() }))
+}
+
+async function evict(cache) {
+  const entries = await withIndex('readonly', store => store.getAll())
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0)
+  entries.sort((a, b) => a.lastUsed - b.lastUsed)
+  for (const entry of entries) {
+    if (total <= MAX_MEDIA_BYTES) break
+    await cache.delete(entry.url)
+    await withIndex('readwrite', store => store.delete(entry.url))
+    total -= entry.size
+  }
+}
+
+async function storeMedia(key, response) {
+  const blob = await response.blob()
+  if (blob.size > MAX_MEDIA_BYTES) return
+  const cache = await caches.open(MEDIA_CACHE)
+  await cache.put(key, new Response(blob, { status: response.status, statusText: response.statusText, headers: response.headers }))
+  await withIndex('readwrite', store => store.put({ url: key, size: blob.size, lastUsed: Date.now() }))
+  await evict(cache)
+}
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE)
+  await cache.addAll(SHELL_URLS)
+  const assets = await (await fetch(PRECACHE_MANIFEST, { cache: 'no-cache' })).json()
+  await cache.addAll(assets)
+}
+
+// A third-party host being down shouldn't stop the app installing; missing presets are cached on first use.
+async function precacheEnvironments() {
+  const cache = await caches.open(ENVIRONMENT_CACHE)
+  const missing = []
+  for (const file of ENVIRONMENT_FILES) {
+    if (!(await cache.match(ENVIRONMENT_ROOT + file))) missing.push(ENVIRONMENT_ROOT + file)
+  }
+  await cache.addAll(missing).catch(err => console.warn('Failed to precache lighting environments:', err))
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(Promise.all([precacheShell(), precacheEnvironments()]).then(() => self.skipWaiting()))
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    for (const name of await caches.keys()) {
+      if (name.startsWith('three-dee-') && !CACHES.includes(name)) await caches.delete(name)
+    }
+    await self.clients.claim()
+  })())
+})
+
+// Signing out drops everything fetched with the user's credentials, so the next person on the device can't read it offline.
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'sign-out') return
+  event.waitUntil(Promise.all([
+    caches.delete(API_CACHE),
+    caches.delete(MEDIA_CACHE),
+    withIndex('readwrite', store => store.clear()),
+  ]))
+})
+
+async function navigate(request) {
+  const cache = await caches.open(SHELL_CACHE)
+  const page = new URL(request.url).pathname.startsWith('/embed') ? '/embed.html' : '/index.html'
+  try {
+    const response = await fetch(request)
+    // Keep the stored page in step with the assets the browser is actually running.
+    if (response.status === 200) await cache.put(page, response.clone())
+    return response
+  } catch (err) {
+    const cached = await cache.match(page)
+    if (cached) return cached
+    throw err
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.status === 200) await cache.put(request, response.clone())
+  return response
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(API_CACHE)
+  const key = apiCacheKey(request)
+  try {
+    const response = await fetch(request)
+    if (response.status === 200) {
+      await cache.put(key, response.clone())
+      // Re-putting moves an entry to the end, so the oldest responses are always first.
+      const keys = await cache.keys()
+      for (const key of keys.slice(0, Math.max(0, keys.length - MAX_API_ENTRIES))) await cache.delete(key)
+    }
+    return response
+  } catch (err) {
+    const cached = await cache.match(key)
+    if (cached) return cached
+    throw err
+  }
+}
+
+async function media(event) {
+  const { request } = event
+  const cache = await caches.open(MEDIA_CACHE)
+  const key = request.url
+  const cached = await cache.match(key)
+  if (cached) {
+    event.waitUntil(touch(key).catch(() => undefined))
+    return cached
+  }
+  const response = await fetch(request)
+  // Opaque responses hide their size, and partial ones can't be stored.
+  if (response.status === 200 && response.type !== 'opaque') {
+    event.waitUntil(storeMedia(key, response.clone()).catch(err => console.warn('Failed to cache', key, err)))
+  }
+  return response
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET' || request.headers.has('range')) return
+  const url = new URL(request.url)
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(navigate(request))
+  } else if (url.pathname === '/api/proxy-glb' || url.pathname.endsWith('.glb') || request.destination === 'image') {
+    event.respondWith(media(event))
+  } else if (
+    url.pathname.startsWith('/api/models') ||
+    url.pathname.startsWith('/api/collections') ||
+    // The app waits for the workspace list before rendering anything, so it has to answer offline too.
+    url.pathname === '/api/workspaces'
+  ) {
+    event.respondWith(networkFirst(request))
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE))
+  } else if (url.href.startsWith(ENVIRONMENT_ROOT)) {
+    event.respondWith(cacheFirst(request, ENVIRONMENT_CACHE))
+  }
+})
@@ -0,0 +1,295 @@
+// Offline stand-in for the conversion server that streams job progress over SSE and WebSocket.
+// Usage: npm run mock:stream  (PORT=8000 by default, MOCK_FLAKY=1 drops streams to exercise reconnects)
+//
+// It covers converting and streaming only: jobs, basic model CRUD and the GLB proxy. Tags, collections,
+// trash, versions, previews, sharing and sign-in are not implemented and answer 404, so run the app with
+// VITE_FAKE_AUTH=true against it. For everything else use the in-app fake backend (VITE_FAKE_API=true).
+import { createServer } from 'node:http'
+import { createHash } from 'node:crypto'
+
+const PORT = Number(process.env.PORT || 8000)
+const JOB_DURATION_MS = Number(process.env.MOCK_JOB_DURATION_MS || 15000)
+const FLAKY = process.env.MOCK_FLAKY === '1'
+const TICK_MS = 500
+
+const models = new Map()
+const jobs = new Map()
+let nextModelId = 1
+let nextJobId = 1
+
+function cubeGlb() {
+  const faces = [
+    [[1, 0, 0], [0, 1, 0], [0, 0, 1]],
+    [[-1, 0, 0], [0, 0, 1], [0, 1, 0]],
+    [[0, 1, 0], [0, 0, 1], [1, 0, 0]],
+    [[0, -1, 0], [1, 0, 0], [0, 0, 1]],
+    [[0, 0, 1], [1, 0, 0], [0, 1, 0]],
+    [[0, 0, -1], [0, 1, 0], [1, 0, 0]],
+  ]
+  const positions = []
+  const normals = []
+  const indices = []
+  faces.forEach(([n, u, v], face) => {
+    for (const [su, sv] of [[-1, -1], [1, -1], [1, 1], [-1, 1]]) {
+      for (let axis = 0; axis < 3; axis++) positions.push((n[axis] + su * u[axis] + sv * v[axis]) * 0.5)
+      normals.push(...n)
+    }
+    const base = face * 4
+    indices.push(base, base + 1, base + 2, base, base + 2, base + 3)
+  })
+
+  const positionBytes = Buffer.from(new Float32Array(positions).buffer)
+  const normalBytes = Buffer.from(new Float32Array(normals).buffer)
+  const indexBytes = Buffer.from(new Uint16Array(indices).buffer)
+  const bin = Buffer.concat([positionBytes, normalBytes, indexBytes])
+  const binPadded = Buffer.concat([bin, Buffer.alloc((4 - (bin.length % 4)) % 4)])
+
+  const gltf = {
+    asset: { version: '2.0', generator: 'mock-stream-server' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0 }],
+    meshes: [{ primitives: [{ attributes: { POSITION: 0, NORMAL: 1 }, indices: 2, material: 0 }] }],
+    materials: [{ pbrMetallicRoughness: { baseColorFactor: [0.66, 0.33, 0.97, 1], metallicFactor: 0.1, roughnessFactor: 0.5 } }],
+    buffers: [{ byteLength: binPadded.length }],
+    bufferViews: [
+      { buffer: 0, byteOffset: 0, byteLength: positionBytes.length, target: 34962 },
+      { buffer: 0, byteOffset: positionBytes.length, byteLength: normalBytes.length, target: 34962 },
+      { buffer: 0, byteOffset: positionBytes.length + normalBytes.length, byteLength: indexBytes.length, target: 34963 },
+    ],
+    accessors: [
+      { bufferView: 0, componentType: 5126, count: 24, type: 'VEC3', min: [-0.5, -0.5, -0.5], max: [0.5, 0.5, 0.5] },
+      { bufferView: 1, componentType: 5126, count: 24, type: 'VEC3' },
+      { bufferView: 2, componentType: 5123, count: indices.length, type: 'SCALAR' },
+    ],
+  }
+  const json = Buffer.from(JSON.stringify(gltf))
+  const jsonPadded = Buffer.concat([json, Buffer.alloc((4 - (json.length % 4)) % 4, 0x20)])
+
+  const header = Buffer.alloc(12)
+  header.writeUInt32LE(0x46546c67, 0)
+  header.writeUInt32LE(2, 4)
+  header.writeUInt32LE(12 + 8 + jsonPadded.length + 8 + binPadded.length, 8)
+  const chunk = (data, type) => {
+    const chunkHeader = Buffer.alloc(8)
+    chunkHeader.writeUInt32LE(data.length, 0)
+    chunkHeader.writeUInt32LE(type, 4)
+    return Buffer.concat([chunkHeader, data])
+  }
+  return Buffer.concat([header, chunk(jsonPadded, 0x4e4f534a), chunk(binPadded, 0x004e4942)])
+}
+
+const CUBE_GLB = cubeGlb()
+
+function jobStatus(job) {
+  const progress = Math.min(100, Math.round(((Date.now() - job.startedAt) / JOB_DURATION_MS) * 100))
+  if (job.cancelled) return { status: 'failed', progress, message: null, error: 'Cancelled', result: null }
+  if (progress < 100) {
+    const message = progress < 15 ? 'Uploading views...' : progress < 60 ? 'Generating mesh...' : progress < 90 ? 'Baking textures...' : 'Finalizing model...'
+    return { status: 'processing', progress, message, error: null, result: null }
+  }
+  if (!job.model) {
+    job.model = {
+      id: nextModelId++,
+      task_id: job.id,
+      name: job.name,
+      description: null,
+      model_url: `http://localhost:${PORT}/mock/model.glb`,
+      thumbnail_url: null,
+      view_config: job.views,
+      source_images: null,
+      created_at: new Date().toISOString(),
+    }
+    models.set(job.model.id, job.model)
+  }
+  return {
+    status: 'completed',
+    progress: 100,
+    message: 'Done',
+    error: null,
+    result: { model_id: job.model.id, model_url: job.model.model_url },
+  }
+}
+
+function isTerminal(status) {
+  return status.status === 'completed' || status.status === 'failed'
+}
+
+// The client sends credentials so a real server's session cookie reaches it, and browsers reject a
+// wildcard origin on such requests, so the caller's origin is echoed back.
+function cors(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*')
+  res.setHeader('Access-Control-Allow-Credentials', 'true')
+  res.setHeader('Vary', 'Origin')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS')
+  // The client sends its session headers on every request; they are accepted and ignored.
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Workspace-Id')
+}
+
+function sendJson(res, body, status = 200) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = []
+    req.on('data', chunk => chunks.push(chunk))
+    req.on('end', () => resolve(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+}
+
+// Enough multipart parsing to recover the field names and file names; the image bytes are discarded.
+function parseMultipartFields(body) {
+  const text = body.toString('latin1')
+  const fields = {}
+  const views = {}
+  for (const match of text.matchAll(/Content-Disposition: form-data; name="([^"]+)"(?:; filename="([^"]*)")?\r\n(?:[^\r\n]+\r\n)*\r\n/g)) {
+    const [header, name, filename] = match
+    if (filename !== undefined) {
+      views[name] = filename
+    } else {
+      const start = match.index + header.length
+      fields[name] = text.slice(start, text.indexOf('\r\n', start))
+    }
+  }
+  return { fields, views }
+}
+
+function streamSse(req, res, job) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' })
+  res.write('retry: 1000\n\n')
+  const openedAt = Date.now()
+  const send = () => {
+    const status = jobStatus(job)
+    res.write(`data: ${JSON.stringify(status)}\n\n`)
+    if (isTerminal(status) || (FLAKY && Date.now() - openedAt > 3000)) {
+      clearInterval(timer)
+      res.end()
+    }
+  }
+  const timer = setInterval(send, TICK_MS)
+  send()
+  req.on('close', () => clearInterval(timer))
+}
+
+function wsFrame(payload, opcode = 0x1) {
+  const data = Buffer.from(payload)
+  const length = data.length
+  const header = length < 126
+    ? Buffer.from([0x80 | opcode, length])
+    : length < 65536
+      ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+      : (() => {
+          const big = Buffer.alloc(10)
+          big[0] = 0x80 | opcode
+          big[1] = 127
+          big.writeBigUInt64BE(BigInt(length), 2)
+          return big
+        })()
+  return Buffer.concat([header, data])
+}
+
+function streamWebSocket(req, socket, job) {
+  const accept = createHash('sha1')
+    .update(`${req.headers['sec-websocket-key']}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+    .digest('base64')
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '\r\n',
+  ].join('\r\n'))
+
+  const openedAt = Date.now()
+  const close = () => {
+    clearInterval(timer)
+    if (!socket.destroyed) socket.end(wsFrame(Buffer.from([0x03, 0xe8]), 0x8))
+  }
+  const send = () => {
+    const status = jobStatus(job)
+    socket.write(wsFrame(JSON.stringify(status)))
+    if (isTerminal(status)) return close()
+    if (FLAKY && Date.now() - openedAt > 3000) {
+      clearInterval(timer)
+      socket.destroy()
+    }
+  }
+  const timer = setInterval(send, TICK_MS)
+  send()
+  // Client frames are always masked; the only one we care about is close (opcode 0x8).
+  socket.on('data', data => { if ((data[0] & 0x0f) === 0x8) close() })
+  socket.on('close', () => clearInterval(timer))
+  socket.on('error', () => clearInterval(timer))
+}
+
+const server = createServer(async (req, res) => {
+  cors(req, res)
+  if (req.method === 'OPTIONS') return res.writeHead(204).end()
+  const url = new URL(req.url, `http://localhost:${PORT}`)
+  const path = url.pathname
+
+  if (path === '/mock/model.glb' || path === '/api/proxy-glb') {
+    res.writeHead(200, { 'Content-Type': 'model/gltf-binary' })
+    return res.end(CUBE_GLB)
+  }
+
+  if (req.method === 'GET' && path === '/api/models') {
+    return sendJson(res, { models: [...models.values()].reverse() })
+  }
+
+  const modelMatch = path.match(/^\/api\/models\/(\d+)$/)
+  if (modelMatch) {
+    const model = models.get(Number(modelMatch[1]))
+    if (!model) return sendJson(res, { detail: 'Model not found' }, 404)
+    if (req.method === 'GET') return sendJson(res, model)
+    if (req.method === 'PUT') {
+      const update = JSON.parse((await readBody(req)).toString() || '{}')
+      Object.assign(model, { name: update.name ?? model.name, description: update.description ?? model.description })
+      return sendJson(res, model)
+    }
+    if (req.method === 'DELETE') {
+      models.delete(model.id)
+      return sendJson(res, { status: 'deleted' })
+    }
+  }
+
+  if (req.method === 'POST' && path === '/api/convert-multiview') {
+    const { fields, views } = parseMultipartFields(await readBody(req))
+    if (!views.front) return sendJson(res, { detail: 'Front view image is required' }, 422)
+    const id = `mock-job-${nextJobId++}`
+    const viewConfig = fields.view_config ? JSON.parse(fields.view_config) : views
+    jobs.set(id, { id, name: fields.name || `Model ${nextModelId}`, views: viewConfig, startedAt: Date.now(), cancelled: false, model: null })
+    return sendJson(res, { job_id: id, message: 'Job queued' })
+  }
+
+  const jobMatch = path.match(/^\/api\/job\/([^/]+)(\/events)?$/)
+  if (jobMatch) {
+    const job = jobs.get(decodeURIComponent(jobMatch[1]))
+    if (!job) return sendJson(res, { detail: 'Job not found' }, 404)
+    if (jobMatch[2] && req.method === 'GET') return streamSse(req, res, job)
+    if (req.method === 'GET') return sendJson(res, jobStatus(job))
+    if (req.method === 'DELETE') {
+      job.cancelled = !job.model
+      return sendJson(res, { status: job.cancelled ? 'cancelled' : 'completed' })
+    }
+  }
+
+  sendJson(res, { detail: 'Not found' }, 404)
+})
+
+server.on('upgrade', (req, socket) => {
+  const match = new URL(req.url, `http://localhost:${PORT}`).pathname.match(/^\/api\/job\/([^/]+)\/ws$/)
+  const job = match && jobs.get(decodeURIComponent(match[1]))
+  if (!job || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n')
+    return
+  }
+  streamWebSocket(req, socket, job)
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock stream server listening on http://localhost:${PORT}${FLAKY ? ' (flaky streams)' : ''}`)
+})
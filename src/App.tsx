@@ -1,319 +1,424 @@
-import { useState, Suspense, Component, ReactNode, useEffect, useCallback } from 'react'
-
-const API_BASE = import.meta.env.VITE_API_URL || ''
-import { Canvas } from '@react-three/fiber'
-import { OrbitControls, Environment, useGLTF, Center } from '@react-three/drei'
-import { useDropzone } from 'react-dropzone'
-import { Upload, Loader2, Download, Box, Image as ImageIcon, X, Trash2, Edit2, Save, Grid, Plus } from 'lucide-react'
-
-type ViewType = 'front' | 'back' | 'left' | 'right'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Loader2, Box, Image as ImageIcon, X, Trash2, Edit2, Save, Grid, Plus, ExternalLink, Share2, WifiOff, Camera } from 'lucide-react'
+import { api, errorMessage, normalizeTags } from './api'
+import type { BulkModelUpdate, ConversionResult, SavedModel, User, Workspace } from './api'
+import { useJobQueue } from './jobs/useJobQueue'
+import type { QueuedJob } from './jobs/useJobQueue'
+import { JobQueuePanel } from './components/JobQueuePanel'
+import { ModelViewer } from './components/ModelViewer'
+import { ExportMenu } from './components/ExportMenu'
+import { ComparePanel } from './components/ComparePanel'
+import { GalleryFilters } from './components/GalleryFilters'
+import { BulkActionsBar } from './components/BulkActionsBar'
+import { useCollections } from './gallery/useCollections'
+import { exportModelsZip } from './export/exportZip'
+import { downloadBlob } from './export/exportModel'
+import { ModelDetail } from './components/ModelDetail'
+import { ModelThumbnail } from './components/ModelThumbnail'
+import { ShareDialog } from './components/ShareDialog'
+import { usePreviewGenerator } from './thumbnails/usePreviewGenerator'
+import { sceneSettingsFromJson } from './viewer/sceneSettings'
+import { TrashView } from './components/TrashView'
+import { UndoToast } from './components/UndoToast'
+import { JobDetail } from './components/JobDetail'
+import { Link } from './components/Link'
+import { navigate, routePath, useRoute, useSearchParam } from './router/routes'
+import { VirtualGrid } from './components/VirtualGrid'
+import { galleryQueryToSearch, isDefaultQuery, useGalleryQuery } from './gallery/galleryQuery'
+import { useModelPages } from './gallery/useModelPages'
+import type { Object3D } from 'three'
+import { ViewUploadField } from './components/ViewUploadField'
+import { PreprocessSettings } from './components/PreprocessSettings'
+import { ConversionSettingsPanel } from './components/ConversionSettingsPanel'
+import { DEFAULT_CONVERSION_SETTINGS } from './conversion/presets'
+import { PreprocessPreview } from './components/PreprocessPreview'
+import { ViewEditor } from './components/ViewEditor'
+import { CaptureDialog } from './components/CaptureDialog'
+import { DEFAULT_ADJUSTMENT, DEFAULT_GUIDES, renderAdjustedFile } from './editor/adjustment'
+import type { ViewAdjustment } from './editor/adjustment'
+import { DEFAULT_PREPROCESS_OPTIONS, preprocessImage } from './preprocess/pipeline'
+import { usePreprocessedImages } from './preprocess/usePreprocessedImages'
+import { useObjectSetValidation, useUploadValidation } from './validation/useUploadValidation'
+import { useDebouncedValue } from './hooks/useDebouncedValue'
+import { useOnlineStatus } from './hooks/useOnlineStatus'
+import { AddViewMenu } from './components/AddViewMenu'
+import { BulkDropZone } from './components/BulkDropZone'
+import { UnassignedTray } from './components/UnassignedTray'
+import type { TrayItem } from './components/UnassignedTray'
+import { BatchSetsPanel } from './components/BatchSetsPanel'
+import { assignFiles, loadAssignmentRules, saveAssignmentRules } from './bulk/assign'
+import type { AssignmentRule, ObjectSet } from './bulk/assign'
+import { DEFAULT_VIEWS, VIEW_SCHEMA, emptyViewImages, missingRequiredViews, viewAngles, viewConfig } from './views'
+import type { ViewDefinition, ViewImages, ViewType } from './views'
+import { setWorkspaceId, useSession, useWorkspaceId } from './auth/session'
+import { defaultAuthProvider, signOut } from './auth/providers'
+import { useWorkspaces } from './auth/useWorkspaces'
+import { rolePermissions } from './auth/permissions'
+import { SignIn } from './components/SignIn'
+import { AccountBar } from './components/AccountBar'
+
+function WorkspaceApp({ user, workspace, workspaces }: { user: User, workspace: Workspace, workspaces: Workspace[] }) {
+  const route = useRoute()
+  const [views, setViews] = useState<ViewDefinition[]>(DEFAULT_VIEWS)
+  const [viewImages, setViewImages] = useState<ViewImages>(() => emptyViewImages(DEFAULT_VIEWS))
+  const [preprocessOptions, setPreprocessOptions] = useState(DEFAULT_PREPROCESS_OPTIONS)
+  const [conversionSettings, setConversionSettings] = useState(DEFAULT_CONVERSION_SETTINGS)
+  const [previewView, setPreviewView] = useState<ViewType | null>(null)
+  const [editSources, setEditSources] = useState<Record<ViewType, { original: File, adjustment: ViewAdjustment }>>({})
+  const [editingView, setEditingView] = useState<ViewType | null>(null)
+  const [capturing, setCapturing] = useState(false)
+  const [alignmentGuides, setAlignmentGuides] = useState(DEFAULT_GUIDES)
+  const [assignmentRules, setAssignmentRules] = useState<AssignmentRule[]>(loadAssignmentRules)
+  const [trayItems, setTrayItems] = useState<TrayItem[]>([])
+  const [batchSets, setBatchSets] = useState<ObjectSet[]>([])
+  const [modelName, setModelName] = useState('')
+  const [conversionResult, setConversionResult] = useState<ConversionResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedModel, setSelectedModel] = useState<SavedModel | null>(null)
+  const [sharing, setSharing] = useState(false)
+  const [editingModel, setEditingModel] = useState<number | null>(null)
+  const [editName, setEditName] = useState('')
+  const [editDescription, setEditDescription] = useState('')
+  const [galleryError, setGalleryError] = useState<string | null>(null)
+  const [editTags, setEditTags] = useState('')
+  const [checkedModels, setCheckedModels] = useState<SavedModel[]>([])
+  const [comparing, setComparing] = useState(false)
+  const [bulkBusy, setBulkBusy] = useState<string | null>(null)
+  const [undo, setUndo] = useState<{ id: number, message: string, restore: () => Promise<void> } | null>(null)
+  const [versionTarget, setVersionTarget] = useState<SavedModel | null>(null)
+  const [loadedScene, setLoadedScene] = useState<{ url: string, scene: Object3D } | null>(null)
+
+  const online = useOnlineStatus()
+  const permissions = rolePermissions(workspace.role, user)
+  const appliedPreprocessOptions = useDebouncedValue(preprocessOptions, 300)
+  const preprocessed = usePreprocessedImages(viewImages, appliedPreprocessOptions)
+
+  const [galleryQuery, setGalleryQuery] = useGalleryQuery()
+  const gallery = useModelPages(galleryQuery)
+  const collections = useCollections()
+  const savedModels = gallery.models
+  const reloadGallery = gallery.reload
+
+  const handlePreviewsUpdated = useCallback((model: SavedModel) => {
+    setSelectedModel(current => (current?.id === model.id ? model : current))
+    reloadGallery()
+  }, [reloadGallery])
+  const { ensurePreviews } = usePreviewGenerator(handlePreviewsUpdated)
+
+  // Models converted before previews were rendered client-side get them the first time someone who may save them opens them.
+  useEffect(() => {
+    if (selectedModel && permissions.canEdit) ensurePreviews(selectedModel)
+  }, [selectedModel, permissions.canEdit, ensurePreviews])
 
-interface ViewImages {
-  front: File | null
-  back: File | null
-  left: File | null
-  right: File | null
-}
+  const handleViewFileChange = useCallback((view: ViewType, file: File | null) => {
+    setViewImages(prev => ({ ...prev, [view]: file }))
+    setEditSources(prev => {
+      const { [view]: _replaced, ...rest } = prev
+      return rest
+    })
+  }, [])
 
-interface SavedModel {
-  id: number
-  task_id: string
-  name: string
-  description: string | null
-  model_url: string
-  thumbnail_url: string | null
-  view_config: Record<string, string> | null
-  created_at: string
-}
+  const handleAddView = (view: ViewDefinition) => {
+    setViews(prev => [...prev, view])
+    setViewImages(prev => ({ ...prev, [view.name]: null }))
+  }
 
-interface ConversionResult {
-  status: string
-  task_id: string
-  model_id?: number
-  model_url: string
-  thumbnail_url?: string
-}
+  const handleRemoveView = (name: ViewType) => {
+    setViews(prev => prev.filter(view => view.name !== name))
+    setViewImages(prev => {
+      const { [name]: _removed, ...rest } = prev
+      return rest
+    })
+    setEditSources(prev => {
+      const { [name]: _removed, ...rest } = prev
+      return rest
+    })
+  }
 
-function Model({ url }: { url: string }) {
-  const { scene } = useGLTF(url)
-  return (
-    <Center>
-      <primitive object={scene} scale={2} />
-    </Center>
-  )
-}
+  const handleRulesChange = (rules: AssignmentRule[]) => {
+    setAssignmentRules(rules)
+    saveAssignmentRules(rules)
+  }
 
-class ErrorBoundary extends Component<{children: ReactNode, fallback: ReactNode}, {hasError: boolean}> {
-  constructor(props: {children: ReactNode, fallback: ReactNode}) {
-    super(props)
-    this.state = { hasError: false }
+  const addToTray = (files: File[]) => {
+    const stamp = Date.now().toString(36)
+    setTrayItems(prev => [...prev, ...files.map((file, i) => ({ id: `${stamp}-${i}-${file.name}`, file }))])
   }
-  static getDerivedStateFromError() {
-    return { hasError: true }
+
+  const loadObjectSet = (set: ObjectSet) => {
+    const missing = VIEW_SCHEMA.filter(view => set.images[view.name] && !views.some(active => active.name === view.name))
+    const nextViews = [...views, ...missing]
+    setViews(nextViews)
+    // A set is one object, so photos of whatever was loaded before must not fill its empty views.
+    setViewImages({ ...emptyViewImages(nextViews), ...set.images })
+    setEditSources({})
+    if (!modelName && set.name) setModelName(set.name)
+    setBatchSets(prev => prev.filter(s => s.id !== set.id))
   }
-  render() {
-    if (this.state.hasError) {
-      return this.props.fallback
+
+  const handleBulkFiles = (files: File[]) => {
+    const { sets, unassigned } = assignFiles(files, assignmentRules)
+    if (sets.length === 1) {
+      loadObjectSet(sets[0])
+    } else if (sets.length > 1) {
+      setBatchSets(sets)
     }
-    return this.props.children
+    if (unassigned.length > 0) addToTray(unassigned)
   }
-}
 
-function ModelViewer({ modelUrl }: { modelUrl: string }) {
-  return (
-    <ErrorBoundary fallback={
-      <div className="h-full flex items-center justify-center text-red-400">
-        <p>Failed to load 3D model. Try downloading instead.</p>
-      </div>
-    }>
-      <Canvas camera={{ position: [0, 0, 4], fov: 45 }} shadows>
-        <ambientLight intensity={0.4} />
-        <directionalLight position={[5, 5, 5]} intensity={1} castShadow />
-        <directionalLight position={[-5, 5, -5]} intensity={0.5} />
-        <spotLight position={[0, 10, 0]} angle={0.3} penumbra={1} intensity={0.8} />
-        <Suspense fallback={
-          <mesh>
-            <boxGeometry args={[1, 1, 1]} />
-            <meshStandardMaterial color="gray" />
-          </mesh>
-        }>
-          <Model url={modelUrl} />
-          <Environment preset="city" background={false} />
-        </Suspense>
-        <OrbitControls 
-          autoRotate 
-          autoRotateSpeed={1} 
-          enablePan={true}
-          enableZoom={true}
-          minDistance={1}
-          maxDistance={20}
-        />
-      </Canvas>
-    </ErrorBoundary>
-  )
-}
+  const handleTrayAssign = (itemId: string, view: ViewType) => {
+    const item = trayItems.find(i => i.id === itemId)
+    if (!item) return
+    const previous = viewImages[view]
+    setTrayItems(prev => prev.filter(i => i.id !== itemId))
+    if (previous) addToTray([previous])
+    handleViewFileChange(view, item.file)
+  }
 
-function ViewUploadField({ 
-  view, 
-  file, 
-  onFileChange, 
-  required = false 
-}: { 
-  view: ViewType
-  file: File | null
-  onFileChange: (view: ViewType, file: File | null) => void
-  required?: boolean
-}) {
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles.length > 0) {
-      onFileChange(view, acceptedFiles[0])
+  const submitObjectSet = async (set: ObjectSet) => {
+    // Taken off the list before preprocessing is awaited, so a second click can't submit it again.
+    setBatchSets(prev => prev.filter(s => s.id !== set.id))
+    const presentViews = VIEW_SCHEMA.filter(view => set.images[view.name])
+    const images: Record<string, File> = {}
+    for (const view of presentViews) {
+      const file = set.images[view.name]
+      images[view.name] = appliedPreprocessOptions.enabled
+        ? await preprocessImage(file, appliedPreprocessOptions).then(result => result.file, () => file)
+        : file
     }
-  }, [view, onFileChange])
-
-  const { getRootProps, getInputProps, isDragActive } = useDropzone({
-    onDrop,
-    accept: { 'image/*': ['.png', '.jpg', '.jpeg', '.webp'] },
-    maxFiles: 1
-  })
-
-  const preview = file ? URL.createObjectURL(file) : null
-
-  return (
-    <div className="flex flex-col">
-      <label className="text-sm font-medium text-gray-300 mb-1 capitalize">
-        {view} {required && <span className="text-red-400">*</span>}
-      </label>
-      <div
-        {...getRootProps()}
-        className={`
-          relative h-24 border-2 border-dashed rounded-lg cursor-pointer transition-all overflow-hidden
-          ${isDragActive ? 'border-purple-400 bg-purple-400/10' : 'border-gray-600 hover:border-purple-400'}
-          ${file ? 'border-green-500/50' : ''}
-        `}
-      >
-        <input {...getInputProps()} />
-        {preview ? (
-          <>
-            <img src={preview} alt={view} className="w-full h-full object-cover" />
-            <button
-              onClick={(e) => { e.stopPropagation(); onFileChange(view, null); }}
-              className="absolute top-1 right-1 bg-red-500 rounded-full p-1 hover:bg-red-600"
-            >
-              <X className="w-3 h-3 text-white" />
-            </button>
-          </>
-        ) : (
-          <div className="h-full flex flex-col items-center justify-center text-gray-500">
-            <Upload className="w-5 h-5 mb-1" />
-            <span className="text-xs">{view}</span>
-          </div>
-        )}
-      </div>
-    </div>
-  )
-}
-
-function App() {
-  const [activeTab, setActiveTab] = useState<'create' | 'gallery'>('create')
-  const [viewImages, setViewImages] = useState<ViewImages>({ front: null, back: null, left: null, right: null })
-  const [modelName, setModelName] = useState('')
-  const [isConverting, setIsConverting] = useState(false)
-  const [conversionResult, setConversionResult] = useState<ConversionResult | null>(null)
-  const [error, setError] = useState<string | null>(null)
-  const [progress, setProgress] = useState('')
-  const [progressPercent, setProgressPercent] = useState(0)
-  const [jobId, setJobId] = useState<string | null>(null)
-  const [savedModels, setSavedModels] = useState<SavedModel[]>([])
-  const [selectedModel, setSelectedModel] = useState<SavedModel | null>(null)
-  const [editingModel, setEditingModel] = useState<number | null>(null)
-  const [editName, setEditName] = useState('')
-  const [editDescription, setEditDescription] = useState('')
+    jobQueue.submit({
+      images,
+      name: set.name,
+      viewConfig: viewConfig(presentViews, set.images),
+      viewAngles: viewAngles(presentViews, set.images),
+      settings: conversionSettings,
+      workspaceId: workspace.id,
+    })
+  }
 
-  const fetchModels = useCallback(async () => {
+  const handleApplyAdjustment = async (view: ViewType, adjustment: ViewAdjustment) => {
+    const original = editSources[view]?.original ?? viewImages[view]
+    if (!original) return
     try {
-      const response = await fetch(`${API_BASE}/api/models`)
-      const data = await response.json()
-      setSavedModels(data.models || [])
+      const framed = await renderAdjustedFile(original, adjustment)
+      setViewImages(prev => ({ ...prev, [view]: framed }))
+      setEditSources(prev => ({ ...prev, [view]: { original, adjustment } }))
+      setEditingView(null)
     } catch (err) {
-      console.error('Failed to fetch models:', err)
+      setError(`Failed to apply ${view} framing: ${errorMessage(err)}`)
     }
-  }, [])
-
-  useEffect(() => {
-    fetchModels()
-  }, [fetchModels])
-
-  const handleViewFileChange = (view: ViewType, file: File | null) => {
-    setViewImages(prev => ({ ...prev, [view]: file }))
   }
 
   const clearAllViews = () => {
-    setViewImages({ front: null, back: null, left: null, right: null })
+    setViewImages(emptyViewImages(views))
+    setEditSources({})
     setModelName('')
     setConversionResult(null)
     setError(null)
   }
 
-  const pollJobStatus = useCallback(async (jobId: string) => {
-    try {
-      const response = await fetch(`${API_BASE}/api/job/${jobId}`)
-      if (!response.ok) throw new Error('Failed to get job status')
-      
-      const data = await response.json()
-      setProgress(data.message || 'Processing...')
-      setProgressPercent(data.progress || 0)
-      
-      if (data.status === 'completed' && data.result) {
-        setConversionResult({
-          status: 'success',
-          task_id: jobId,
-          model_id: data.result.model_id,
-          model_url: data.result.model_url,
-          thumbnail_url: data.result.thumbnail_url
-        })
-        setIsConverting(false)
-        setJobId(null)
-        setProgress('')
-        setProgressPercent(100)
-        fetchModels()
-        return true
-      } else if (data.status === 'failed') {
-        setError(data.error || 'Conversion failed')
-        setIsConverting(false)
-        setJobId(null)
-        setProgress('')
-        setProgressPercent(0)
-        return true
-      }
-      return false
-    } catch (err) {
-      console.error('Polling error:', err)
-      return false
+  const handleJobCompleted = useCallback((job: QueuedJob) => {
+    if (!job.jobId || !job.result) return
+    setConversionResult({
+      status: 'success',
+      task_id: job.jobId,
+      model_id: job.result.model_id,
+      model_url: job.result.model_url,
+      thumbnail_url: job.result.thumbnail_url
+    })
+    reloadGallery()
+    if (job.result.model_id !== undefined) {
+      api.getModel(job.result.model_id)
+        .then(ensurePreviews)
+        .catch(err => console.error('Failed to load converted model:', err))
     }
-  }, [fetchModels])
+  }, [reloadGallery, ensurePreviews])
+
+  const jobQueue = useJobQueue({ onCompleted: handleJobCompleted })
+
+  const openModel = (modelId: number) => navigate(routePath({ name: 'model', modelId }))
+
+  // "Re-convert as new version" links here with ?version_of=<model id>.
+  const versionOfParam = useSearchParam('version_of')
+  const versionOf = route.name === 'create' ? Number(versionOfParam) || null : null
 
   useEffect(() => {
-    if (!jobId || !isConverting) return
-    
-    const interval = setInterval(async () => {
-      const isDone = await pollJobStatus(jobId)
-      if (isDone) clearInterval(interval)
-    }, 2000)
-    
-    return () => clearInterval(interval)
-  }, [jobId, isConverting, pollJobStatus])
-
-  const handleConvert = async () => {
-    if (!viewImages.front) {
-      setError('Front view image is required')
+    if (versionOf === null) {
+      setVersionTarget(null)
+      return
+    }
+    const controller = new AbortController()
+    api.getModel(versionOf, controller.signal)
+      .then(model => {
+        setVersionTarget(model)
+        setModelName(name => name || model.name)
+        // A new version starts from whatever the current one was converted with.
+        if (model.conversion_settings) setConversionSettings(model.conversion_settings)
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return
+        console.error('Failed to load model for new version:', err)
+        setError(`Can't add a version to model ${versionOf}: ${errorMessage(err)}`)
+      })
+    return () => controller.abort()
+  }, [versionOf])
+
+  const clearVersionTarget = () => navigate(routePath({ name: 'create' }), { replace: true })
+
+  const missingViews = missingRequiredViews(views, viewImages)
+  // What each view will actually upload: its preprocessed image where there is one.
+  const uploadImages = useMemo(() => {
+    const files = { ...viewImages }
+    for (const view of views) files[view.name] = preprocessed.results[view.name]?.file ?? viewImages[view.name]
+    return files
+  }, [views, viewImages, preprocessed.results])
+  const validation = useUploadValidation(views, viewImages, uploadImages)
+  const batchValidation = useObjectSetValidation(batchSets)
+  const canConvert = missingViews.length === 0 && !preprocessed.pending && !validation.pending && !validation.blocked
+
+  const handleConvert = () => {
+    if (missingViews.length > 0) {
+      setError(`${missingViews.map(view => view.label).join(', ')} view image is required`)
+      return
+    }
+    if (validation.blocked) {
+      setError('Fix the problems marked on the view images before converting')
       return
     }
 
-    setIsConverting(true)
     setError(null)
-    setProgress('Uploading images...')
-    setProgressPercent(0)
-    setConversionResult(null)
+    const images: Record<string, File> = {}
+    for (const view of views) {
+      // A view whose preprocessing failed is sent as-is rather than blocking the conversion.
+      const file = uploadImages[view.name]
+      if (file) images[view.name] = file
+    }
+    jobQueue.submit({
+      images,
+      name: modelName,
+      viewConfig: viewConfig(views, viewImages),
+      viewAngles: viewAngles(views, viewImages),
+      modelId: versionTarget?.id,
+      settings: conversionSettings,
+      workspaceId: workspace.id,
+    })
+    // One submit per version; further conversions go back to creating new models.
+    if (versionTarget) clearVersionTarget()
+  }
 
+  const dismissUndo = useCallback(() => setUndo(null), [])
+
+  const offerUndo = (message: string, restore: () => Promise<unknown>) => {
+    setUndo({
+      id: Date.now(),
+      message,
+      restore: async () => {
+        try {
+          await restore()
+        } catch (err) {
+          console.error('Failed to restore:', err)
+          setGalleryError(`Failed to restore: ${errorMessage(err)}`)
+        }
+        reloadGallery()
+      },
+    })
+  }
+
+  const handleDeleteModel = async (model: SavedModel) => {
     try {
-      const formData = new FormData()
-      formData.append('front', viewImages.front)
-      if (viewImages.back) formData.append('back', viewImages.back)
-      if (viewImages.left) formData.append('left', viewImages.left)
-      if (viewImages.right) formData.append('right', viewImages.right)
-      if (modelName) formData.append('name', modelName)
-
-      const response = await fetch(`${API_BASE}/api/convert-multiview`, {
-        method: 'POST',
-        body: formData
-      })
+      await api.deleteModel(model.id)
+      setGalleryError(null)
+      reloadGallery()
+      setCheckedModels(prev => prev.filter(m => m.id !== model.id))
+      if (selectedModel?.id === model.id) setSelectedModel(null)
+      offerUndo(`Moved "${model.name}" to the trash`, () => api.restoreModel(model.id))
+    } catch (err) {
+      console.error('Failed to delete model:', err)
+      setGalleryError(`Failed to delete model: ${errorMessage(err)}`)
+    }
+  }
+
+  const handleUpdateModel = async (modelId: number) => {
+    try {
+      await api.updateModel(modelId, { name: editName, description: editDescription, tags: normalizeTags(editTags.split(',')) })
+      setGalleryError(null)
+      setEditingModel(null)
+      reloadGallery()
+    } catch (err) {
+      console.error('Failed to update model:', err)
+      setGalleryError(`Failed to update model: ${errorMessage(err)}`)
+    }
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.detail || 'Conversion failed')
-      }
+  // Kept as whole models so a selection survives its models being filtered out of the grid.
+  const toggleChecked = (model: SavedModel) => {
+    setCheckedModels(prev => (prev.some(m => m.id === model.id) ? prev.filter(m => m.id !== model.id) : [...prev, model]))
+  }
 
-      const result = await response.json()
-      setJobId(result.job_id)
-      setProgress(result.message || 'Job started...')
-      setProgressPercent(5)
+  const runBulk = async (label: string, action: () => Promise<void>) => {
+    setBulkBusy(label)
+    try {
+      await action()
+      setGalleryError(null)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
-      setProgress('')
-      setProgressPercent(0)
-      setIsConverting(false)
+      console.error(`${label} failed:`, err)
+      setGalleryError(`${label} failed: ${errorMessage(err)}`)
+    } finally {
+      setBulkBusy(null)
+      reloadGallery()
     }
   }
 
-  const handleDeleteModel = async (modelId: number) => {
-    if (!confirm('Are you sure you want to delete this model?')) return
-    
+  const handleBulkUpdate = (label: string, update: BulkModelUpdate, apply: (model: SavedModel) => SavedModel) => {
+    const ids = checkedModels.map(model => model.id)
+    runBulk(label, async () => {
+      await api.bulkUpdateModels(ids, update)
+      setCheckedModels(prev => prev.map(apply))
+    })
+  }
+
+  const handleBulkDelete = () => {
+    const ids = checkedModels.map(model => model.id)
+    runBulk('Deleting', async () => {
+      await api.bulkDeleteModels(ids)
+      setCheckedModels([])
+      if (selectedModel && ids.includes(selectedModel.id)) setSelectedModel(null)
+      offerUndo(`Moved ${ids.length} models to the trash`, () => Promise.all(ids.map(id => api.restoreModel(id))))
+    })
+  }
+
+  const handleBulkExport = () => {
+    const models = checkedModels
+    runBulk('Exporting', async () => {
+      const zip = await exportModelsZip(models, collections.collections, (done, total) => setBulkBusy(`Exporting ${done}/${total}`))
+      downloadBlob(zip, 'models.zip')
+    })
+  }
+
+  const handleCreateCollection = async (name: string) => {
     try {
-      await fetch(`${API_BASE}/api/models/${modelId}`, { method: 'DELETE' })
-      fetchModels()
-      if (selectedModel?.id === modelId) setSelectedModel(null)
+      return await collections.create(name)
     } catch (err) {
-      console.error('Failed to delete model:', err)
+      console.error('Failed to create collection:', err)
+      setGalleryError(`Failed to create collection: ${errorMessage(err)}`)
+      return null
     }
   }
 
-  const handleUpdateModel = async (modelId: number) => {
+  const handleDeleteCollection = async (collectionId: number) => {
     try {
-      await fetch(`${API_BASE}/api/models/${modelId}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: editName, description: editDescription })
-      })
-      setEditingModel(null)
-      fetchModels()
+      await collections.remove(collectionId)
+      setGalleryQuery({ collectionId: null })
+      reloadGallery()
     } catch (err) {
-      console.error('Failed to update model:', err)
+      console.error('Failed to delete collection:', err)
+      setGalleryError(`Failed to delete collection: ${errorMessage(err)}`)
     }
   }
 
   const getProxyUrl = (url: string) => {
     if (!url) return null
-    return url.startsWith('http') ? `${API_BASE}/api/proxy-glb?url=${encodeURIComponent(url)}` : url
+    return api.proxyGlbUrl(url)
   }
 
   const displayModelUrl = conversionResult?.model_url 
@@ -322,9 +427,27 @@ function App() {
       ? getProxyUrl(selectedModel.model_url) 
       : null
 
+  const handleSceneLoaded = useCallback((scene: Object3D) => {
+    if (displayModelUrl) setLoadedScene({ url: displayModelUrl, scene })
+  }, [displayModelUrl])
+
+  // Only offer the scene for export once it belongs to the model currently on screen.
+  const currentScene = loadedScene && loadedScene.url === displayModelUrl ? loadedScene.scene : null
+  const galleryPath = `${routePath({ name: 'gallery' })}${galleryQueryToSearch(galleryQuery)}`
+  const displayModelName = conversionResult
+    ? savedModels.find(model => model.id === conversionResult.model_id)?.name ?? null
+    : selectedModel?.name
+
   return (
     <div className="min-h-screen p-8">
       <div className="max-w-7xl mx-auto">
+        <AccountBar
+          user={user}
+          workspace={workspace}
+          workspaces={workspaces}
+          onWorkspaceChange={setWorkspaceId}
+          onSignOut={() => signOut()}
+        />
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold text-white mb-2 flex items-center justify-center gap-3">
             <Box className="w-10 h-10 text-purple-400" />
@@ -333,29 +456,43 @@ function App() {
           <p className="text-gray-400">Upload images by view position to create accurate 3D models</p>
         </div>
 
+        {!online && (
+          <div className="mb-6 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg flex items-center gap-2 text-yellow-300 text-sm">
+            <WifiOff className="w-4 h-4 shrink-0" />
+            You're offline. Previously viewed models are still available, and new conversions will be sent once you reconnect.
+          </div>
+        )}
+
         {/* Tab Navigation */}
         <div className="flex justify-center mb-6">
           <div className="bg-white/5 rounded-xl p-1 flex gap-1">
-            <button
-              onClick={() => setActiveTab('create')}
-              className={`px-6 py-2 rounded-lg font-medium transition-all flex items-center gap-2 ${
-                activeTab === 'create' ? 'bg-purple-500 text-white' : 'text-gray-400 hover:text-white'
-              }`}
-            >
-              <Plus className="w-4 h-4" /> Create New
-            </button>
-            <button
-              onClick={() => setActiveTab('gallery')}
+            {permissions.canEdit && (
+              <Link
+                to={routePath({ name: 'create' })}
+                className={`px-6 py-2 rounded-lg font-medium transition-all flex items-center gap-2 ${
+                  route.name === 'create' ? 'bg-purple-500 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                <Plus className="w-4 h-4" /> Create New
+              </Link>
+            )}
+            <Link
+              to={galleryPath}
               className={`px-6 py-2 rounded-lg font-medium transition-all flex items-center gap-2 ${
-                activeTab === 'gallery' ? 'bg-purple-500 text-white' : 'text-gray-400 hover:text-white'
+                route.name === 'gallery' || route.name === 'model' || route.name === 'trash' ? 'bg-purple-500 text-white' : 'text-gray-400 hover:text-white'
               }`}
             >
-              <Grid className="w-4 h-4" /> Gallery ({savedModels.length})
-            </button>
+              <Grid className="w-4 h-4" /> Gallery{gallery.total !== null && ` (${gallery.total})`}
+            </Link>
           </div>
         </div>
 
-        {activeTab === 'create' ? (
+        {route.name === 'create' && !permissions.canEdit ? (
+          <div className="text-center py-16 text-gray-400">
+            <p className="mb-4">You have view-only access to {workspace.name}. Ask a workspace admin for the editor role to convert models.</p>
+            <Link to={galleryPath} className="text-purple-400 hover:text-purple-300">Browse the gallery</Link>
+          </div>
+        ) : route.name === 'create' ? (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Left Panel - View Upload */}
             <div className="bg-white/5 backdrop-blur-lg rounded-2xl p-6 border border-white/10">
@@ -369,6 +506,20 @@ function App() {
                 </button>
               </div>
 
+              {versionTarget && (
+                <div className="mb-4 p-3 bg-purple-500/10 border border-purple-500/20 rounded-lg flex items-center justify-between gap-2">
+                  <p className="text-purple-200 text-sm">
+                    Converting as a new version of{' '}
+                    <Link to={routePath({ name: 'model', modelId: versionTarget.id })} className="underline hover:text-white">
+                      {versionTarget.name}
+                    </Link>
+                  </p>
+                  <button onClick={clearVersionTarget} className="text-gray-400 hover:text-white" title="Create a new model instead">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+
               <div className="mb-4">
                 <label className="text-sm font-medium text-gray-300 mb-1 block">Model Name (optional)</label>
                 <input
@@ -380,43 +531,79 @@ function App() {
                 />
               </div>
 
+              <BulkDropZone rules={assignmentRules} onRulesChange={handleRulesChange} onFiles={handleBulkFiles} />
+
+              <button
+                onClick={() => setCapturing(true)}
+                className="w-full mb-4 py-2 bg-white/5 text-gray-300 rounded-lg text-sm hover:text-white hover:bg-white/10 flex items-center justify-center gap-2"
+              >
+                <Camera className="w-4 h-4" /> Capture views with camera
+              </button>
+
               <div className="grid grid-cols-2 gap-4">
-                <ViewUploadField view="front" file={viewImages.front} onFileChange={handleViewFileChange} required />
-                <ViewUploadField view="back" file={viewImages.back} onFileChange={handleViewFileChange} />
-                <ViewUploadField view="left" file={viewImages.left} onFileChange={handleViewFileChange} />
-                <ViewUploadField view="right" file={viewImages.right} onFileChange={handleViewFileChange} />
+                {views.map(view => (
+                  <ViewUploadField
+                    key={view.name}
+                    definition={view}
+                    file={viewImages[view.name]}
+                    onFileChange={handleViewFileChange}
+                    processed={preprocessed.results[view.name]}
+                    processing={preprocessOptions.enabled && !!viewImages[view.name] && !preprocessed.results[view.name] && !preprocessed.errors[view.name]}
+                    processError={preprocessed.errors[view.name]}
+                    onShowProcessing={setPreviewView}
+                    onEdit={setEditingView}
+                    edited={!!editSources[view.name]}
+                    onRemoveView={handleRemoveView}
+                    onTrayDrop={(target, itemId) => handleTrayAssign(itemId, target)}
+                    issues={validation.issues[view.name]}
+                  />
+                ))}
               </div>
 
+              <AddViewMenu activeViews={views} onAdd={handleAddView} />
+
+              {trayItems.length > 0 && (
+                <UnassignedTray
+                  items={trayItems}
+                  views={views}
+                  onAssign={handleTrayAssign}
+                  onRemove={(id) => setTrayItems(prev => prev.filter(item => item.id !== id))}
+                  onClear={() => setTrayItems([])}
+                />
+              )}
+
+              {batchSets.length > 0 && (
+                <BatchSetsPanel
+                  sets={batchSets}
+                  validation={batchValidation}
+                  onLoad={loadObjectSet}
+                  onConvert={submitObjectSet}
+                  onConvertAll={sets => sets.forEach(submitObjectSet)}
+                  onDismiss={(set) => setBatchSets(prev => prev.filter(s => s.id !== set.id))}
+                />
+              )}
+
               <p className="mt-3 text-xs text-gray-500">
-                Front view is required. More views = better 3D model accuracy.
+                Views marked * are required. More views = better 3D model accuracy.
               </p>
 
+              <PreprocessSettings options={preprocessOptions} onChange={setPreprocessOptions} />
+              <ConversionSettingsPanel settings={conversionSettings} onChange={setConversionSettings} />
+
               <button
                 onClick={handleConvert}
-                disabled={!viewImages.front || isConverting}
+                disabled={!canConvert}
                 className={`w-full mt-4 py-3 px-6 rounded-xl font-semibold transition-all flex items-center justify-center gap-2 ${
-                  !viewImages.front || isConverting
+                  !canConvert
                     ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
                     : 'bg-gradient-to-r from-purple-500 to-pink-500 text-white hover:from-purple-600 hover:to-pink-600'
                 }`}
               >
-                {isConverting ? <><Loader2 className="w-5 h-5 animate-spin" /> Converting...</> : <><Box className="w-5 h-5" /> Convert to 3D</>}
+                {preprocessed.pending || validation.pending
+                  ? <><Loader2 className="w-5 h-5 animate-spin" /> {validation.pending ? 'Checking images...' : 'Preparing images...'}</>
+                  : <><Box className="w-5 h-5" /> {online ? 'Convert to 3D' : 'Queue conversion'}</>}
               </button>
 
-              {isConverting && (
-                <div className="mt-4 space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span className="text-purple-400">{progress}</span>
-                    <span className="text-gray-400">{progressPercent}%</span>
-                  </div>
-                  <div className="w-full h-3 bg-black/30 rounded-full overflow-hidden">
-                    <div 
-                      className="h-full bg-gradient-to-r from-purple-500 to-pink-500 rounded-full transition-all duration-500 ease-out"
-                      style={{ width: `${progressPercent}%` }}
-                    />
-                  </div>
-                </div>
-              )}
               {error && <div className="mt-3 p-3 bg-red-500/10 border border-red-500/20 rounded-lg"><p className="text-red-400 text-sm">{error}</p></div>}
             </div>
 
@@ -427,18 +614,17 @@ function App() {
                   <Box className="w-5 h-5 text-purple-400" /> 3D Preview
                 </h2>
                 {displayModelUrl && (
-                  <button
-                    onClick={() => window.open(conversionResult?.model_url || selectedModel?.model_url, '_blank')}
-                    className="flex items-center gap-2 px-4 py-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30"
-                  >
-                    <Download className="w-4 h-4" /> Download GLB
-                  </button>
+                  <ExportMenu
+                    scene={currentScene}
+                    name={displayModelName}
+                    originalUrl={conversionResult?.model_url || selectedModel?.model_url || displayModelUrl}
+                  />
                 )}
               </div>
 
               <div className="h-80 bg-black/30 rounded-xl overflow-hidden">
                 {displayModelUrl ? (
-                  <ModelViewer modelUrl={displayModelUrl} />
+                  <ModelViewer modelUrl={displayModelUrl} onSceneLoaded={handleSceneLoaded} />
                 ) : (
                   <div className="h-full flex items-center justify-center text-gray-500">
                     <div className="text-center">
@@ -455,35 +641,170 @@ function App() {
                 </div>
               )}
             </div>
+
+            {previewView && preprocessed.results[previewView] && (
+              <PreprocessPreview
+                title={views.find(view => view.name === previewView)?.label ?? previewView}
+                result={preprocessed.results[previewView]!}
+                onClose={() => setPreviewView(null)}
+              />
+            )}
+
+            {editingView && viewImages[editingView] && (
+              <ViewEditor
+                view={views.find(view => view.name === editingView)!}
+                source={editSources[editingView]?.original ?? viewImages[editingView]!}
+                initialAdjustment={editSources[editingView]?.adjustment ?? DEFAULT_ADJUSTMENT}
+                references={views
+                  .filter(view => view.name !== editingView && viewImages[view.name])
+                  .map(view => ({ view, file: viewImages[view.name]! }))}
+                guides={alignmentGuides}
+                onGuidesChange={setAlignmentGuides}
+                onApply={(adjustment) => handleApplyAdjustment(editingView, adjustment)}
+                onClose={() => setEditingView(null)}
+              />
+            )}
+
+            {capturing && (
+              <CaptureDialog
+                views={views}
+                images={viewImages}
+                guides={alignmentGuides}
+                onCapture={handleViewFileChange}
+                onClose={() => setCapturing(false)}
+              />
+            )}
+
+            {jobQueue.jobs.length > 0 && (
+              <div className="lg:col-span-2">
+                <JobQueuePanel
+                  jobs={jobQueue.jobs}
+                  canRetry={jobQueue.canRetry}
+                  onCancel={jobQueue.cancel}
+                  onRetry={jobQueue.retry}
+                  onDismiss={jobQueue.dismiss}
+                  onClearFinished={jobQueue.clearFinished}
+                  onOpenModel={openModel}
+                />
+              </div>
+            )}
+          </div>
+        ) : route.name === 'model' ? (
+          <ModelDetail modelId={route.modelId} galleryPath={galleryPath} permissions={permissions} onChanged={reloadGallery} />
+        ) : route.name === 'trash' ? (
+          <TrashView permissions={permissions} onRestored={reloadGallery} />
+        ) : route.name === 'job' ? (
+          <JobDetail
+            jobId={route.jobId}
+            queuedJob={jobQueue.jobs.find(job => job.jobId === route.jobId) ?? null}
+            onCancel={jobQueue.cancel}
+          />
+        ) : route.name === 'not-found' ? (
+          <div className="text-center py-16 text-gray-400">
+            <p className="mb-4">This page doesn't exist.</p>
+            <Link to={routePath({ name: 'create' })} className="text-purple-400 hover:text-purple-300">Go to the converter</Link>
           </div>
+        ) : comparing && checkedModels.length >= 2 ? (
+          <ComparePanel
+            models={checkedModels}
+            onRemove={modelId => setCheckedModels(prev => prev.filter(model => model.id !== modelId))}
+            onClose={() => setComparing(false)}
+          />
         ) : (
           /* Gallery Tab */
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Model List */}
             <div className="lg:col-span-2 bg-white/5 backdrop-blur-lg rounded-2xl p-6 border border-white/10">
-              <h2 className="text-xl font-semibold text-white mb-4">Saved Models</h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-white">Saved Models</h2>
+                <Link
+                  to={routePath({ name: 'trash' })}
+                  className="text-sm text-gray-400 hover:text-white flex items-center gap-1"
+                >
+                  <Trash2 className="w-4 h-4" /> Trash
+                </Link>
+              </div>
+              {checkedModels.length > 0 && (
+                <BulkActionsBar
+                  count={checkedModels.length}
+                  collections={collections.collections}
+                  busy={bulkBusy}
+                  onCompare={() => setComparing(true)}
+                  onAddTags={permissions.canEdit ? tags => handleBulkUpdate('Tagging', { add_tags: tags }, model => ({
+                    ...model,
+                    tags: normalizeTags([...model.tags, ...tags]),
+                  })) : undefined}
+                  onRemoveTags={permissions.canEdit ? tags => handleBulkUpdate('Removing tags', { remove_tags: tags }, model => ({
+                    ...model,
+                    tags: model.tags.filter(tag => !tags.includes(tag)),
+                  })) : undefined}
+                  onMove={permissions.canEdit ? collectionId => handleBulkUpdate('Moving', { collection_id: collectionId }, model => ({
+                    ...model,
+                    collection_id: collectionId,
+                  })) : undefined}
+                  onCreateCollection={handleCreateCollection}
+                  onExport={handleBulkExport}
+                  onDelete={checkedModels.every(permissions.canDelete) ? handleBulkDelete : undefined}
+                  onClear={() => setCheckedModels([])}
+                />
+              )}
+              {galleryError && (
+                <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-start justify-between gap-2">
+                  <p className="text-red-400 text-sm">{galleryError}</p>
+                  <button onClick={() => setGalleryError(null)} className="text-red-400 hover:text-red-300">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+              <GalleryFilters
+                query={galleryQuery}
+                onChange={setGalleryQuery}
+                collections={collections.collections}
+                onDeleteCollection={permissions.canAdminister ? handleDeleteCollection : undefined}
+              />
+              {gallery.error && (
+                <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-start justify-between gap-2">
+                  <p className="text-red-400 text-sm">{gallery.error}</p>
+                  <button onClick={gallery.retry} className="text-red-400 hover:text-red-300 text-sm">
+                    Retry
+                  </button>
+                </div>
+              )}
               {savedModels.length === 0 ? (
                 <div className="text-center py-12 text-gray-500">
-                  <Box className="w-16 h-16 mx-auto mb-4 opacity-30" />
-                  <p>No models yet. Create one in the Create tab!</p>
+                  {gallery.loading ? (
+                    <Loader2 className="w-8 h-8 mx-auto animate-spin opacity-50" />
+                  ) : isDefaultQuery(galleryQuery) ? (
+                    <>
+                      <Box className="w-16 h-16 mx-auto mb-4 opacity-30" />
+                      <p>No models yet. Create one in the Create tab!</p>
+                    </>
+                  ) : (
+                    <p>No models match these filters.</p>
+                  )}
                 </div>
               ) : (
-                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                  {savedModels.map((model) => (
+                <VirtualGrid
+                  items={savedModels}
+                  itemKey={model => model.id}
+                  rowHeight={214}
+                  minColumnWidth={180}
+                  height="70vh"
+                  onEndReached={gallery.loadMore}
+                  footer={gallery.loading && (
+                    <div className="py-4 flex justify-center text-gray-500">
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    </div>
+                  )}
+                  renderItem={(model) => (
                     <div
-                      key={model.id}
                       onClick={() => { setSelectedModel(model); setConversionResult(null); }}
-                      className={`relative p-3 rounded-xl cursor-pointer transition-all ${
+                      className={`group relative h-full p-3 rounded-xl cursor-pointer transition-all ${
                         selectedModel?.id === model.id ? 'bg-purple-500/20 border-purple-500' : 'bg-black/20 hover:bg-black/30'
                       } border border-white/10`}
                     >
-                      <div className="h-24 bg-gray-800 rounded-lg mb-2 flex items-center justify-center overflow-hidden">
-                        {model.thumbnail_url ? (
-                          <img src={model.thumbnail_url} alt={model.name} className="w-full h-full object-cover" />
-                        ) : (
-                          <Box className="w-8 h-8 text-gray-600" />
-                        )}
-                      </div>
+                      {/* Every grid cell has the same height, so the thumbnail shrinks to make room for the edit form. */}
+                      <ModelThumbnail model={model} className={`${editingModel === model.id ? 'h-8' : 'h-24'} mb-2`} />
                       
                       {editingModel === model.id ? (
                         <div className="space-y-2">
@@ -502,6 +823,13 @@ function App() {
                             rows={2}
                             onClick={(e) => e.stopPropagation()}
                           />
+                          <input
+                            value={editTags}
+                            onChange={(e) => setEditTags(e.target.value)}
+                            className="w-full px-2 py-1 bg-black/50 border border-gray-600 rounded text-white text-xs"
+                            placeholder="Tags, comma separated"
+                            onClick={(e) => e.stopPropagation()}
+                          />
                           <div className="flex gap-1">
                             <button
                               onClick={(e) => { e.stopPropagation(); handleUpdateModel(model.id); }}
@@ -521,32 +849,74 @@ function App() {
                         <>
                           <p className="text-white text-sm font-medium truncate">{model.name}</p>
                           <p className="text-gray-500 text-xs truncate">{model.description || 'No description'}</p>
-                          <p className="text-gray-600 text-xs mt-1">{new Date(model.created_at).toLocaleDateString()}</p>
+                          <p className="text-gray-600 text-xs mt-1 truncate">
+                            {new Date(model.created_at).toLocaleDateString()}{model.owner && ` · ${model.owner.name}`}
+                          </p>
+                          <div className="flex gap-1 mt-1 overflow-hidden whitespace-nowrap text-[10px]">
+                            {model.collection_id !== null && (
+                              <span className="px-1.5 py-0.5 bg-blue-500/20 text-blue-300 rounded">
+                                {collections.collections.find(c => c.id === model.collection_id)?.name ?? 'Collection'}
+                              </span>
+                            )}
+                            {model.tags.map(tag => (
+                              <button
+                                key={tag}
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  setGalleryQuery({ tags: normalizeTags([...galleryQuery.tags, tag]) })
+                                }}
+                                className="px-1.5 py-0.5 bg-white/5 text-gray-400 rounded hover:text-white"
+                                title={`Show models tagged "${tag}"`}
+                              >
+                                {tag}
+                              </button>
+                            ))}
+                          </div>
+
+                          <label
+                            onClick={(e) => e.stopPropagation()}
+                            className={`absolute top-2 left-2 flex items-center gap-1 px-1.5 py-0.5 bg-black/60 rounded text-xs text-gray-300 transition-opacity ${
+                              checkedModels.some(m => m.id === model.id) ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                            }`}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={checkedModels.some(m => m.id === model.id)}
+                              onChange={() => toggleChecked(model)}
+                              className="accent-purple-500"
+                            />
+                            Select
+                          </label>
                           
                           <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                            <button
-                              onClick={(e) => { 
-                                e.stopPropagation(); 
-                                setEditingModel(model.id);
-                                setEditName(model.name);
-                                setEditDescription(model.description || '');
-                              }}
-                              className="p-1 bg-blue-500/20 text-blue-400 rounded hover:bg-blue-500/30"
-                            >
-                              <Edit2 className="w-3 h-3" />
-                            </button>
-                            <button
-                              onClick={(e) => { e.stopPropagation(); handleDeleteModel(model.id); }}
-                              className="p-1 bg-red-500/20 text-red-400 rounded hover:bg-red-500/30"
-                            >
-                              <Trash2 className="w-3 h-3" />
-                            </button>
+                            {permissions.canEdit && (
+                              <button
+                                onClick={(e) => { 
+                                  e.stopPropagation(); 
+                                  setEditingModel(model.id);
+                                  setEditName(model.name);
+                                  setEditDescription(model.description || '');
+                                  setEditTags(model.tags.join(', '));
+                                }}
+                                className="p-1 bg-blue-500/20 text-blue-400 rounded hover:bg-blue-500/30"
+                              >
+                                <Edit2 className="w-3 h-3" />
+                              </button>
+                            )}
+                            {permissions.canDelete(model) && (
+                              <button
+                                onClick={(e) => { e.stopPropagation(); handleDeleteModel(model); }}
+                                className="p-1 bg-red-500/20 text-red-400 rounded hover:bg-red-500/30"
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </button>
+                            )}
                           </div>
                         </>
                       )}
                     </div>
-                  ))}
-                </div>
+                  )}
+                />
               )}
             </div>
 
@@ -555,7 +925,12 @@ function App() {
               <h2 className="text-xl font-semibold text-white mb-4">Preview</h2>
               <div className="h-64 bg-black/30 rounded-xl overflow-hidden">
                 {selectedModel && displayModelUrl ? (
-                  <ModelViewer modelUrl={displayModelUrl} />
+                  <ModelViewer
+                    modelUrl={displayModelUrl}
+                    onSceneLoaded={handleSceneLoaded}
+                    initialSceneSettings={sceneSettingsFromJson(selectedModel.scene_settings)}
+                    annotations={selectedModel.annotations}
+                  />
                 ) : (
                   <div className="h-full flex items-center justify-center text-gray-500">
                     <p className="text-sm">Select a model to preview</p>
@@ -564,22 +939,77 @@ function App() {
               </div>
               {selectedModel && (
                 <div className="mt-4 space-y-2">
-                  <p className="text-white font-medium">{selectedModel.name}</p>
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-white font-medium truncate">{selectedModel.name}</p>
+                    <div className="shrink-0 flex items-center gap-3">
+                      <button
+                        onClick={() => setSharing(true)}
+                        className="text-xs text-purple-400 hover:text-purple-300 flex items-center gap-1"
+                      >
+                        <Share2 className="w-3 h-3" /> Share
+                      </button>
+                      <Link
+                        to={routePath({ name: 'model', modelId: selectedModel.id })}
+                        className="text-xs text-purple-400 hover:text-purple-300 flex items-center gap-1"
+                      >
+                        <ExternalLink className="w-3 h-3" /> Details
+                      </Link>
+                    </div>
+                  </div>
                   <p className="text-gray-400 text-sm">{selectedModel.description || 'No description'}</p>
-                  <button
-                    onClick={() => window.open(selectedModel.model_url, '_blank')}
-                    className="w-full py-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 flex items-center justify-center gap-2"
-                  >
-                    <Download className="w-4 h-4" /> Download GLB
-                  </button>
+                  {selectedModel.view_config && (
+                    <div className="flex flex-wrap gap-1">
+                      {Object.keys(selectedModel.view_config).map(view => (
+                        <span key={view} className="px-2 py-0.5 bg-white/5 rounded text-xs text-gray-400">{view}</span>
+                      ))}
+                    </div>
+                  )}
+                  <ExportMenu scene={currentScene} name={selectedModel.name} originalUrl={selectedModel.model_url} />
+                  {sharing && <ShareDialog model={selectedModel} onClose={() => setSharing(false)} />}
                 </div>
               )}
             </div>
           </div>
         )}
       </div>
+
+      {undo && (
+        <UndoToast key={undo.id} message={undo.message} onUndo={undo.restore} onDismiss={dismissUndo} />
+      )}
     </div>
   )
 }
 
+function App() {
+  const session = useSession()
+  const workspaceId = useWorkspaceId()
+  const { workspaces, error, retry } = useWorkspaces(session, defaultAuthProvider)
+
+  if (!session) return <SignIn provider={defaultAuthProvider} />
+
+  const workspace = workspaces?.find(candidate => candidate.id === workspaceId)
+  if (!workspaces || !workspace) {
+    return (
+      <div className="min-h-screen p-8 flex items-center justify-center text-gray-400 text-sm">
+        {error || workspaces?.length === 0 ? (
+          <div className="text-center space-y-3">
+            <p className={error ? 'text-red-400' : undefined}>
+              {error ?? `${session.user.email} isn't a member of any workspace yet. Ask a workspace admin to add you.`}
+            </p>
+            <div className="flex justify-center gap-4">
+              {error && <button onClick={retry} className="text-purple-400 hover:text-purple-300">Retry</button>}
+              <button onClick={() => signOut()} className="text-purple-400 hover:text-purple-300">Sign out</button>
+            </div>
+          </div>
+        ) : (
+          <Loader2 className="w-8 h-8 animate-spin opacity-50" />
+        )}
+      </div>
+    )
+  }
+
+  // Everything on screen belongs to one workspace, so switching starts the app over rather than patching every view.
+  return <WorkspaceApp key={`${session.user.id}:${workspace.id}`} user={session.user} workspace={workspace} workspaces={workspaces} />
+}
+
 export default App
@@ -0,0 +1,382 @@
+import { HttpError, NetworkError, TimeoutError, ValidationError, isAbortError } from './errors'
+import {
+  parseAuthSession,
+  parseCollection,
+  parseCollectionList,
+  parseConvertJob,
+  parseJobStatus,
+  parseModelList,
+  parseModelPage,
+  parseSavedModel,
+  parseShareToken,
+  parseUploadedUrl,
+  parseVersionList,
+  parseWorkspaceList,
+} from './validate'
+import { applyModelQuery, modelQueryParams } from './query'
+import type {
+  AuthSession,
+  BulkModelUpdate,
+  Collection,
+  ConversionSettings,
+  ConvertJob,
+  JobStatus,
+  ModelPage,
+  ModelQuery,
+  ModelTurntable,
+  ModelUpdate,
+  ModelVersion,
+  PageRequest,
+  SavedModel,
+  Workspace,
+} from './types'
+
+export interface RetryPolicy {
+  retries: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+// GLB loaders, EventSource and WebSocket can't send headers, so the URLs the browser fetches itself are
+// authorised by the HttpOnly cookie the server sets at sign-in rather than by the bearer token, which
+// would otherwise end up in access logs and cache keys. Cross-origin, they only send it when asked to.
+export function sendCredentials(loader: { setWithCredentials(value: boolean): unknown }) {
+  loader.setWithCredentials(true)
+}
+
+export interface ApiClientOptions {
+  baseUrl?: string
+  fetch?: typeof fetch
+  timeoutMs?: number
+  retry?: Partial<RetryPolicy>
+  // Read on every request, so signing in or switching workspace doesn't need a new client.
+  getToken?: () => string | null
+  getWorkspaceId?: () => number | null
+  // Called when the server rejects the token, so an expired session can be dropped.
+  onUnauthorized?: () => void
+}
+
+export interface ViewAngle {
+  azimuth: number
+  elevation: number
+}
+
+export interface ConvertRequest {
+  images: Record<string, Blob>
+  name?: string
+  viewConfig?: Record<string, string>
+  viewAngles?: Record<string, ViewAngle>
+  // Convert into a new version of this model instead of creating a new one.
+  modelId?: number
+  settings?: ConversionSettings
+  // Defaults to the active workspace; conversions queued offline keep the one they were submitted in.
+  workspaceId?: number
+}
+
+export interface ApiClient {
+  signIn(email: string, password: string): Promise<AuthSession>
+  signOut(): Promise<void>
+  listWorkspaces(signal?: AbortSignal): Promise<Workspace[]>
+  listModels(signal?: AbortSignal): Promise<SavedModel[]>
+  searchModels(query: ModelQuery, page: PageRequest, signal?: AbortSignal): Promise<ModelPage>
+  getModel(modelId: number, signal?: AbortSignal): Promise<SavedModel>
+  // Returns the model's share token, which lets embeds read it without signing in.
+  createShareToken(modelId: number): Promise<string>
+  getSharedModel(shareToken: string, signal?: AbortSignal): Promise<SavedModel>
+  updateModel(modelId: number, update: ModelUpdate): Promise<void>
+  // Moves the model to the trash; purgeModel deletes it for good.
+  deleteModel(modelId: number): Promise<void>
+  restoreModel(modelId: number): Promise<SavedModel>
+  purgeModel(modelId: number): Promise<void>
+  listTrash(signal?: AbortSignal): Promise<SavedModel[]>
+  listVersions(modelId: number, signal?: AbortSignal): Promise<ModelVersion[]>
+  restoreVersion(modelId: number, version: number): Promise<SavedModel>
+  // Replaces the mesh with an edited GLB, recorded as a new version.
+  uploadModelVersion(modelId: number, glb: Blob): Promise<SavedModel>
+  uploadThumbnail(modelId: number, image: Blob): Promise<SavedModel>
+  uploadTurntable(modelId: number, turntable: { blob: Blob, format: ModelTurntable['format'], frames: number }): Promise<SavedModel>
+  // Stores a custom HDRI for the model's scene settings and returns its URL.
+  uploadEnvironmentMap(modelId: number, file: File): Promise<string>
+  bulkUpdateModels(modelIds: number[], update: BulkModelUpdate): Promise<void>
+  bulkDeleteModels(modelIds: number[]): Promise<void>
+  listCollections(signal?: AbortSignal): Promise<Collection[]>
+  createCollection(name: string): Promise<Collection>
+  deleteCollection(collectionId: number): Promise<void>
+  convertMultiview(request: ConvertRequest, signal?: AbortSignal): Promise<ConvertJob>
+  getJob(jobId: string, signal?: AbortSignal): Promise<JobStatus>
+  cancelJob(jobId: string): Promise<void>
+  jobEventsUrl(jobId: string): string
+  jobSocketUrl(jobId: string): string
+  proxyGlbUrl(url: string, shareToken?: string | null): string
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE'
+  body?: BodyInit
+  headers?: Record<string, string>
+  signal?: AbortSignal
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000
+const DEFAULT_RETRY: RetryPolicy = { retries: 2, baseDelayMs: 500, maxDelayMs: 4_000 }
+
+function isRetryable(err: unknown) {
+  if (err instanceof NetworkError || err instanceof TimeoutError) return true
+  return err instanceof HttpError && (err.status === 429 || err.status >= 500)
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'))
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }, { once: true })
+  })
+}
+
+async function readDetail(response: Response) {
+  try {
+    const data = await response.json()
+    return typeof data?.detail === 'string' ? data.detail : null
+  } catch {
+    return null
+  }
+}
+
+export function createApiClient(options: ApiClientOptions = {}): ApiClient {
+  const baseUrl = options.baseUrl ?? ''
+  const fetchImpl = options.fetch ?? ((input, init) => globalThis.fetch(input, init))
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const retry = { ...DEFAULT_RETRY, ...options.retry }
+
+  function sessionHeaders() {
+    const headers: Record<string, string> = {}
+    const token = options.getToken?.()
+    const workspaceId = options.getWorkspaceId?.()
+    if (token) headers.Authorization = `Bearer ${token}`
+    if (workspaceId != null) headers['X-Workspace-Id'] = String(workspaceId)
+    return headers
+  }
+
+  async function attempt(url: string, { method = 'GET', body, headers, signal }: RequestOptions) {
+    const controller = new AbortController()
+    let timedOut = false
+    const timer = setTimeout(() => { timedOut = true; controller.abort() }, timeoutMs)
+    const forwardAbort = () => controller.abort()
+    signal?.addEventListener('abort', forwardAbort, { once: true })
+
+    let response: Response
+    try {
+      response = await fetchImpl(url, {
+        method,
+        body,
+        headers: { ...sessionHeaders(), ...headers },
+        // Lets a cross-origin server set and clear the session cookie at sign-in and sign-out.
+        credentials: 'include',
+        signal: controller.signal,
+      })
+    } catch (err) {
+      if (timedOut) throw new TimeoutError(url, timeoutMs)
+      if (signal?.aborted || isAbortError(err)) throw err
+      throw new NetworkError(url, err)
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', forwardAbort)
+    }
+
+    if (response.status === 401) options.onUnauthorized?.()
+    if (!response.ok) throw new HttpError(response.status, await readDetail(response), url)
+    if (response.status === 204) return null
+    try {
+      return await response.json() as unknown
+    } catch (err) {
+      if (isAbortError(err)) throw err
+      // A proxy's HTML error page or a truncated body would otherwise surface as a bare SyntaxError.
+      throw new ValidationError(url, 'valid JSON')
+    }
+  }
+
+  async function request(path: string, init: RequestOptions = {}): Promise<unknown> {
+    const url = `${baseUrl}${path}`
+    // Conversions are not idempotent: retrying a POST could start a duplicate job.
+    const retries = init.method === 'POST' ? 0 : retry.retries
+    for (let attemptNo = 0; ; attemptNo++) {
+      try {
+        return await attempt(url, init)
+      } catch (err) {
+        if (attemptNo >= retries || !isRetryable(err) || init.signal?.aborted) throw err
+        await wait(Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attemptNo), init.signal)
+      }
+    }
+  }
+
+  return {
+    async signIn(email, password) {
+      return parseAuthSession(await request('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      }))
+    },
+
+    async signOut() {
+      await request('/api/auth/logout', { method: 'POST' })
+    },
+
+    async listWorkspaces(signal) {
+      return parseWorkspaceList(await request('/api/workspaces', { signal }))
+    },
+
+    async listModels(signal) {
+      return parseModelList(await request('/api/models', { signal }))
+    },
+
+    async searchModels(query, page, signal) {
+      const result = parseModelPage(await request(`/api/models?${modelQueryParams(query, page)}`, { signal }))
+      if (result.total !== null) return { models: result.models, total: result.total }
+      const matching = applyModelQuery(result.models, query)
+      return { models: matching.slice(page.offset, page.offset + page.limit), total: matching.length }
+    },
+
+    async getModel(modelId, signal) {
+      return parseSavedModel(await request(`/api/models/${modelId}`, { signal }))
+    },
+
+    async createShareToken(modelId) {
+      return parseShareToken(await request(`/api/models/${modelId}/share`, { method: 'POST' }))
+    },
+
+    async getSharedModel(shareToken, signal) {
+      return parseSavedModel(await request(`/api/shared/${encodeURIComponent(shareToken)}`, { signal }))
+    },
+
+    async updateModel(modelId, update) {
+      await request(`/api/models/${modelId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      })
+    },
+
+    async deleteModel(modelId) {
+      await request(`/api/models/${modelId}`, { method: 'DELETE' })
+    },
+
+    async restoreModel(modelId) {
+      return parseSavedModel(await request(`/api/models/${modelId}/restore`, { method: 'POST' }))
+    },
+
+    async purgeModel(modelId) {
+      await request(`/api/models/${modelId}?permanent=true`, { method: 'DELETE' })
+    },
+
+    async listTrash(signal) {
+      return parseModelList(await request('/api/trash', { signal }))
+    },
+
+    async listVersions(modelId, signal) {
+      return parseVersionList(await request(`/api/models/${modelId}/versions`, { signal }))
+    },
+
+    async restoreVersion(modelId, version) {
+      return parseSavedModel(await request(`/api/models/${modelId}/versions/${version}/restore`, { method: 'POST' }))
+    },
+
+    async uploadModelVersion(modelId, glb) {
+      const formData = new FormData()
+      formData.append('file', glb, 'model.glb')
+      return parseSavedModel(await request(`/api/models/${modelId}/versions`, { method: 'POST', body: formData }))
+    },
+
+    async bulkUpdateModels(modelIds, update) {
+      await request('/api/models/bulk-update', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: modelIds, ...update }),
+      })
+    },
+
+    async bulkDeleteModels(modelIds) {
+      await request('/api/models/bulk-delete', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: modelIds }),
+      })
+    },
+
+    async listCollections(signal) {
+      return parseCollectionList(await request('/api/collections', { signal }))
+    },
+
+    async createCollection(name) {
+      return parseCollection(await request('/api/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      }))
+    },
+
+    async deleteCollection(collectionId) {
+      await request(`/api/collections/${collectionId}`, { method: 'DELETE' })
+    },
+
+    async uploadThumbnail(modelId, image) {
+      const formData = new FormData()
+      formData.append('file', image, 'thumbnail.png')
+      return parseSavedModel(await request(`/api/models/${modelId}/thumbnail`, { method: 'POST', body: formData }))
+    },
+
+    async uploadTurntable(modelId, { blob, format, frames }) {
+      const formData = new FormData()
+      formData.append('file', blob, format === 'webm' ? 'turntable.webm' : 'turntable.png')
+      formData.append('format', format)
+      formData.append('frames', String(frames))
+      return parseSavedModel(await request(`/api/models/${modelId}/turntable`, { method: 'POST', body: formData }))
+    },
+
+    async uploadEnvironmentMap(modelId, file) {
+      const formData = new FormData()
+      formData.append('file', file)
+      return parseUploadedUrl(await request(`/api/models/${modelId}/environment`, { method: 'POST', body: formData }))
+    },
+
+    async convertMultiview({ images, name, viewConfig, viewAngles, modelId, settings, workspaceId }, signal) {
+      const formData = new FormData()
+      for (const [view, image] of Object.entries(images)) formData.append(view, image)
+      if (name) formData.append('name', name)
+      if (viewConfig) formData.append('view_config', JSON.stringify(viewConfig))
+      if (viewAngles) formData.append('view_angles', JSON.stringify(viewAngles))
+      if (modelId !== undefined) formData.append('model_id', String(modelId))
+      if (settings) formData.append('conversion_settings', JSON.stringify(settings))
+      const headers = workspaceId !== undefined ? { 'X-Workspace-Id': String(workspaceId) } : undefined
+      return parseConvertJob(await request('/api/convert-multiview', { method: 'POST', body: formData, headers, signal }))
+    },
+
+    async getJob(jobId, signal) {
+      return parseJobStatus(await request(`/api/job/${encodeURIComponent(jobId)}`, { signal }))
+    },
+
+    async cancelJob(jobId) {
+      await request(`/api/job/${encodeURIComponent(jobId)}`, { method: 'DELETE' })
+    },
+
+    jobEventsUrl(jobId) {
+      return `${baseUrl}/api/job/${encodeURIComponent(jobId)}/events`
+    },
+
+    jobSocketUrl(jobId) {
+      const origin = new URL(baseUrl || '/', window.location.href)
+      origin.protocol = origin.protocol === 'https:' ? 'wss:' : 'ws:'
+      return `${origin.origin}${origin.pathname.replace(/\/$/, '')}/api/job/${encodeURIComponent(jobId)}/ws`
+    },
+
+    proxyGlbUrl(url, shareToken) {
+      if (!url.startsWith('http')) return url
+      const proxied = `${baseUrl}/api/proxy-glb?url=${encodeURIComponent(url)}`
+      // Embeds have no session; their share token grants read access to that one model instead.
+      return shareToken ? `${proxied}&share=${encodeURIComponent(shareToken)}` : proxied
+    },
+  }
+}
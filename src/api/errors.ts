@@ -0,0 +1,53 @@
+export class ApiError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+export class HttpError extends ApiError {
+  readonly status: number
+  readonly detail: string | null
+
+  constructor(status: number, detail: string | null, url: string) {
+    super(detail || `Request to ${url} failed with status ${status}`)
+    this.name = 'HttpError'
+    this.status = status
+    this.detail = detail
+  }
+}
+
+export class NetworkError extends ApiError {
+  readonly cause: unknown
+
+  constructor(url: string, cause?: unknown) {
+    super(`Could not reach ${url}`)
+    this.name = 'NetworkError'
+    this.cause = cause
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`)
+    this.name = 'TimeoutError'
+  }
+}
+
+export class ValidationError extends ApiError {
+  readonly path: string
+
+  constructor(path: string, expected: string) {
+    super(`Invalid response: expected ${path} to be ${expected}`)
+    this.name = 'ValidationError'
+    this.path = path
+  }
+}
+
+export function errorMessage(err: unknown, fallback = 'An error occurred') {
+  return err instanceof Error ? err.message : fallback
+}
+
+export function isAbortError(err: unknown) {
+  return err instanceof DOMException && err.name === 'AbortError'
+}
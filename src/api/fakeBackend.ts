@@ -0,0 +1,449 @@
+import { applyModelQuery, modelQueryFromParams, normalizeTags } from './query'
+import type { Collection, ConversionSettings, ModelOwner, ModelVersion, ModelVersionChange, SavedModel, User } from './types'
+import { MOCK_USERS, MOCK_WORKSPACES, mockToken, mockUserFromToken, mockWorkspacesFor } from '../auth/mockAuth'
+import type { MockWorkspace } from '../auth/mockAuth'
+import { rolePermissions } from '../auth/permissions'
+
+export interface FakeBackendOptions {
+  models?: SavedModel[]
+  collections?: Collection[]
+  // Accounts and memberships; tokens are the mock auth provider's, so either way of signing in works.
+  users?: User[]
+  workspaces?: MockWorkspace[]
+  jobDurationMs?: number
+  latencyMs?: number
+  failureRate?: number
+}
+
+export interface FakeBackend {
+  fetch: typeof fetch
+  models(): SavedModel[]
+}
+
+interface FakeJob {
+  id: string
+  name: string
+  images: Record<string, File>
+  viewConfig: Record<string, string>
+  settings: ConversionSettings | null
+  targetModelId: number | null
+  workspaceId: number
+  owner: ModelOwner
+  startedAt: number
+  fails: boolean
+  cancelled: boolean
+  model: SavedModel | null
+}
+
+let placeholderGlb: Promise<string> | null = null
+
+// The fake has no mesh generator, so every conversion yields the same torus knot.
+function placeholderModelUrl() {
+  placeholderGlb ??= (async () => {
+    const [THREE, { GLTFExporter }] = await Promise.all([
+      import('three'),
+      import('three/examples/jsm/exporters/GLTFExporter.js'),
+    ])
+    const mesh = new THREE.Mesh(
+      new THREE.TorusKnotGeometry(0.5, 0.16, 128, 16),
+      new THREE.MeshStandardMaterial({ color: '#a855f7', roughness: 0.4, metalness: 0.1 }),
+    )
+    const glb = await new GLTFExporter().parseAsync(mesh, { binary: true })
+    return URL.createObjectURL(new Blob([glb as ArrayBuffer], { type: 'model/gltf-binary' }))
+  })()
+  return placeholderGlb
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+function notFound(detail = 'Not found') {
+  return json({ detail }, 404)
+}
+
+function requestUrl(input: RequestInfo | URL) {
+  const href = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+  return new URL(href, 'http://fake-backend.local')
+}
+
+function bearerToken(headers: Headers) {
+  return headers.get('Authorization')?.match(/^Bearer (.+)$/)?.[1] ?? null
+}
+
+function stageMessage(progress: number) {
+  if (progress < 15) return 'Uploading views...'
+  if (progress < 60) return 'Generating mesh...'
+  if (progress < 90) return 'Baking textures...'
+  return 'Finalizing model...'
+}
+
+export function createFakeBackend(options: FakeBackendOptions = {}): FakeBackend {
+  const { jobDurationMs = 12_000, latencyMs = 150, failureRate = 0, users = MOCK_USERS, workspaces = MOCK_WORKSPACES } = options
+  // Seeded data from before workspaces lands in the first one.
+  const defaultWorkspaceId = workspaces[0]?.id ?? 0
+  const models = new Map<number, SavedModel>((options.models ?? []).map(model => [
+    model.id,
+    { ...model, workspace_id: model.workspace_id ?? defaultWorkspaceId },
+  ]))
+  const jobs = new Map<string, FakeJob>()
+  const collections = new Map<number, Collection>((options.collections ?? []).map(collection => [collection.id, collection]))
+  const collectionWorkspaces = new Map<number, number>([...collections.keys()].map(id => [id, defaultWorkspaceId]))
+  // Share token to model id; anyone holding a token may read that model.
+  const shares = new Map<string, number>()
+  let nextModelId = Math.max(0, ...models.keys()) + 1
+  let nextCollectionId = Math.max(0, ...collections.keys()) + 1
+  const versions = new Map<number, ModelVersion[]>()
+  let nextJobId = 1
+
+  function history(model: SavedModel) {
+    // Seeded models start with a single version describing their initial state.
+    if (!versions.has(model.id)) versions.set(model.id, [snapshot(model, 'created')])
+    return versions.get(model.id)!
+  }
+
+  function snapshot(model: SavedModel, change: ModelVersionChange): ModelVersion {
+    const { version, name, description, task_id, model_url, thumbnail_url, view_config, source_images } = model
+    return { version, change, name, description, task_id, model_url, thumbnail_url, view_config, source_images, created_at: new Date().toISOString() }
+  }
+
+  function saveVersion(model: SavedModel, change: ModelVersionChange) {
+    const list = history(models.get(model.id) ?? model)
+    const next = { ...model, version: list[list.length - 1].version + 1 }
+    list.push(snapshot(next, change))
+    models.set(next.id, next)
+    return next
+  }
+
+  async function finishJob(job: FakeJob) {
+    if (job.model) return job.model
+    const front = job.images.front
+    const assets = {
+      task_id: job.id,
+      model_url: await placeholderModelUrl(),
+      thumbnail_url: front ? URL.createObjectURL(front) : null,
+      view_config: job.viewConfig,
+      conversion_settings: job.settings,
+      source_images: Object.fromEntries(Object.entries(job.images).map(([view, file]) => [view, URL.createObjectURL(file)])),
+    }
+    const target = job.targetModelId !== null ? models.get(job.targetModelId) : undefined
+    if (target) {
+      // The old turntable shows the previous mesh, so drop it and let the client render a new one.
+      job.model = saveVersion({ ...target, ...assets, turntable: null }, 'converted')
+      return job.model
+    }
+    const model: SavedModel = {
+      id: nextModelId++,
+      name: job.name,
+      description: null,
+      ...assets,
+      turntable: null,
+      scene_settings: null,
+      annotations: [],
+      tags: [],
+      collection_id: null,
+      workspace_id: job.workspaceId,
+      owner: job.owner,
+      version: 1,
+      deleted_at: null,
+      created_at: new Date().toISOString(),
+    }
+    job.model = model
+    models.set(model.id, model)
+    versions.set(model.id, [snapshot(model, 'created')])
+    return model
+  }
+
+  async function jobStatus(job: FakeJob) {
+    const progress = Math.min(100, Math.round(((Date.now() - job.startedAt) / jobDurationMs) * 100))
+    if (job.cancelled) {
+      return { status: 'failed', progress, message: null, error: 'Cancelled', result: null }
+    }
+    if (job.fails && progress >= 50) {
+      return { status: 'failed', progress, message: null, error: 'Mesh generation failed (simulated)', result: null }
+    }
+    if (progress < 100) {
+      return { status: 'processing', progress, message: stageMessage(progress), error: null, result: null }
+    }
+    const model = await finishJob(job)
+    return {
+      status: 'completed',
+      progress: 100,
+      message: 'Done',
+      error: null,
+      result: { model_id: model.id, model_url: model.model_url, thumbnail_url: model.thumbnail_url ?? undefined },
+    }
+  }
+
+  async function handle(method: string, url: URL, body: BodyInit | null | undefined, headers: Headers) {
+    const path = url.pathname
+    if (method === 'POST' && path === '/api/auth/login') {
+      const email = String(JSON.parse(String(body)).email ?? '').trim().toLowerCase()
+      const user = users.find(candidate => candidate.email === email)
+      // As with the mock provider, any password is accepted for a known account.
+      if (!user) return json({ detail: 'Invalid email or password' }, 401)
+      return json({ token: mockToken(user), user })
+    }
+
+    const sharedMatch = path.match(/^\/api\/shared\/([^/]+)$/)
+    if (sharedMatch && method === 'GET') {
+      const model = models.get(shares.get(decodeURIComponent(sharedMatch[1])) ?? -1)
+      return model ? json(model) : notFound('Model not found')
+    }
+
+    const user = mockUserFromToken(bearerToken(headers), users)
+    if (!user) return json({ detail: 'Not signed in' }, 401)
+
+    if (method === 'POST' && path === '/api/auth/logout') return json({ status: 'signed out' })
+    if (method === 'GET' && path === '/api/workspaces') return json({ workspaces: mockWorkspacesFor(user, workspaces) })
+
+    // Jobs are looked up by their unguessable id, so they don't need a workspace.
+    const jobMatch = path.match(/^\/api\/job\/([^/]+)$/)
+    if (jobMatch) {
+      const job = jobs.get(decodeURIComponent(jobMatch[1]))
+      if (!job) return notFound('Job not found')
+      if (method === 'GET') return json(await jobStatus(job))
+      if (method === 'DELETE') {
+        job.cancelled = !job.model
+        return json({ status: job.cancelled ? 'cancelled' : 'completed' })
+      }
+    }
+
+    const workspaceId = Number(headers.get('X-Workspace-Id'))
+    const role = workspaces.find(workspace => workspace.id === workspaceId)?.members[user.id]
+    if (!role) return json({ detail: 'You are not a member of this workspace' }, 403)
+    const permissions = rolePermissions(role, user)
+    const forbidden = () => json({ detail: `A workspace ${role} can't do that` }, 403)
+    // Models in other workspaces are reported missing rather than forbidden, so their ids don't leak.
+    const findModel = (id: number) => {
+      const model = models.get(id)
+      return model?.workspace_id === workspaceId ? model : undefined
+    }
+    const workspaceModels = () => [...models.values()].filter(model => model.workspace_id === workspaceId)
+
+    if (method === 'GET' && path === '/api/models') {
+      const { offset, limit, ...query } = modelQueryFromParams(url.searchParams)
+      const matching = applyModelQuery(workspaceModels().filter(model => !model.deleted_at), query)
+      return json({ models: matching.slice(offset, offset + limit), total: matching.length })
+    }
+
+    const modelMatch = path.match(/^\/api\/models\/(\d+)$/)
+    if (modelMatch) {
+      const model = findModel(Number(modelMatch[1]))
+      if (!model) return notFound('Model not found')
+      if (method === 'GET') return json(model)
+      if (method === 'PUT') {
+        if (!permissions.canEdit) return forbidden()
+        const update = JSON.parse(String(body))
+        const updated = {
+          ...model,
+          name: update.name ?? model.name,
+          description: update.description ?? model.description,
+          tags: update.tags ? normalizeTags(update.tags) : model.tags,
+          collection_id: update.collection_id !== undefined ? update.collection_id : model.collection_id,
+          scene_settings: update.scene_settings !== undefined ? update.scene_settings : model.scene_settings,
+          annotations: update.annotations ?? model.annotations,
+        }
+        // Only changes to what a version snapshots are worth a new version; tags and collection are organisational.
+        if (updated.name !== model.name || updated.description !== model.description) {
+          return json(saveVersion(updated, 'edited'))
+        }
+        models.set(model.id, updated)
+        return json(updated)
+      }
+      if (method === 'DELETE') {
+        const permanent = url.searchParams.get('permanent') === 'true'
+        if (permanent ? !permissions.canAdminister : !permissions.canDelete(model)) return forbidden()
+        if (permanent) {
+          models.delete(model.id)
+          versions.delete(model.id)
+          for (const [token, id] of shares) if (id === model.id) shares.delete(token)
+        } else {
+          models.set(model.id, { ...model, deleted_at: new Date().toISOString() })
+        }
+        return json({ status: 'deleted' })
+      }
+    }
+
+    // Sharing only exposes what members can already see, so every role may do it.
+    const shareMatch = path.match(/^\/api\/models\/(\d+)\/share$/)
+    if (shareMatch && method === 'POST') {
+      const model = findModel(Number(shareMatch[1]))
+      if (!model) return notFound('Model not found')
+      // One stable token per model, so links handed out earlier keep working.
+      let token = [...shares].find(([, id]) => id === model.id)?.[0]
+      if (!token) {
+        token = `share-${Math.random().toString(36).slice(2, 12)}`
+        shares.set(token, model.id)
+      }
+      return json({ share_token: token })
+    }
+
+    const restoreMatch = path.match(/^\/api\/models\/(\d+)\/restore$/)
+    if (restoreMatch && method === 'POST') {
+      const model = findModel(Number(restoreMatch[1]))
+      if (!model) return notFound('Model not found')
+      if (!permissions.canEdit) return forbidden()
+      const restored = { ...model, deleted_at: null }
+      models.set(model.id, restored)
+      return json(restored)
+    }
+
+    const versionsMatch = path.match(/^\/api\/models\/(\d+)\/versions(?:\/(\d+)\/restore)?$/)
+    if (versionsMatch) {
+      const model = findModel(Number(versionsMatch[1]))
+      if (!model) return notFound('Model not found')
+      if (method === 'GET' && !versionsMatch[2]) return json({ versions: [...history(model)].reverse() })
+      if (!permissions.canEdit) return forbidden()
+      if (method === 'POST' && !versionsMatch[2] && body instanceof FormData) {
+        const file = body.get('file')
+        if (!(file instanceof Blob)) return json({ detail: 'file is required' }, 422)
+        // Previews show the old mesh; clearing them lets the client render new ones.
+        const model_url = URL.createObjectURL(file)
+        return json(saveVersion({ ...model, model_url, thumbnail_url: null, turntable: null }, 'processed'))
+      }
+      if (method === 'POST' && versionsMatch[2]) {
+        const version = history(model).find(v => v.version === Number(versionsMatch[2]))
+        if (!version) return notFound('Version not found')
+        const { name, description, task_id, model_url, thumbnail_url, view_config, source_images } = version
+        return json(saveVersion({ ...model, name, description, task_id, model_url, thumbnail_url, view_config, source_images }, 'restored'))
+      }
+    }
+
+    const previewMatch = path.match(/^\/api\/models\/(\d+)\/(thumbnail|turntable)$/)
+    if (previewMatch && method === 'POST' && body instanceof FormData) {
+      const model = findModel(Number(previewMatch[1]))
+      const file = body.get('file')
+      if (!model) return notFound('Model not found')
+      if (!permissions.canEdit) return forbidden()
+      if (!(file instanceof Blob)) return json({ detail: 'file is required' }, 422)
+      const url = URL.createObjectURL(file)
+      const updated = previewMatch[2] === 'thumbnail'
+        ? { ...model, thumbnail_url: url }
+        : { ...model, turntable: { url, format: body.get('format') === 'webm' ? 'webm' as const : 'sprite' as const, frames: Number(body.get('frames')) } }
+      models.set(model.id, updated)
+      return json(updated)
+    }
+
+    const environmentMatch = path.match(/^\/api\/models\/(\d+)\/environment$/)
+    if (environmentMatch && method === 'POST' && body instanceof FormData) {
+      const file = body.get('file')
+      if (!findModel(Number(environmentMatch[1]))) return notFound('Model not found')
+      if (!permissions.canEdit) return forbidden()
+      if (!(file instanceof Blob)) return json({ detail: 'file is required' }, 422)
+      return json({ url: URL.createObjectURL(file) })
+    }
+
+    if (method === 'GET' && path === '/api/trash') {
+      const trashed = workspaceModels().filter(model => model.deleted_at)
+      return json({ models: trashed.sort((a, b) => b.deleted_at!.localeCompare(a.deleted_at!)) })
+    }
+
+    if (method === 'POST' && path === '/api/models/bulk-update') {
+      if (!permissions.canEdit) return forbidden()
+      const { ids, add_tags: add = [], remove_tags: remove = [], collection_id: collectionId } = JSON.parse(String(body))
+      if (collectionId != null && collectionWorkspaces.get(collectionId) !== workspaceId) return notFound('Collection not found')
+      for (const id of ids as number[]) {
+        const model = findModel(id)
+        if (!model) continue
+        models.set(id, {
+          ...model,
+          tags: normalizeTags([...model.tags, ...add]).filter(tag => !remove.includes(tag)),
+          collection_id: collectionId !== undefined ? collectionId : model.collection_id,
+        })
+      }
+      return json({ status: 'updated' })
+    }
+
+    if (method === 'POST' && path === '/api/models/bulk-delete') {
+      const { ids } = JSON.parse(String(body))
+      const targets = (ids as number[]).flatMap(id => findModel(id) ?? [])
+      // All or nothing, so a selection with someone else's model doesn't half succeed.
+      if (!targets.every(permissions.canDelete)) return forbidden()
+      const deletedAt = new Date().toISOString()
+      for (const model of targets) {
+        if (!model.deleted_at) models.set(model.id, { ...model, deleted_at: deletedAt })
+      }
+      return json({ status: 'deleted' })
+    }
+
+    if (path === '/api/collections') {
+      if (method === 'GET') {
+        const listed = [...collections.values()].filter(collection => collectionWorkspaces.get(collection.id) === workspaceId)
+        return json({ collections: listed.sort((a, b) => a.name.localeCompare(b.name)) })
+      }
+      if (method === 'POST') {
+        if (!permissions.canEdit) return forbidden()
+        const name = String(JSON.parse(String(body)).name ?? '').trim()
+        if (!name) return json({ detail: 'Collection name is required' }, 422)
+        const collection = { id: nextCollectionId++, name, created_at: new Date().toISOString() }
+        collections.set(collection.id, collection)
+        collectionWorkspaces.set(collection.id, workspaceId)
+        return json(collection)
+      }
+    }
+
+    const collectionMatch = path.match(/^\/api\/collections\/(\d+)$/)
+    if (collectionMatch && method === 'DELETE') {
+      const id = Number(collectionMatch[1])
+      if (collectionWorkspaces.get(id) !== workspaceId) return notFound('Collection not found')
+      if (!permissions.canAdminister) return forbidden()
+      collections.delete(id)
+      collectionWorkspaces.delete(id)
+      // Models in a deleted collection become unfiled rather than being deleted with it.
+      for (const model of models.values()) {
+        if (model.collection_id === id) models.set(model.id, { ...model, collection_id: null })
+      }
+      return json({ status: 'deleted' })
+    }
+
+    if (method === 'POST' && path === '/api/convert-multiview') {
+      if (!permissions.canEdit) return forbidden()
+      if (!(body instanceof FormData) || !(body.get('front') instanceof File)) {
+        return json({ detail: 'Front view image is required' }, 422)
+      }
+      const images: Record<string, File> = {}
+      for (const [key, value] of body.entries()) {
+        if (value instanceof File) images[key] = value
+      }
+      const id = `fake-job-${nextJobId++}`
+      const name = String(body.get('name') || `Model ${nextModelId}`)
+      const viewConfig = body.has('view_config')
+        ? JSON.parse(String(body.get('view_config')))
+        : Object.fromEntries(Object.entries(images).map(([view, file]) => [view, file.name]))
+      const settings = body.has('conversion_settings') ? JSON.parse(String(body.get('conversion_settings'))) : null
+      const targetModelId = body.has('model_id') ? Number(body.get('model_id')) : null
+      if (targetModelId !== null && !findModel(targetModelId)) return notFound('Model not found')
+      jobs.set(id, {
+        id,
+        name,
+        images,
+        viewConfig,
+        settings,
+        targetModelId,
+        workspaceId,
+        owner: { id: user.id, name: user.name },
+        startedAt: Date.now(),
+        fails: Math.random() < failureRate,
+        cancelled: false,
+        model: null,
+      })
+      return json({ job_id: id, message: 'Job queued' })
+    }
+
+    return notFound()
+  }
+
+  const fakeFetch: typeof fetch = async (input, init) => {
+    const url = requestUrl(input)
+    const method = (init?.method ?? 'GET').toUpperCase()
+    await new Promise(resolve => setTimeout(resolve, latencyMs))
+    if (init?.signal?.aborted) throw new DOMException('Aborted', 'AbortError')
+    return handle(method, url, init?.body, new Headers(init?.headers))
+  }
+
+  return {
+    fetch: fakeFetch,
+    models: () => [...models.values()],
+  }
+}
@@ -0,0 +1,20 @@
+import { createApiClient } from './client'
+import { createFakeBackend } from './fakeBackend'
+import { currentSession, currentWorkspaceId, setSession } from '../auth/session'
+
+export const api = createApiClient({
+  baseUrl: import.meta.env.VITE_API_URL || '',
+  fetch: import.meta.env.VITE_FAKE_API === 'true' ? createFakeBackend().fetch : undefined,
+  getToken: () => currentSession()?.token ?? null,
+  getWorkspaceId: currentWorkspaceId,
+  onUnauthorized: () => setSession(null),
+})
+
+export { createApiClient, sendCredentials } from './client'
+export type { ApiClient, ApiClientOptions, ConvertRequest, RetryPolicy, ViewAngle } from './client'
+export { createFakeBackend } from './fakeBackend'
+export type { FakeBackend, FakeBackendOptions } from './fakeBackend'
+export { parseJobStatus } from './validate'
+export { DEFAULT_MODEL_QUERY, normalizeTags } from './query'
+export * from './errors'
+export type * from './types'
@@ -0,0 +1,70 @@
+import type { ModelQuery, PageRequest, SavedModel } from './types'
+
+export const DEFAULT_MODEL_QUERY: ModelQuery = {
+  search: '',
+  sort: 'created_at',
+  order: 'desc',
+  createdFrom: null,
+  createdTo: null,
+  views: [],
+  tags: [],
+  collectionId: null,
+}
+
+export function modelQueryParams(query: ModelQuery, page: PageRequest) {
+  const params = new URLSearchParams()
+  if (query.search.trim()) params.set('search', query.search.trim())
+  params.set('sort', query.sort)
+  params.set('order', query.order)
+  if (query.createdFrom) params.set('created_from', query.createdFrom)
+  if (query.createdTo) params.set('created_to', query.createdTo)
+  if (query.views.length > 0) params.set('views', query.views.join(','))
+  if (query.tags.length > 0) params.set('tags', query.tags.join(','))
+  if (query.collectionId !== null) params.set('collection_id', String(query.collectionId))
+  params.set('offset', String(page.offset))
+  params.set('limit', String(page.limit))
+  return params
+}
+
+export function modelQueryFromParams(params: URLSearchParams): ModelQuery & PageRequest {
+  const sort = params.get('sort')
+  const order = params.get('order')
+  return {
+    search: params.get('search') ?? '',
+    sort: sort === 'name' ? 'name' : 'created_at',
+    order: order === 'asc' ? 'asc' : 'desc',
+    createdFrom: params.get('created_from'),
+    createdTo: params.get('created_to'),
+    views: params.get('views')?.split(',').filter(Boolean) ?? [],
+    tags: params.get('tags')?.split(',').filter(Boolean) ?? [],
+    collectionId: params.has('collection_id') ? Number(params.get('collection_id')) : null,
+    offset: Number(params.get('offset')) || 0,
+    limit: Number(params.get('limit')) || Number.MAX_SAFE_INTEGER,
+  }
+}
+
+function matchesQuery(model: SavedModel, query: ModelQuery) {
+  const search = query.search.trim().toLowerCase()
+  if (search && !`${model.name}\n${model.description ?? ''}`.toLowerCase().includes(search)) return false
+  const day = model.created_at.slice(0, 10)
+  if (query.createdFrom && day < query.createdFrom) return false
+  if (query.createdTo && day > query.createdTo) return false
+  if (query.collectionId !== null && model.collection_id !== query.collectionId) return false
+  if (!query.tags.every(tag => model.tags.includes(tag))) return false
+  return query.views.every(view => Boolean(model.view_config?.[view]))
+}
+
+// Tags are compared case-sensitively by the backend, so only whitespace is normalized.
+export function normalizeTags(tags: string[]) {
+  return [...new Set(tags.map(tag => tag.trim()).filter(Boolean))]
+}
+
+// Filtering and sorting as the backend does it; used by the fake backend and for servers that ignore the query.
+export function applyModelQuery(models: SavedModel[], query: ModelQuery) {
+  const direction = query.order === 'asc' ? 1 : -1
+  return models
+    .filter(model => matchesQuery(model, query))
+    .sort((a, b) => direction * (query.sort === 'name'
+      ? a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }) || a.id - b.id
+      : a.created_at.localeCompare(b.created_at) || a.id - b.id))
+}
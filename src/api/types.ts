@@ -0,0 +1,181 @@
+export interface SavedModel {
+  id: number
+  task_id: string
+  name: string
+  description: string | null
+  model_url: string
+  thumbnail_url: string | null
+  turntable: ModelTurntable | null
+  view_config: Record<string, string> | null
+  source_images: Record<string, string> | null
+  // Viewer lighting, tone mapping and material edits. Opaque to the backend; the viewer owns the shape.
+  scene_settings: Record<string, unknown> | null
+  // What the model was converted with; null for models converted before settings existed.
+  conversion_settings: ConversionSettings | null
+  annotations: ModelAnnotation[]
+  tags: string[]
+  collection_id: number | null
+  // Null for models created before accounts and workspaces existed.
+  workspace_id: number | null
+  owner: ModelOwner | null
+  // The version currently shown; earlier ones are listed by the versions endpoint.
+  version: number
+  // Set while the model sits in the trash.
+  deleted_at: string | null
+  created_at: string
+}
+
+export interface ModelOwner {
+  id: number
+  name: string
+}
+
+// A short rotating preview: either a horizontal sprite sheet of `frames` square frames, or a looping WebM.
+export interface ModelTurntable {
+  url: string
+  format: 'sprite' | 'webm'
+  frames: number
+}
+
+export type Vec3 = [number, number, number]
+
+// A note pinned to the mesh surface. Points are in the model's own coordinates, so pins stay put
+// whatever scale or centring the viewer applies.
+export interface ModelAnnotation {
+  id: string
+  text: string
+  position: Vec3
+  // Where the camera was when the note was pinned; selecting it flies back there.
+  camera: { position: Vec3, target: Vec3 }
+  created_at: string
+}
+
+export type ModelVersionChange = 'created' | 'converted' | 'processed' | 'edited' | 'restored'
+
+// A snapshot of a model as it was after one change.
+export interface ModelVersion {
+  version: number
+  change: ModelVersionChange
+  name: string
+  description: string | null
+  task_id: string
+  model_url: string
+  thumbnail_url: string | null
+  view_config: Record<string, string> | null
+  source_images: Record<string, string> | null
+  created_at: string
+}
+
+export type OutputFormat = 'glb' | 'obj' | 'stl' | 'usdz'
+
+// Which mirror plane the mesh generator may assume; 'auto' lets it decide from the views.
+export type SymmetryHint = 'auto' | 'none' | 'left-right' | 'front-back'
+
+// Sent with a conversion and stored on the resulting model. The viewer always gets a GLB;
+// `output_format` is the file the server produces alongside it for download.
+export interface ConversionSettings {
+  target_polygons: number
+  texture_resolution: number
+  remesh: boolean
+  output_format: OutputFormat
+  symmetry: SymmetryHint
+}
+
+export interface User {
+  id: number
+  name: string
+  email: string
+}
+
+export interface AuthSession {
+  token: string
+  user: User
+}
+
+// Viewers can only look; editors convert and edit, and delete what they created; admins can do anything.
+export type WorkspaceRole = 'viewer' | 'editor' | 'admin'
+
+// A workspace as the signed-in user sees it, with their role in it.
+export interface Workspace {
+  id: number
+  name: string
+  role: WorkspaceRole
+}
+
+export interface Collection {
+  id: number
+  name: string
+  created_at: string
+}
+
+export interface ConversionResult {
+  status: string
+  task_id: string
+  model_id?: number
+  model_url: string
+  thumbnail_url?: string
+}
+
+export type JobState = 'pending' | 'processing' | 'completed' | 'failed'
+
+export interface JobResult {
+  model_id?: number
+  model_url: string
+  thumbnail_url?: string
+}
+
+export interface JobStatus {
+  status: JobState
+  progress: number
+  message: string | null
+  error: string | null
+  result: JobResult | null
+}
+
+export interface ConvertJob {
+  job_id: string
+  message: string | null
+}
+
+export interface ModelUpdate {
+  name?: string
+  description?: string
+  tags?: string[]
+  collection_id?: number | null
+  scene_settings?: Record<string, unknown> | null
+  annotations?: ModelAnnotation[]
+}
+
+// Applied to every listed model in one request; tag edits merge with each model's existing tags.
+export interface BulkModelUpdate {
+  add_tags?: string[]
+  remove_tags?: string[]
+  collection_id?: number | null
+}
+
+export type ModelSortField = 'created_at' | 'name'
+export type SortOrder = 'asc' | 'desc'
+
+export interface ModelQuery {
+  search: string
+  sort: ModelSortField
+  order: SortOrder
+  // Inclusive calendar dates (YYYY-MM-DD).
+  createdFrom: string | null
+  createdTo: string | null
+  // Only models whose view_config includes every one of these views.
+  views: string[]
+  // Only models carrying every one of these tags.
+  tags: string[]
+  collectionId: number | null
+}
+
+export interface PageRequest {
+  offset: number
+  limit: number
+}
+
+export interface ModelPage {
+  models: SavedModel[]
+  total: number
+}
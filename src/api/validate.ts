@@ -0,0 +1,289 @@
+import { ValidationError } from './errors'
+import type {
+  AuthSession,
+  Collection,
+  ConversionSettings,
+  ConvertJob,
+  JobResult,
+  JobState,
+  JobStatus,
+  ModelAnnotation,
+  ModelOwner,
+  ModelTurntable,
+  ModelVersion,
+  ModelVersionChange,
+  OutputFormat,
+  SavedModel,
+  SymmetryHint,
+  User,
+  Vec3,
+  Workspace,
+  WorkspaceRole,
+} from './types'
+
+type Parser<T> = (value: unknown, path: string) => T
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function object(value: unknown, path: string): Record<string, unknown> {
+  if (!isRecord(value)) throw new ValidationError(path, 'an object')
+  return value
+}
+
+export function string(value: unknown, path: string): string {
+  if (typeof value !== 'string') throw new ValidationError(path, 'a string')
+  return value
+}
+
+export function number(value: unknown, path: string): number {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new ValidationError(path, 'a number')
+  return value
+}
+
+export function nullable<T>(parse: Parser<T>): Parser<T | null> {
+  return (value, path) => (value === null || value === undefined ? null : parse(value, path))
+}
+
+export function optional<T>(parse: Parser<T>): Parser<T | undefined> {
+  return (value, path) => (value === null || value === undefined ? undefined : parse(value, path))
+}
+
+export function array<T>(parse: Parser<T>): Parser<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new ValidationError(path, 'an array')
+    return value.map((item, index) => parse(item, `${path}[${index}]`))
+  }
+}
+
+export function stringRecord(value: unknown, path: string): Record<string, string> {
+  const record = object(value, path)
+  for (const [key, entry] of Object.entries(record)) string(entry, `${path}.${key}`)
+  return record as Record<string, string>
+}
+
+function jobState(value: unknown, path: string): JobState {
+  const state = string(value, path)
+  // The contract names 'pending' (queued, not started) and the terminal states; any other value the
+  // server reports means the job is still running.
+  if (state === 'completed' || state === 'failed' || state === 'pending') return state
+  return 'processing'
+}
+
+function turntable(value: unknown, path: string): ModelTurntable {
+  const raw = object(value, path)
+  const format = string(raw.format, `${path}.format`)
+  if (format !== 'sprite' && format !== 'webm') throw new ValidationError(`${path}.format`, '"sprite" or "webm"')
+  return {
+    url: string(raw.url, `${path}.url`),
+    format,
+    frames: number(raw.frames, `${path}.frames`),
+  }
+}
+
+const OUTPUT_FORMATS: OutputFormat[] = ['glb', 'obj', 'stl', 'usdz']
+const SYMMETRY_HINTS: SymmetryHint[] = ['auto', 'none', 'left-right', 'front-back']
+
+function conversionSettings(value: unknown, path: string): ConversionSettings {
+  const raw = object(value, path)
+  const format = optional(string)(raw.output_format, `${path}.output_format`)
+  const symmetry = optional(string)(raw.symmetry, `${path}.symmetry`)
+  return {
+    target_polygons: number(raw.target_polygons, `${path}.target_polygons`),
+    texture_resolution: number(raw.texture_resolution, `${path}.texture_resolution`),
+    remesh: raw.remesh === true,
+    // Settings are informational once a model exists, so a format added on the server later must not
+    // make the model unreadable; every conversion produces a GLB.
+    output_format: OUTPUT_FORMATS.includes(format as OutputFormat) ? format as OutputFormat : 'glb',
+    // A hint only, so one this client doesn't know is treated as no preference.
+    symmetry: SYMMETRY_HINTS.includes(symmetry as SymmetryHint) ? symmetry as SymmetryHint : 'auto',
+  }
+}
+
+function vec3(value: unknown, path: string): Vec3 {
+  const [x, y, z] = array(number)(value, path)
+  if (z === undefined) throw new ValidationError(path, 'three numbers')
+  return [x, y, z]
+}
+
+function annotation(value: unknown, path: string): ModelAnnotation {
+  const raw = object(value, path)
+  const camera = object(raw.camera, `${path}.camera`)
+  return {
+    id: string(raw.id, `${path}.id`),
+    text: string(raw.text, `${path}.text`),
+    position: vec3(raw.position, `${path}.position`),
+    camera: {
+      position: vec3(camera.position, `${path}.camera.position`),
+      target: vec3(camera.target, `${path}.camera.target`),
+    },
+    created_at: string(raw.created_at, `${path}.created_at`),
+  }
+}
+
+function modelOwner(value: unknown, path: string): ModelOwner {
+  const raw = object(value, path)
+  return {
+    id: number(raw.id, `${path}.id`),
+    name: string(raw.name, `${path}.name`),
+  }
+}
+
+export function parseSavedModel(value: unknown, path = 'model'): SavedModel {
+  const raw = object(value, path)
+  return {
+    id: number(raw.id, `${path}.id`),
+    task_id: string(raw.task_id, `${path}.task_id`),
+    name: string(raw.name, `${path}.name`),
+    description: nullable(string)(raw.description, `${path}.description`),
+    model_url: string(raw.model_url, `${path}.model_url`),
+    thumbnail_url: nullable(string)(raw.thumbnail_url, `${path}.thumbnail_url`),
+    turntable: nullable(turntable)(raw.turntable, `${path}.turntable`),
+    view_config: nullable(stringRecord)(raw.view_config, `${path}.view_config`),
+    source_images: nullable(stringRecord)(raw.source_images, `${path}.source_images`),
+    scene_settings: nullable(object)(raw.scene_settings, `${path}.scene_settings`),
+    conversion_settings: nullable(conversionSettings)(raw.conversion_settings, `${path}.conversion_settings`),
+    annotations: optional(array(annotation))(raw.annotations, `${path}.annotations`) ?? [],
+    tags: optional(array(string))(raw.tags, `${path}.tags`) ?? [],
+    collection_id: nullable(number)(raw.collection_id, `${path}.collection_id`),
+    workspace_id: nullable(number)(raw.workspace_id, `${path}.workspace_id`),
+    owner: nullable(modelOwner)(raw.owner, `${path}.owner`),
+    version: optional(number)(raw.version, `${path}.version`) ?? 1,
+    deleted_at: nullable(string)(raw.deleted_at, `${path}.deleted_at`),
+    created_at: string(raw.created_at, `${path}.created_at`),
+  }
+}
+
+function versionChange(value: unknown, path: string): ModelVersionChange {
+  const change = string(value, path)
+  return change === 'created' || change === 'converted' || change === 'processed' || change === 'restored' ? change : 'edited'
+}
+
+export function parseModelVersion(value: unknown, path = 'version'): ModelVersion {
+  const raw = object(value, path)
+  return {
+    version: number(raw.version, `${path}.version`),
+    change: versionChange(raw.change, `${path}.change`),
+    name: string(raw.name, `${path}.name`),
+    description: nullable(string)(raw.description, `${path}.description`),
+    task_id: string(raw.task_id, `${path}.task_id`),
+    model_url: string(raw.model_url, `${path}.model_url`),
+    thumbnail_url: nullable(string)(raw.thumbnail_url, `${path}.thumbnail_url`),
+    view_config: nullable(stringRecord)(raw.view_config, `${path}.view_config`),
+    source_images: nullable(stringRecord)(raw.source_images, `${path}.source_images`),
+    created_at: string(raw.created_at, `${path}.created_at`),
+  }
+}
+
+export function parseVersionList(value: unknown): ModelVersion[] {
+  const raw = object(value, 'response')
+  return array(parseModelVersion)(raw.versions ?? [], 'response.versions')
+}
+
+export function parseShareToken(value: unknown): string {
+  const raw = object(value, 'response')
+  return string(raw.share_token, 'response.share_token')
+}
+
+export function parseUploadedUrl(value: unknown): string {
+  const raw = object(value, 'response')
+  return string(raw.url, 'response.url')
+}
+
+export function parseCollection(value: unknown, path = 'collection'): Collection {
+  const raw = object(value, path)
+  return {
+    id: number(raw.id, `${path}.id`),
+    name: string(raw.name, `${path}.name`),
+    created_at: string(raw.created_at, `${path}.created_at`),
+  }
+}
+
+export function parseCollectionList(value: unknown): Collection[] {
+  const raw = object(value, 'response')
+  return array(parseCollection)(raw.collections ?? [], 'response.collections')
+}
+
+export function parseModelList(value: unknown): SavedModel[] {
+  const raw = object(value, 'response')
+  return array(parseSavedModel)(raw.models ?? [], 'response.models')
+}
+
+// `total` is null when the server predates paging and returned its whole list.
+export function parseModelPage(value: unknown): { models: SavedModel[], total: number | null } {
+  const raw = object(value, 'response')
+  return {
+    models: parseModelList(raw),
+    total: nullable(number)(raw.total, 'response.total'),
+  }
+}
+
+function user(value: unknown, path: string): User {
+  const raw = object(value, path)
+  return {
+    id: number(raw.id, `${path}.id`),
+    name: string(raw.name, `${path}.name`),
+    email: string(raw.email, `${path}.email`),
+  }
+}
+
+export function parseAuthSession(value: unknown): AuthSession {
+  const raw = object(value, 'response')
+  return {
+    token: string(raw.token, 'response.token'),
+    user: user(raw.user, 'response.user'),
+  }
+}
+
+function workspaceRole(value: unknown, path: string): WorkspaceRole {
+  const role = string(value, path)
+  // A role this client doesn't know grants nothing it can rely on, so treat it as the least privileged.
+  return role === 'admin' || role === 'editor' ? role : 'viewer'
+}
+
+function workspace(value: unknown, path: string): Workspace {
+  const raw = object(value, path)
+  return {
+    id: number(raw.id, `${path}.id`),
+    name: string(raw.name, `${path}.name`),
+    role: workspaceRole(raw.role, `${path}.role`),
+  }
+}
+
+export function parseWorkspaceList(value: unknown): Workspace[] {
+  const raw = object(value, 'response')
+  return array(workspace)(raw.workspaces ?? [], 'response.workspaces')
+}
+
+export function parseJobResult(value: unknown, path = 'result'): JobResult {
+  const raw = object(value, path)
+  return {
+    model_id: optional(number)(raw.model_id, `${path}.model_id`),
+    model_url: string(raw.model_url, `${path}.model_url`),
+    thumbnail_url: optional(string)(raw.thumbnail_url, `${path}.thumbnail_url`),
+  }
+}
+
+export function parseJobStatus(value: unknown): JobStatus {
+  const raw = object(value, 'job')
+  const status = jobState(raw.status, 'job.status')
+  return {
+    status,
+    progress: optional(number)(raw.progress, 'job.progress') ?? 0,
+    message: nullable(string)(raw.message, 'job.message'),
+    error: nullable(string)(raw.error, 'job.error'),
+    // A completed job without a result is useless to the UI, so insist on one.
+    result: status === 'completed'
+      ? parseJobResult(raw.result, 'job.result')
+      : nullable(parseJobResult)(raw.result, 'job.result'),
+  }
+}
+
+export function parseConvertJob(value: unknown): ConvertJob {
+  const raw = object(value, 'response')
+  return {
+    job_id: string(raw.job_id, 'response.job_id'),
+    message: nullable(string)(raw.message, 'response.message'),
+  }
+}
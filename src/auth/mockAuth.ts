@@ -0,0 +1,55 @@
+import type { AuthSession, User, Workspace, WorkspaceRole } from '../api'
+import type { AuthProvider } from './providers'
+import { currentSession } from './session'
+
+export interface MockWorkspace {
+  id: number
+  name: string
+  members: Record<number, WorkspaceRole>
+}
+
+// One account per role, so every permission path can be tried without a real identity provider.
+export const MOCK_USERS: User[] = [
+  { id: 1, name: 'Dev Admin', email: 'admin@dev.local' },
+  { id: 2, name: 'Dev Editor', email: 'editor@dev.local' },
+  { id: 3, name: 'Dev Viewer', email: 'viewer@dev.local' },
+]
+
+export const MOCK_WORKSPACES: MockWorkspace[] = [
+  { id: 1, name: 'Studio', members: { 1: 'admin', 2: 'editor', 3: 'viewer' } },
+  { id: 2, name: 'Sandbox', members: { 1: 'admin', 2: 'admin', 3: 'editor' } },
+]
+
+const TOKEN_PREFIX = 'mock-token-'
+
+export function mockToken(user: User) {
+  return `${TOKEN_PREFIX}${user.id}`
+}
+
+export function mockUserFromToken(token: string | null, users = MOCK_USERS) {
+  if (!token?.startsWith(TOKEN_PREFIX)) return null
+  return users.find(user => String(user.id) === token.slice(TOKEN_PREFIX.length)) ?? null
+}
+
+export function mockWorkspacesFor(user: User, workspaces = MOCK_WORKSPACES): Workspace[] {
+  return workspaces.flatMap(({ id, name, members }) => (members[user.id] ? [{ id, name, role: members[user.id] }] : []))
+}
+
+// Signs in locally against MOCK_USERS with any password. The fake backend accepts the tokens it issues,
+// and a real backend without accounts ignores them.
+export const mockAuthProvider: AuthProvider = {
+  devAccounts: MOCK_USERS,
+
+  async signIn(email): Promise<AuthSession> {
+    const user = MOCK_USERS.find(candidate => candidate.email === email.trim().toLowerCase())
+    if (!user) throw new Error(`No development account uses ${email}`)
+    return { token: mockToken(user), user }
+  },
+
+  async signOut() {},
+
+  async listWorkspaces() {
+    const user = mockUserFromToken(currentSession()?.token ?? null)
+    return user ? mockWorkspacesFor(user) : []
+  },
+}
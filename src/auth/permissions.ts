@@ -0,0 +1,27 @@
+import type { SavedModel, User, WorkspaceRole } from '../api'
+
+export interface Permissions {
+  // Convert, edit, tag, annotate and restore models, and create collections.
+  canEdit: boolean
+  // Delete permanently and remove collections.
+  canAdminister: boolean
+  // Move a model to the trash: admins may remove anything, editors only what they created.
+  canDelete: (model: SavedModel) => boolean
+}
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  admin: 'Admin',
+}
+
+// Mirrors the server's rules so the UI only offers what will succeed; the server still enforces them.
+export function rolePermissions(role: WorkspaceRole, user: User): Permissions {
+  const canEdit = role === 'editor' || role === 'admin'
+  const canAdminister = role === 'admin'
+  return {
+    canEdit,
+    canAdminister,
+    canDelete: model => canAdminister || (canEdit && model.owner?.id === user.id),
+  }
+}
@@ -0,0 +1,34 @@
+import { api } from '../api'
+import type { AuthSession, User, Workspace } from '../api'
+import { mockAuthProvider } from './mockAuth'
+import { setSession } from './session'
+
+// Where sign-in and the workspace list come from. The session it returns is stored by the caller.
+export interface AuthProvider {
+  signIn(email: string, password: string): Promise<AuthSession>
+  signOut(): Promise<void>
+  listWorkspaces(signal?: AbortSignal): Promise<Workspace[]>
+  // Offered as one-click sign-ins; only local providers have them.
+  devAccounts?: User[]
+}
+
+export const apiAuthProvider: AuthProvider = {
+  signIn: (email, password) => api.signIn(email, password),
+  signOut: () => api.signOut(),
+  listWorkspaces: signal => api.listWorkspaces(signal),
+}
+
+export const defaultAuthProvider: AuthProvider = import.meta.env.VITE_FAKE_AUTH === 'true'
+  ? mockAuthProvider
+  : apiAuthProvider
+
+// The server call is best effort: the token may already be expired, and the local session goes either way.
+// Dropping the session clears the user's cached and queued data; see setSession.
+export async function signOut(provider: AuthProvider = defaultAuthProvider) {
+  try {
+    await provider.signOut()
+  } catch (err) {
+    console.warn('Sign-out request failed:', err)
+  }
+  setSession(null)
+}
@@ -0,0 +1,97 @@
+import { useSyncExternalStore } from 'react'
+import type { AuthSession } from '../api'
+
+const SESSION_KEY = 'three-dee:session'
+const WORKSPACE_KEY = 'three-dee:workspace'
+
+function loadSession(): AuthSession | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null') as AuthSession | null
+    return stored && typeof stored.token === 'string' && stored.user ? stored : null
+  } catch {
+    return null
+  }
+}
+
+function loadWorkspaceId() {
+  return Number(localStorage.getItem(WORKSPACE_KEY)) || null
+}
+
+// Kept in memory as well so the API client can read them on every request without parsing storage.
+let session = loadSession()
+let workspaceId = loadWorkspaceId()
+const listeners = new Set<() => void>()
+const endListeners = new Set<() => void>()
+
+function notify() {
+  listeners.forEach(listener => listener())
+}
+
+// Whatever ended it (signing out, a rejected token, another tab), nothing the user fetched or queued may
+// outlive the session, or the next person on the device would see it.
+function endSessionIfChanged(previous: AuthSession | null, next: AuthSession | null) {
+  if (!previous || next?.user.id === previous.user.id) return
+  navigator.serviceWorker?.controller?.postMessage({ type: 'sign-out' })
+  endListeners.forEach(listener => listener())
+}
+
+// Signing in or out in another tab applies here too.
+function handleStorage(event: StorageEvent) {
+  if (event.key !== SESSION_KEY && event.key !== WORKSPACE_KEY) return
+  const previous = session
+  session = loadSession()
+  workspaceId = loadWorkspaceId()
+  endSessionIfChanged(previous, session)
+  notify()
+}
+
+function subscribe(listener: () => void) {
+  if (listeners.size === 0) window.addEventListener('storage', handleStorage)
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0) window.removeEventListener('storage', handleStorage)
+  }
+}
+
+export function currentSession() {
+  return session
+}
+
+export function currentWorkspaceId() {
+  return workspaceId
+}
+
+export function setSession(next: AuthSession | null) {
+  if (next === session) return
+  const previous = session
+  session = next
+  if (next) localStorage.setItem(SESSION_KEY, JSON.stringify(next))
+  else localStorage.removeItem(SESSION_KEY)
+  endSessionIfChanged(previous, next)
+  notify()
+}
+
+// For modules that keep per-user data outside the session, so they can drop it when the session ends.
+export function onSessionEnd(listener: () => void) {
+  endListeners.add(listener)
+  return () => {
+    endListeners.delete(listener)
+  }
+}
+
+export function setWorkspaceId(next: number | null) {
+  if (next === workspaceId) return
+  workspaceId = next
+  if (next !== null) localStorage.setItem(WORKSPACE_KEY, String(next))
+  else localStorage.removeItem(WORKSPACE_KEY)
+  notify()
+}
+
+export function useSession() {
+  return useSyncExternalStore(subscribe, currentSession)
+}
+
+export function useWorkspaceId() {
+  return useSyncExternalStore(subscribe, currentWorkspaceId)
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react'
+import { errorMessage } from '../api'
+import type { AuthSession, Workspace } from '../api'
+import type { AuthProvider } from './providers'
+import { currentWorkspaceId, setWorkspaceId } from './session'
+
+export function useWorkspaces(session: AuthSession | null, provider: AuthProvider) {
+  const [workspaces, setWorkspaces] = useState<Workspace[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [attempt, setAttempt] = useState(0)
+
+  useEffect(() => {
+    setWorkspaces(null)
+    setError(null)
+    if (!session) return
+    const controller = new AbortController()
+    provider.listWorkspaces(controller.signal)
+      .then(list => {
+        // Settle the active workspace before anything renders, so the first requests already carry it.
+        if (!list.some(workspace => workspace.id === currentWorkspaceId())) setWorkspaceId(list[0]?.id ?? null)
+        setWorkspaces(list)
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return
+        console.error('Failed to load workspaces:', err)
+        setError(`Failed to load workspaces: ${errorMessage(err)}`)
+      })
+    return () => controller.abort()
+  }, [session, provider, attempt])
+
+  const retry = useCallback(() => setAttempt(n => n + 1), [])
+
+  return { workspaces, error, retry }
+}
@@ -0,0 +1,90 @@
+import type { ViewType } from '../views'
+
+export interface AssignmentRule {
+  view: ViewType
+  aliases: string[]
+}
+
+export interface ObjectSet {
+  id: string
+  name: string
+  images: Record<ViewType, File>
+}
+
+export interface AssignmentResult {
+  sets: ObjectSet[]
+  unassigned: File[]
+}
+
+export const DEFAULT_ASSIGNMENT_RULES: AssignmentRule[] = [
+  { view: 'front', aliases: ['front', 'frt', 'f'] },
+  { view: 'back', aliases: ['back', 'rear', 'bk', 'b'] },
+  { view: 'left', aliases: ['left', 'lft', 'l'] },
+  { view: 'right', aliases: ['right', 'rgt', 'r'] },
+  { view: 'top', aliases: ['top', 'above', 't'] },
+  { view: 'bottom', aliases: ['bottom', 'under', 'btm'] },
+  { view: 'front-left', aliases: ['front-left', 'fl'] },
+  { view: 'front-right', aliases: ['front-right', 'fr'] },
+  { view: 'back-left', aliases: ['back-left', 'bl'] },
+  { view: 'back-right', aliases: ['back-right', 'br'] },
+]
+
+const STORAGE_KEY = 'three-dee:assignment-rules'
+
+export function loadAssignmentRules(): AssignmentRule[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : DEFAULT_ASSIGNMENT_RULES
+  } catch {
+    return DEFAULT_ASSIGNMENT_RULES
+  }
+}
+
+export function saveAssignmentRules(rules: AssignmentRule[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules))
+}
+
+// "Shoe_Front Left.JPG" and "shoe-front-left.jpg" should both read as "shoe-front-left".
+function normalize(name: string) {
+  return name.toLowerCase().replace(/\.[^.]+$/, '').replace(/[\s_.]+/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '')
+}
+
+export function matchFilename(filename: string, rules: AssignmentRule[]) {
+  const name = normalize(filename)
+  const candidates = rules
+    .flatMap(rule => rule.aliases.map(alias => ({ view: rule.view, alias: normalize(alias) })))
+    .filter(candidate => candidate.alias)
+    // Longest alias first, so "front-left" wins over "left".
+    .sort((a, b) => b.alias.length - a.alias.length)
+
+  for (const { view, alias } of candidates) {
+    if (name === alias) return { view, prefix: '' }
+    if (name.endsWith(`-${alias}`)) return { view, prefix: name.slice(0, -(alias.length + 1)) }
+  }
+  return null
+}
+
+export function assignFiles(files: File[], rules: AssignmentRule[]): AssignmentResult {
+  const sets = new Map<string, ObjectSet>()
+  const unassigned: File[] = []
+
+  for (const file of [...files].sort((a, b) => a.name.localeCompare(b.name))) {
+    const match = matchFilename(file.name, rules)
+    if (!match) {
+      unassigned.push(file)
+      continue
+    }
+    let set = sets.get(match.prefix)
+    if (!set) {
+      set = { id: match.prefix || '(unnamed)', name: match.prefix, images: {} }
+      sets.set(match.prefix, set)
+    }
+    if (set.images[match.view]) {
+      unassigned.push(file)
+    } else {
+      set.images[match.view] = file
+    }
+  }
+
+  return { sets: [...sets.values()], unassigned }
+}
@@ -0,0 +1,38 @@
+import { loadImage } from '../editor/adjustment'
+import { backgroundMask, estimateBackground } from '../preprocess/pipeline'
+
+const SILHOUETTE_SIZE = 320
+const BACKGROUND_TOLERANCE = 40
+
+// The subject of an earlier shot as a tinted shape with an outline, meant to be drawn over the live
+// camera so the next view is shot from the same distance and height.
+export async function renderSilhouette(file: Blob): Promise<HTMLCanvasElement> {
+  const image = await loadImage(file)
+  const scale = Math.min(1, SILHOUETTE_SIZE / Math.max(image.naturalWidth, image.naturalHeight))
+  const width = Math.max(1, Math.round(image.naturalWidth * scale))
+  const height = Math.max(1, Math.round(image.naturalHeight * scale))
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) throw new Error('Canvas 2D is not supported in this browser')
+  ctx.drawImage(image, 0, 0, width, height)
+
+  const pixels = ctx.getImageData(0, 0, width, height)
+  const data = pixels.data
+  const mask = backgroundMask(data, width, height, estimateBackground(data, width, height), BACKGROUND_TOLERANCE)
+  const isSubject = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && !mask[y * width + x]
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      if (!isSubject(x, y)) {
+        data[i + 3] = 0
+        continue
+      }
+      const edge = !isSubject(x - 1, y) || !isSubject(x + 1, y) || !isSubject(x, y - 1) || !isSubject(x, y + 1)
+      data.set(edge ? [244, 114, 182, 230] : [168, 85, 247, 70], i)
+    }
+  }
+  ctx.putImageData(pixels, 0, 0)
+  return canvas
+}
@@ -0,0 +1,62 @@
+// Where capture mode gets its video. Anything returning a MediaStream works, which is how tests and
+// machines without a camera run the capture flow.
+export type StreamProvider = () => Promise<MediaStream>
+
+export const cameraStream: StreamProvider = async () => {
+  if (!navigator.mediaDevices?.getUserMedia) throw new Error('This browser cannot access a camera')
+  return navigator.mediaDevices.getUserMedia({
+    audio: false,
+    // Prefer the rear camera on phones; desktops ignore the hint.
+    video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1440 } },
+  })
+}
+
+export interface FakeStreamOptions {
+  width: number
+  height: number
+  fps: number
+}
+
+// A slowly turning box on a plain backdrop, drawn onto a canvas and streamed from it.
+export function fakeCameraStream({ width = 960, height = 720, fps = 30 }: Partial<FakeStreamOptions> = {}): StreamProvider {
+  return async () => {
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Canvas 2D is not supported in this browser')
+    const stream = canvas.captureStream(fps)
+    const [track] = stream.getVideoTracks()
+    const started = performance.now()
+
+    const draw = () => {
+      // Stopping a track doesn't fire 'ended', so the loop checks for itself.
+      if (track.readyState === 'ended') {
+        clearInterval(timer)
+        return
+      }
+      const angle = ((performance.now() - started) / 1000) * 0.6
+      ctx.fillStyle = '#f3f4f6'
+      ctx.fillRect(0, 0, width, height)
+      const size = height * 0.5
+      const front = Math.abs(Math.cos(angle)) * size
+      const side = Math.abs(Math.sin(angle)) * size * 0.6
+      const left = width / 2 - (front + side) / 2
+      const top = height * 0.3
+      ctx.fillStyle = '#7c3aed'
+      ctx.fillRect(left, top, front, size)
+      ctx.fillStyle = '#4c1d95'
+      ctx.fillRect(left + front, top, side, size)
+      ctx.fillStyle = '#6b7280'
+      ctx.font = `${Math.round(height / 30)}px sans-serif`
+      ctx.fillText('Test camera', 16, height - 16)
+    }
+    draw()
+    const timer = setInterval(draw, 1000 / fps)
+    return stream
+  }
+}
+
+export const defaultStreamProvider: StreamProvider = import.meta.env.VITE_FAKE_CAMERA === 'true'
+  ? fakeCameraStream()
+  : cameraStream
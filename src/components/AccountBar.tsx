@@ -0,0 +1,43 @@
+import { LogOut, CircleUser } from 'lucide-react'
+import type { User, Workspace } from '../api'
+import { ROLE_LABELS } from '../auth/permissions'
+
+export function AccountBar({
+  user,
+  workspace,
+  workspaces,
+  onWorkspaceChange,
+  onSignOut,
+}: {
+  user: User
+  workspace: Workspace
+  workspaces: Workspace[]
+  onWorkspaceChange: (workspaceId: number) => void
+  onSignOut: () => void
+}) {
+  return (
+    <div className="flex items-center justify-end gap-3 mb-4 text-sm">
+      {workspaces.length > 1 ? (
+        <select
+          value={workspace.id}
+          onChange={(e) => onWorkspaceChange(Number(e.target.value))}
+          className="px-2 py-1 bg-black/30 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-purple-500"
+          title="Workspace"
+        >
+          {workspaces.map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+      ) : (
+        <span className="text-gray-300">{workspace.name}</span>
+      )}
+      <span className="px-2 py-0.5 bg-purple-500/20 text-purple-300 rounded text-xs">{ROLE_LABELS[workspace.role]}</span>
+      <span className="text-gray-400 flex items-center gap-1" title={user.email}>
+        <CircleUser className="w-4 h-4" /> {user.name}
+      </span>
+      <button onClick={onSignOut} className="text-gray-400 hover:text-white flex items-center gap-1">
+        <LogOut className="w-4 h-4" /> Sign out
+      </button>
+    </div>
+  )
+}
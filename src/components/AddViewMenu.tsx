@@ -0,0 +1,66 @@
+import { useState } from 'react'
+import { Plus } from 'lucide-react'
+import { VIEW_SCHEMA, customView } from '../views'
+import type { ViewDefinition } from '../views'
+
+export function AddViewMenu({
+  activeViews,
+  onAdd,
+}: {
+  activeViews: ViewDefinition[]
+  onAdd: (view: ViewDefinition) => void
+}) {
+  const [azimuth, setAzimuth] = useState(0)
+  const [elevation, setElevation] = useState(30)
+  const active = new Set(activeViews.map(view => view.name))
+  const available = VIEW_SCHEMA.filter(view => !active.has(view.name))
+  const custom = customView(azimuth, elevation)
+
+  return (
+    <div className="mt-4 space-y-2">
+      {available.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {available.map(view => (
+            <button
+              key={view.name}
+              onClick={() => onAdd(view)}
+              className="px-2 py-1 bg-white/5 text-gray-400 rounded-lg text-xs hover:text-white hover:bg-white/10 flex items-center gap-1"
+            >
+              <Plus className="w-3 h-3" /> {view.label}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        <span>Custom angle</span>
+        <label className="flex items-center gap-1">
+          az
+          <input
+            type="number"
+            value={azimuth}
+            onChange={(e) => setAzimuth(Number(e.target.value))}
+            className="w-16 px-2 py-1 bg-black/30 border border-gray-600 rounded text-white"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          el
+          <input
+            type="number"
+            min={-90}
+            max={90}
+            value={elevation}
+            onChange={(e) => setElevation(Number(e.target.value))}
+            className="w-16 px-2 py-1 bg-black/30 border border-gray-600 rounded text-white"
+          />
+        </label>
+        <button
+          onClick={() => onAdd(custom)}
+          disabled={active.has(custom.name)}
+          className="px-2 py-1 bg-white/5 rounded-lg hover:text-white hover:bg-white/10 disabled:opacity-40 flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" /> Add
+        </button>
+      </div>
+    </div>
+  )
+}
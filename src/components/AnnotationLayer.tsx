@@ -0,0 +1,153 @@
+import { useState } from 'react'
+import { Html, Line } from '@react-three/drei'
+import { Trash2 } from 'lucide-react'
+import { errorMessage } from '../api'
+import type { ModelAnnotation, Vec3 } from '../api'
+import { formatLength } from '../viewer/inspection'
+import { measurementLength } from '../viewer/annotations'
+import type { Measurement } from '../viewer/annotations'
+
+const MEASURE_COLOR = '#facc15'
+// Keeps markers under the viewer's toolbar and panels.
+const Z_RANGE: [number, number] = [9, 0]
+
+function midpoint(a: Vec3, b: Vec3): Vec3 {
+  return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, (a[2] + b[2]) / 2]
+}
+
+function Dot({ position }: { position: Vec3 }) {
+  return (
+    <Html position={position} center zIndexRange={Z_RANGE} style={{ pointerEvents: 'none' }}>
+      <span className="block w-2 h-2 rounded-full bg-yellow-400 ring-2 ring-black/60" />
+    </Html>
+  )
+}
+
+function DraftForm({ onSave, onCancel }: { onSave: (text: string) => Promise<void>, onCancel: () => void }) {
+  const [text, setText] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const save = async () => {
+    if (!text.trim()) return
+    setSaving(true)
+    try {
+      await onSave(text.trim())
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save note'))
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="w-56 p-2 bg-gray-900/95 border border-white/10 rounded-lg text-xs space-y-2" onPointerDown={(e) => e.stopPropagation()}>
+      <textarea
+        autoFocus
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) save()
+          if (e.key === 'Escape') onCancel()
+        }}
+        rows={3}
+        placeholder="Describe what's here"
+        className="w-full px-2 py-1 bg-black/30 border border-gray-700 rounded text-white resize-none focus:outline-none focus:border-purple-500"
+      />
+      {error && <p className="text-red-400">{error}</p>}
+      <div className="flex gap-1">
+        <button
+          onClick={save}
+          disabled={saving || !text.trim()}
+          className="flex-1 py-1 bg-purple-500 text-white rounded hover:bg-purple-600 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Pin note'}
+        </button>
+        <button onClick={onCancel} className="flex-1 py-1 bg-white/5 text-gray-300 rounded hover:bg-white/10">
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// Rendered inside the model's own transform, so every position here is in model coordinates.
+export function AnnotationLayer({
+  annotations,
+  selectedId,
+  onSelect,
+  onDelete,
+  draft,
+  onSaveDraft,
+  onCancelDraft,
+  measurements,
+  pendingPoint,
+}: {
+  annotations: ModelAnnotation[]
+  selectedId: string | null
+  onSelect: (annotation: ModelAnnotation) => void
+  onDelete?: (annotation: ModelAnnotation) => void
+  draft: Vec3 | null
+  onSaveDraft: (text: string) => Promise<void>
+  onCancelDraft: () => void
+  measurements: Measurement[]
+  pendingPoint: Vec3 | null
+}) {
+  return (
+    <group>
+      {annotations.map((annotation, index) => {
+        const selected = annotation.id === selectedId
+        return (
+          <Html key={annotation.id} position={annotation.position} zIndexRange={Z_RANGE}>
+            <div className="relative -translate-x-1/2 -translate-y-1/2">
+              <button
+                onClick={() => onSelect(annotation)}
+                title={annotation.text}
+                className={`w-6 h-6 rounded-full text-xs font-semibold ring-2 ring-black/60 ${selected ? 'bg-pink-500 text-white' : 'bg-purple-500 text-white hover:bg-pink-500'}`}
+              >
+                {index + 1}
+              </button>
+              {selected && (
+                <div className="absolute left-7 top-0 w-52 p-2 bg-gray-900/95 border border-white/10 rounded-lg text-xs text-gray-200">
+                  <p className="whitespace-pre-wrap break-words">{annotation.text}</p>
+                  <div className="mt-1 flex items-center justify-between text-gray-500">
+                    <span>{new Date(annotation.created_at).toLocaleDateString()}</span>
+                    {onDelete && (
+                      <button onClick={() => onDelete(annotation)} className="hover:text-red-400" title="Delete note">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          </Html>
+        )
+      })}
+
+      {draft && (
+        <>
+          <Dot position={draft} />
+          <Html position={draft} zIndexRange={Z_RANGE}>
+            <div className="ml-3 -mt-3">
+              <DraftForm onSave={onSaveDraft} onCancel={onCancelDraft} />
+            </div>
+          </Html>
+        </>
+      )}
+
+      {measurements.map(measurement => (
+        <group key={measurement.id}>
+          <Line points={[measurement.a, measurement.b]} color={MEASURE_COLOR} lineWidth={2} depthTest={false} />
+          <Dot position={measurement.a} />
+          <Dot position={measurement.b} />
+          <Html position={midpoint(measurement.a, measurement.b)} center zIndexRange={Z_RANGE} style={{ pointerEvents: 'none' }}>
+            <span className="px-1.5 py-0.5 bg-black/70 rounded text-xs text-yellow-300 font-mono whitespace-nowrap">
+              {formatLength(measurementLength(measurement))}
+            </span>
+          </Html>
+        </group>
+      ))}
+      {pendingPoint && <Dot position={pendingPoint} />}
+    </group>
+  )
+}
@@ -0,0 +1,101 @@
+import { MapPin, Ruler, Trash2, X } from 'lucide-react'
+import type { ModelAnnotation } from '../api'
+import { formatLength } from '../viewer/inspection'
+import { measurementLength } from '../viewer/annotations'
+import type { Measurement, ViewerTool } from '../viewer/annotations'
+
+export function AnnotationsPanel({
+  annotations,
+  selectedId,
+  onSelect,
+  tool,
+  onToolChange,
+  editable,
+  showMarkers,
+  onShowMarkersChange,
+  measurements,
+  onClearMeasurements,
+  onClose,
+}: {
+  annotations: ModelAnnotation[]
+  selectedId: string | null
+  onSelect: (annotation: ModelAnnotation) => void
+  tool: ViewerTool
+  onToolChange: (tool: ViewerTool) => void
+  editable: boolean
+  showMarkers: boolean
+  onShowMarkersChange: (show: boolean) => void
+  measurements: Measurement[]
+  onClearMeasurements: () => void
+  onClose: () => void
+}) {
+  const toolClass = (active: boolean) => `flex-1 py-1 rounded flex items-center justify-center gap-1 ${
+    active ? 'bg-purple-500 text-white' : 'bg-white/5 text-gray-300 hover:text-white'
+  }`
+
+  return (
+    <div className="absolute top-2 right-2 bottom-2 z-10 w-64 p-3 bg-gray-900/95 border border-white/10 rounded-lg overflow-y-auto text-xs text-gray-300 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-white">Annotations</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-1">
+        {editable && (
+          <button onClick={() => onToolChange(tool === 'annotate' ? 'none' : 'annotate')} className={toolClass(tool === 'annotate')}>
+            <MapPin className="w-3 h-3" /> Add note
+          </button>
+        )}
+        <button onClick={() => onToolChange(tool === 'measure' ? 'none' : 'measure')} className={toolClass(tool === 'measure')}>
+          <Ruler className="w-3 h-3" /> Measure
+        </button>
+      </div>
+      {tool === 'annotate' && <p className="text-gray-500">Click the model to pin a note there. The current view is saved with it.</p>}
+      {tool === 'measure' && <p className="text-gray-500">Click two points on the model to measure the distance between them.</p>}
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={showMarkers} onChange={(e) => onShowMarkersChange(e.target.checked)} />
+          Show markers
+        </label>
+        {annotations.length === 0 ? (
+          <p className="text-gray-500">No notes on this model yet.</p>
+        ) : (
+          <ol className="space-y-1">
+            {annotations.map((annotation, index) => (
+              <li key={annotation.id}>
+                <button
+                  onClick={() => onSelect(annotation)}
+                  className={`w-full text-left px-2 py-1 rounded flex gap-2 ${
+                    annotation.id === selectedId ? 'bg-purple-500/30 text-white' : 'hover:bg-white/10'
+                  }`}
+                >
+                  <span className="text-purple-300 font-semibold">{index + 1}</span>
+                  <span className="truncate">{annotation.text}</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {measurements.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-gray-200">Measurements</h4>
+            <button onClick={onClearMeasurements} className="text-gray-400 hover:text-white flex items-center gap-1">
+              <Trash2 className="w-3 h-3" /> Clear
+            </button>
+          </div>
+          <ul className="font-mono text-yellow-300 space-y-0.5">
+            {measurements.map((measurement, index) => (
+              <li key={measurement.id}>{index + 1}. {formatLength(measurementLength(measurement))}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import { Layers, Box, X, ArrowUpToLine, Loader2 } from 'lucide-react'
+import { VIEW_SCHEMA, missingRequiredViews } from '../views'
+import type { ObjectSet } from '../bulk/assign'
+import type { UploadValidation } from '../validation/useUploadValidation'
+
+function missingViews(set: ObjectSet) {
+  return missingRequiredViews(VIEW_SCHEMA, set.images)
+}
+
+function viewLabel(view: string) {
+  return VIEW_SCHEMA.find(definition => definition.name === view)?.label ?? view
+}
+
+export function BatchSetsPanel({
+  sets,
+  validation,
+  onLoad,
+  onConvert,
+  onConvertAll,
+  onDismiss,
+}: {
+  sets: ObjectSet[]
+  // Keyed by set id; a set still being checked or with blocking problems can't be converted.
+  validation: Record<string, UploadValidation>
+  onLoad: (set: ObjectSet) => void
+  onConvert: (set: ObjectSet) => void
+  onConvertAll: (sets: ObjectSet[]) => void
+  onDismiss: (set: ObjectSet) => void
+}) {
+  const canConvert = (set: ObjectSet) => {
+    const checked = validation[set.id]
+    return missingViews(set).length === 0 && !!checked && !checked.pending && !checked.blocked
+  }
+  const convertible = sets.filter(canConvert)
+
+  return (
+    <div className="mt-4 p-3 bg-black/20 rounded-xl border border-white/10">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm text-gray-300 flex items-center gap-2">
+          <Layers className="w-4 h-4 text-purple-400" /> {sets.length} object sets detected
+        </p>
+        <button
+          onClick={() => onConvertAll(convertible)}
+          disabled={convertible.length === 0}
+          className="px-2 py-1 bg-purple-500/20 text-purple-300 rounded text-xs hover:bg-purple-500/30 disabled:opacity-40"
+        >
+          Convert all ({convertible.length})
+        </button>
+      </div>
+      <ul className="space-y-2">
+        {sets.map(set => {
+          const missing = missingViews(set)
+          const checked = validation[set.id]
+          const issues = checked
+            ? Object.entries(checked.issues).flatMap(([view, list]) => list.map(issue => ({ view, ...issue })))
+            : []
+          return (
+            <li key={set.id} className="text-xs">
+              <div className="flex items-center gap-2">
+                <span className="text-white font-medium truncate w-28" title={set.name}>{set.name || '(no prefix)'}</span>
+                <span className="flex-1 flex flex-wrap gap-1">
+                  {Object.keys(set.images).map(view => (
+                    <span key={view} className="px-1.5 py-0.5 bg-white/5 rounded text-gray-400">{view}</span>
+                  ))}
+                  {missing.length > 0 && (
+                    <span className="text-red-400">missing {missing.map(view => view.label).join(', ')}</span>
+                  )}
+                  {(!checked || checked.pending) && (
+                    <span className="text-gray-500 flex items-center gap-1"><Loader2 className="w-3 h-3 animate-spin" /> checking</span>
+                  )}
+                </span>
+                <button onClick={() => onLoad(set)} className="p-1 text-gray-400 hover:text-white" title="Load into the form">
+                  <ArrowUpToLine className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => onConvert(set)}
+                  disabled={!canConvert(set)}
+                  className="p-1 text-purple-300 hover:text-white disabled:opacity-40"
+                  title="Convert this set"
+                >
+                  <Box className="w-3 h-3" />
+                </button>
+                <button onClick={() => onDismiss(set)} className="p-1 text-gray-500 hover:text-white" title="Dismiss">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+              {issues.length > 0 && (
+                <ul className="mt-1 ml-[7.5rem] space-y-0.5">
+                  {issues.map((issue, i) => (
+                    <li key={i} className={issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}>
+                      {viewLabel(issue.view)}: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+import { useState } from 'react'
+import { Columns, Tag, FolderInput, Download, Trash2, X, Loader2, Plus } from 'lucide-react'
+import { normalizeTags } from '../api'
+import type { Collection } from '../api'
+
+type Panel = 'tag' | 'move' | null
+
+export function BulkActionsBar({
+  count,
+  collections,
+  busy,
+  onCompare,
+  onAddTags,
+  onRemoveTags,
+  onMove,
+  onCreateCollection,
+  onExport,
+  onDelete,
+  onClear,
+}: {
+  count: number
+  collections: Collection[]
+  busy: string | null
+  onCompare: () => void
+  // Edits and deletes are left out for users whose role doesn't allow them.
+  onAddTags?: (tags: string[]) => void
+  onRemoveTags?: (tags: string[]) => void
+  onMove?: (collectionId: number | null) => void
+  onCreateCollection: (name: string) => Promise<Collection | null>
+  onExport: () => void
+  onDelete?: () => void
+  onClear: () => void
+}) {
+  const [panel, setPanel] = useState<Panel>(null)
+  const [tagInput, setTagInput] = useState('')
+  const [collectionName, setCollectionName] = useState('')
+  const tags = normalizeTags(tagInput.split(','))
+
+  const togglePanel = (next: Panel) => setPanel(prev => (prev === next ? null : next))
+
+  const applyTags = (apply?: (tags: string[]) => void) => {
+    if (!apply || tags.length === 0) return
+    apply(tags)
+    setTagInput('')
+    setPanel(null)
+  }
+
+  const createAndMove = async () => {
+    const name = collectionName.trim()
+    if (!name || !onMove) return
+    const collection = await onCreateCollection(name)
+    if (!collection) return
+    onMove(collection.id)
+    setCollectionName('')
+    setPanel(null)
+  }
+
+  const buttonClass = 'px-2 py-1 rounded text-xs flex items-center gap-1 disabled:opacity-40'
+
+  return (
+    <div className="mb-4 p-3 bg-purple-500/10 border border-purple-500/20 rounded-xl">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-purple-200 mr-2">{count} selected</span>
+        <button
+          onClick={onCompare}
+          disabled={count < 2 || busy !== null}
+          className={`${buttonClass} bg-white/5 text-gray-300 hover:text-white`}
+          title={count < 2 ? 'Select at least two models' : undefined}
+        >
+          <Columns className="w-3 h-3" /> Compare
+        </button>
+        {onAddTags && onRemoveTags && (
+          <button
+            onClick={() => togglePanel('tag')}
+            disabled={busy !== null}
+            className={`${buttonClass} ${panel === 'tag' ? 'bg-purple-500/30 text-purple-200' : 'bg-white/5 text-gray-300 hover:text-white'}`}
+          >
+            <Tag className="w-3 h-3" /> Tags
+          </button>
+        )}
+        {onMove && (
+          <button
+            onClick={() => togglePanel('move')}
+            disabled={busy !== null}
+            className={`${buttonClass} ${panel === 'move' ? 'bg-purple-500/30 text-purple-200' : 'bg-white/5 text-gray-300 hover:text-white'}`}
+          >
+            <FolderInput className="w-3 h-3" /> Move to
+          </button>
+        )}
+        <button onClick={onExport} disabled={busy !== null} className={`${buttonClass} bg-white/5 text-gray-300 hover:text-white`}>
+          <Download className="w-3 h-3" /> Export zip
+        </button>
+        {onDelete && (
+          <button onClick={onDelete} disabled={busy !== null} className={`${buttonClass} bg-red-500/20 text-red-400 hover:bg-red-500/30`}>
+            <Trash2 className="w-3 h-3" /> Delete
+          </button>
+        )}
+        {busy && (
+          <span className="text-xs text-gray-400 flex items-center gap-1">
+            <Loader2 className="w-3 h-3 animate-spin" /> {busy}
+          </span>
+        )}
+        <button onClick={onClear} className="ml-auto p-1 text-gray-400 hover:text-white" title="Clear selection">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {panel === 'tag' && onAddTags && onRemoveTags && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <input
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') applyTags(onAddTags) }}
+            placeholder="Tags, comma separated"
+            className="flex-1 min-w-[10rem] px-2 py-1 bg-black/30 border border-gray-700 rounded text-white text-xs focus:outline-none focus:border-purple-500"
+            autoFocus
+          />
+          <button
+            onClick={() => applyTags(onAddTags)}
+            disabled={tags.length === 0}
+            className={`${buttonClass} bg-green-500/20 text-green-400 hover:bg-green-500/30`}
+          >
+            Add
+          </button>
+          <button
+            onClick={() => applyTags(onRemoveTags)}
+            disabled={tags.length === 0}
+            className={`${buttonClass} bg-white/5 text-gray-300 hover:text-white`}
+          >
+            Remove
+          </button>
+        </div>
+      )}
+
+      {panel === 'move' && onMove && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          {collections.map(collection => (
+            <button
+              key={collection.id}
+              onClick={() => { onMove(collection.id); setPanel(null) }}
+              className={`${buttonClass} bg-white/5 text-gray-300 hover:text-white`}
+            >
+              {collection.name}
+            </button>
+          ))}
+          <button
+            onClick={() => { onMove(null); setPanel(null) }}
+            className={`${buttonClass} bg-white/5 text-gray-500 hover:text-white`}
+          >
+            No collection
+          </button>
+          <span className="flex items-center gap-1">
+            <input
+              value={collectionName}
+              onChange={(e) => setCollectionName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') createAndMove() }}
+              placeholder="New collection"
+              className="w-36 px-2 py-1 bg-black/30 border border-gray-700 rounded text-white text-xs focus:outline-none focus:border-purple-500"
+            />
+            <button
+              onClick={createAndMove}
+              disabled={!collectionName.trim()}
+              className={`${buttonClass} bg-purple-500/20 text-purple-300 hover:bg-purple-500/30`}
+            >
+              <Plus className="w-3 h-3" /> Create
+            </button>
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
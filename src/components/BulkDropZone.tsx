@@ -0,0 +1,76 @@
+import { useState } from 'react'
+import { useDropzone } from 'react-dropzone'
+import { FolderUp, Settings2 } from 'lucide-react'
+import { DEFAULT_ASSIGNMENT_RULES } from '../bulk/assign'
+import type { AssignmentRule } from '../bulk/assign'
+
+function RulesEditor({ rules, onChange }: { rules: AssignmentRule[], onChange: (rules: AssignmentRule[]) => void }) {
+  const setAliases = (view: string, text: string) => {
+    const aliases = text.split(',').map(alias => alias.trim()).filter(Boolean)
+    onChange(rules.map(rule => (rule.view === view ? { ...rule, aliases } : rule)))
+  }
+
+  return (
+    <div className="mt-3 space-y-2 text-xs">
+      <p className="text-gray-500">
+        A file is assigned when its name ends in one of a view's aliases, e.g. <code>shoe_front.jpg</code> or <code>shoe-L.png</code>.
+        The part before it names the object, so several objects can be dropped at once.
+      </p>
+      {rules.map(rule => (
+        <label key={rule.view} className="grid grid-cols-[6rem_1fr] items-center gap-2 text-gray-400">
+          {rule.view}
+          <input
+            defaultValue={rule.aliases.join(', ')}
+            onBlur={(e) => setAliases(rule.view, e.target.value)}
+            className="px-2 py-1 bg-black/30 border border-gray-600 rounded text-white"
+          />
+        </label>
+      ))}
+      <button onClick={() => onChange(DEFAULT_ASSIGNMENT_RULES)} className="text-gray-500 hover:text-white">
+        Restore defaults
+      </button>
+    </div>
+  )
+}
+
+export function BulkDropZone({
+  rules,
+  onRulesChange,
+  onFiles,
+}: {
+  rules: AssignmentRule[]
+  onRulesChange: (rules: AssignmentRule[]) => void
+  onFiles: (files: File[]) => void
+}) {
+  const [showRules, setShowRules] = useState(false)
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: (acceptedFiles) => { if (acceptedFiles.length > 0) onFiles(acceptedFiles) },
+    accept: { 'image/*': ['.png', '.jpg', '.jpeg', '.webp'] },
+  })
+
+  return (
+    <div className="mb-4">
+      <div
+        {...getRootProps()}
+        className={`px-4 py-3 border-2 border-dashed rounded-xl cursor-pointer transition-all flex items-center gap-3 ${
+          isDragActive ? 'border-purple-400 bg-purple-400/10' : 'border-gray-600 hover:border-purple-400'
+        }`}
+      >
+        <input {...getInputProps()} />
+        <FolderUp className="w-5 h-5 text-purple-400 shrink-0" />
+        <div className="flex-1">
+          <p className="text-sm text-gray-300">Drop a folder or batch of images</p>
+          <p className="text-xs text-gray-500">Views are assigned from file names</p>
+        </div>
+        <button
+          onClick={(e) => { e.stopPropagation(); setShowRules(!showRules); }}
+          className={`p-1 rounded ${showRules ? 'text-white' : 'text-gray-500 hover:text-white'}`}
+          title="Filename rules"
+        >
+          <Settings2 className="w-4 h-4" />
+        </button>
+      </div>
+      {showRules && <RulesEditor key={JSON.stringify(rules)} rules={rules} onChange={onRulesChange} />}
+    </div>
+  )
+}
@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Camera, Check, Loader2, X } from 'lucide-react'
+import { errorMessage } from '../api'
+import { drawGuideLine } from '../editor/adjustment'
+import type { AlignmentGuides } from '../editor/adjustment'
+import { defaultStreamProvider } from '../capture/streams'
+import type { StreamProvider } from '../capture/streams'
+import { renderSilhouette } from '../capture/silhouette'
+import { useObjectUrl } from '../hooks/useObjectUrl'
+import type { ViewDefinition, ViewImages, ViewType } from '../views'
+
+const PREVIEW_WIDTH = 720
+const COUNTDOWN_CHOICES = [0, 3, 5, 10]
+const CAPTURE_QUALITY = 0.92
+
+function ViewChip({
+  view,
+  file,
+  active,
+  onSelect,
+}: {
+  view: ViewDefinition
+  file: File | null
+  active: boolean
+  onSelect: () => void
+}) {
+  const preview = useObjectUrl(file)
+  return (
+    <button
+      onClick={onSelect}
+      className={`relative w-20 shrink-0 rounded-lg overflow-hidden border-2 ${active ? 'border-purple-400' : 'border-white/10 hover:border-white/30'}`}
+      title={file ? `Retake ${view.label}` : `Capture ${view.label}`}
+    >
+      <div className="aspect-square bg-black/30 flex items-center justify-center">
+        {preview ? <img src={preview} alt={view.label} className="w-full h-full object-cover" /> : <Camera className="w-4 h-4 text-gray-600" />}
+      </div>
+      <span className="block text-[11px] text-gray-300 py-0.5 bg-black/40 truncate">{view.label}</span>
+      {file && (
+        <span className="absolute top-1 right-1 bg-green-500 rounded-full p-0.5">
+          <Check className="w-2.5 h-2.5 text-white" />
+        </span>
+      )}
+    </button>
+  )
+}
+
+// Walks through the views in order, filling each slot straight from the camera. The last shot is overlaid
+// as a silhouette so every view is taken from the same distance and height.
+export function CaptureDialog({
+  views,
+  images,
+  guides,
+  onCapture,
+  onClose,
+  getStream = defaultStreamProvider,
+}: {
+  views: ViewDefinition[]
+  images: ViewImages
+  guides: AlignmentGuides
+  onCapture: (view: ViewType, file: File) => void
+  onClose: () => void
+  getStream?: StreamProvider
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [streamError, setStreamError] = useState<string | null>(null)
+  const [ready, setReady] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(() => Math.max(0, views.findIndex(view => !images[view.name])))
+  const [lastCaptured, setLastCaptured] = useState<ViewType | null>(null)
+  const [countdownSeconds, setCountdownSeconds] = useState(3)
+  const [countdown, setCountdown] = useState<number | null>(null)
+  const [showSilhouette, setShowSilhouette] = useState(true)
+  const [silhouette, setSilhouette] = useState<HTMLCanvasElement | null>(null)
+  const [captureError, setCaptureError] = useState<string | null>(null)
+
+  const active = views[activeIndex]
+  const overlayView = lastCaptured && lastCaptured !== active.name
+    ? lastCaptured
+    : views.slice(0, activeIndex).reverse().find(view => images[view.name])?.name ?? null
+  const overlayFile = overlayView ? images[overlayView] ?? null : null
+
+  useEffect(() => {
+    let stream: MediaStream | null = null
+    let cancelled = false
+    getStream()
+      .then(s => {
+        if (cancelled) {
+          s.getTracks().forEach(track => track.stop())
+          return
+        }
+        stream = s
+        const video = videoRef.current
+        if (!video) return
+        video.srcObject = s
+        video.play().catch(err => console.warn('Camera preview did not start:', err))
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Failed to open camera:', err)
+        setStreamError(err instanceof DOMException && err.name === 'NotAllowedError'
+          ? 'Camera access was denied. Allow it in the browser to capture views.'
+          : `Could not open the camera: ${errorMessage(err)}`)
+      })
+    return () => {
+      cancelled = true
+      stream?.getTracks().forEach(track => track.stop())
+    }
+  }, [getStream])
+
+  useEffect(() => {
+    setSilhouette(null)
+    if (!overlayFile) return
+    let cancelled = false
+    renderSilhouette(overlayFile)
+      .then(canvas => { if (!cancelled) setSilhouette(canvas) })
+      .catch(err => console.warn('Failed to trace silhouette:', err))
+    return () => { cancelled = true }
+  }, [overlayFile])
+
+  // The preview is redrawn every frame: the camera, then the silhouette, then the framing guide on top.
+  useEffect(() => {
+    let frame = 0
+    const draw = () => {
+      frame = requestAnimationFrame(draw)
+      const video = videoRef.current
+      const canvas = canvasRef.current
+      const ctx = canvas?.getContext('2d')
+      if (!video || !canvas || !ctx || video.videoWidth === 0) return
+      const height = Math.round(PREVIEW_WIDTH * video.videoHeight / video.videoWidth)
+      if (canvas.width !== PREVIEW_WIDTH || canvas.height !== height) {
+        canvas.width = PREVIEW_WIDTH
+        canvas.height = height
+      }
+      const width = canvas.width
+      ctx.drawImage(video, 0, 0, width, height)
+
+      if (silhouette && showSilhouette) {
+        const fit = Math.min(width / silhouette.width, height / silhouette.height)
+        const w = silhouette.width * fit
+        const h = silhouette.height * fit
+        ctx.drawImage(silhouette, (width - w) / 2, (height - h) / 2, w, h)
+      }
+
+      // Shade what falls outside the centred square that preprocessing crops to.
+      const side = Math.min(width, height)
+      const left = (width - side) / 2
+      const top = (height - side) / 2
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.45)'
+      ctx.fillRect(0, 0, left, height)
+      ctx.fillRect(left + side, 0, width - left - side, height)
+      ctx.fillRect(left, 0, side, top)
+      ctx.fillRect(left, top + side, side, height - top - side)
+      drawGuideLine(ctx, '#f472b6', [width / 2, top], [width / 2, top + side], 'center')
+      drawGuideLine(ctx, '#4ade80', [left, top + guides.groundLine * side], [left + side, top + guides.groundLine * side], 'ground')
+      drawGuideLine(ctx, '#60a5fa', [left, top + guides.topLine * side], [left + side, top + guides.topLine * side], 'top')
+    }
+    draw()
+    return () => cancelAnimationFrame(frame)
+  }, [silhouette, showSilhouette, guides])
+
+  const capture = useCallback(async () => {
+    const video = videoRef.current
+    if (!video || video.videoWidth === 0) return
+    try {
+      const canvas = document.createElement('canvas')
+      canvas.width = video.videoWidth
+      canvas.height = video.videoHeight
+      const ctx = canvas.getContext('2d')
+      if (!ctx) throw new Error('Canvas 2D is not supported in this browser')
+      ctx.drawImage(video, 0, 0)
+      const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(b => (b ? resolve(b) : reject(new Error('Failed to encode image'))), 'image/jpeg', CAPTURE_QUALITY)
+      })
+      onCapture(active.name, new File([blob], `${active.name}-capture.jpg`, { type: 'image/jpeg' }))
+      setLastCaptured(active.name)
+      setCaptureError(null)
+      setActiveIndex(index => Math.min(index + 1, views.length - 1))
+    } catch (err) {
+      console.error('Capture failed:', err)
+      setCaptureError(`Capture failed: ${errorMessage(err)}`)
+    }
+  }, [active, views.length, onCapture])
+
+  useEffect(() => {
+    if (countdown === null) return
+    if (countdown === 0) {
+      setCountdown(null)
+      capture()
+      return
+    }
+    const timer = setTimeout(() => setCountdown(countdown - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [countdown, capture])
+
+  const selectView = (index: number) => {
+    setCountdown(null)
+    setActiveIndex(index)
+  }
+
+  const captured = views.filter(view => images[view.name]).length
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-gray-900 rounded-2xl p-6 border border-white/10 w-full max-w-4xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white">
+            Capture {active.label} view <span className="text-sm text-gray-500 font-normal">{captured} of {views.length} captured</span>
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {streamError ? (
+          <p className="text-red-400 text-sm">{streamError}</p>
+        ) : (
+          <div className="relative bg-black rounded-lg overflow-hidden">
+            <video ref={videoRef} muted playsInline onLoadedData={() => setReady(true)} className="hidden" />
+            <canvas ref={canvasRef} className={ready ? 'w-full' : 'hidden'} />
+            {!ready && (
+              <div className="h-64 flex items-center justify-center gap-2 text-gray-400 text-sm">
+                <Loader2 className="w-4 h-4 animate-spin" /> Starting camera...
+              </div>
+            )}
+            {countdown !== null && countdown > 0 && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <span className="text-8xl font-bold text-white drop-shadow-lg">{countdown}</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        <p className="mt-2 text-xs text-gray-500">
+          Rest the subject on the ground line, reach the top line and keep it centred.
+          {silhouette && showSilhouette && ` The outline is your ${views.find(view => view.name === overlayView)?.label.toLowerCase()} shot; match its size.`}
+        </p>
+
+        <div className="mt-4 flex gap-2 overflow-x-auto pb-1">
+          {views.map((view, index) => (
+            <ViewChip
+              key={view.name}
+              view={view}
+              file={images[view.name] ?? null}
+              active={index === activeIndex}
+              onSelect={() => selectView(index)}
+            />
+          ))}
+        </div>
+
+        {captureError && <p className="mt-2 text-red-400 text-xs">{captureError}</p>}
+
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+          <label className="text-gray-400 flex items-center gap-2">
+            Countdown
+            <select
+              value={countdownSeconds}
+              onChange={(e) => setCountdownSeconds(Number(e.target.value))}
+              className="px-2 py-1 bg-black/30 border border-gray-700 rounded text-white focus:outline-none focus:border-purple-500"
+            >
+              {COUNTDOWN_CHOICES.map(seconds => (
+                <option key={seconds} value={seconds}>{seconds === 0 ? 'Off' : `${seconds} s`}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-gray-400 flex items-center gap-2">
+            <input type="checkbox" checked={showSilhouette} onChange={(e) => setShowSilhouette(e.target.checked)} />
+            Silhouette overlay
+          </label>
+          <div className="ml-auto flex gap-2">
+            {countdown !== null ? (
+              <button onClick={() => setCountdown(null)} className="px-4 py-2 bg-white/5 text-gray-300 rounded-lg hover:bg-white/10">
+                Stop countdown
+              </button>
+            ) : (
+              <button
+                onClick={() => setCountdown(countdownSeconds)}
+                disabled={!ready}
+                className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg font-medium disabled:opacity-50 flex items-center gap-2"
+              >
+                <Camera className="w-4 h-4" /> {images[active.name] ? `Retake ${active.label}` : `Capture ${active.label}`}
+              </button>
+            )}
+            <button onClick={onClose} className="px-4 py-2 bg-white/5 text-gray-300 rounded-lg hover:bg-white/10">
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
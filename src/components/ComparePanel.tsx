@@ -0,0 +1,196 @@
+import { Suspense, useLayoutEffect, useMemo, useState } from 'react'
+import { Canvas, useThree } from '@react-three/fiber'
+import { Environment, useGLTF, Center } from '@react-three/drei'
+import { Columns, Layers, X } from 'lucide-react'
+import { api, sendCredentials } from '../api'
+import type { SavedModel } from '../api'
+import { ModelViewer } from './ModelViewer'
+import { createCameraSync, viewDirectionPosition } from '../viewer/cameraSync'
+import { viewDefinitionByName } from '../views'
+
+type CompareMode = 'side-by-side' | 'overlay'
+
+const CAMERA_DISTANCE = 4
+
+function LookAtOrigin() {
+  const camera = useThree(state => state.camera)
+  useLayoutEffect(() => {
+    camera.lookAt(0, 0, 0)
+  }, [camera])
+  return null
+}
+
+function ViewModel({ url }: { url: string }) {
+  const { scene } = useGLTF(url, false, false, sendCredentials)
+  // Every overlay tile renders the same cached scene; an object can only have one parent.
+  const clone = useMemo(() => scene.clone(true), [scene])
+  return (
+    <Center>
+      <group scale={2}>
+        <primitive object={clone} />
+      </group>
+    </Center>
+  )
+}
+
+function ViewDirectionRender({ url, azimuth, elevation }: { url: string, azimuth: number, elevation: number }) {
+  return (
+    <Canvas camera={{ position: viewDirectionPosition(azimuth, elevation, CAMERA_DISTANCE), fov: 45 }}>
+      <LookAtOrigin />
+      <ambientLight intensity={0.6} />
+      <directionalLight position={[5, 5, 5]} intensity={1} />
+      <Suspense fallback={null}>
+        <ViewModel url={url} />
+        <Environment preset="city" background={false} />
+      </Suspense>
+    </Canvas>
+  )
+}
+
+function OverlayView({ model }: { model: SavedModel }) {
+  const [opacity, setOpacity] = useState(0.5)
+  const url = api.proxyGlbUrl(model.model_url)
+  const views = Object.keys(model.view_config ?? {})
+
+  if (views.length === 0) {
+    return <p className="text-sm text-gray-500 py-8 text-center">This model has no recorded views to compare against.</p>
+  }
+
+  return (
+    <div>
+      <label className="flex items-center gap-3 text-xs text-gray-400 mb-3">
+        Model opacity
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={opacity}
+          onChange={(e) => setOpacity(Number(e.target.value))}
+          className="w-40 accent-purple-500"
+        />
+        <span className="w-8">{Math.round(opacity * 100)}%</span>
+      </label>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {views.map(name => {
+          const definition = viewDefinitionByName(name)
+          const source = model.source_images?.[name]
+          return (
+            <div key={name}>
+              <div className="relative aspect-square bg-black/40 rounded-lg overflow-hidden">
+                {source ? (
+                  <img src={source} alt={name} className="absolute inset-0 w-full h-full object-contain" />
+                ) : (
+                  <p className="absolute inset-x-0 bottom-2 text-center text-xs text-gray-600">No source image stored</p>
+                )}
+                {definition && (
+                  <div className="absolute inset-0" style={{ opacity }}>
+                    <ViewDirectionRender url={url} azimuth={definition.azimuth} elevation={definition.elevation} />
+                  </div>
+                )}
+              </div>
+              <p className="text-xs text-gray-400 mt-1 truncate" title={model.view_config?.[name]}>
+                {definition?.label ?? name}
+              </p>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export function ComparePanel({
+  models,
+  onRemove,
+  onClose,
+}: {
+  models: SavedModel[]
+  onRemove: (modelId: number) => void
+  onClose: () => void
+}) {
+  const [mode, setMode] = useState<CompareMode>('side-by-side')
+  const [overlayId, setOverlayId] = useState<number | null>(null)
+  const sync = useMemo(() => createCameraSync(), [])
+  const overlayModel = models.find(model => model.id === overlayId) ?? models[0]
+
+  return (
+    <div className="bg-white/5 backdrop-blur-lg rounded-2xl p-6 border border-white/10">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-white">Compare Models</h2>
+        <div className="flex items-center gap-2">
+          <div className="bg-black/30 rounded-lg p-1 flex gap-1">
+            <button
+              onClick={() => setMode('side-by-side')}
+              className={`px-3 py-1 rounded text-xs flex items-center gap-1 ${
+                mode === 'side-by-side' ? 'bg-purple-500 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              <Columns className="w-3 h-3" /> Side by side
+            </button>
+            <button
+              onClick={() => setMode('overlay')}
+              className={`px-3 py-1 rounded text-xs flex items-center gap-1 ${
+                mode === 'overlay' ? 'bg-purple-500 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              <Layers className="w-3 h-3" /> Overlay on source
+            </button>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" title="Exit compare mode">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {mode === 'side-by-side' ? (
+        <div className={`grid gap-4 ${models.length > 2 ? 'grid-cols-1 md:grid-cols-3' : 'grid-cols-1 md:grid-cols-2'}`}>
+          {models.map(model => (
+            <div key={model.id}>
+              <div className="h-72 bg-black/30 rounded-xl overflow-hidden">
+                <ModelViewer
+                  modelUrl={api.proxyGlbUrl(model.model_url)}
+                  cameraSync={sync}
+                  initialSettings={{ autoRotate: false }}
+                />
+              </div>
+              <div className="mt-2 flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-white text-sm font-medium truncate">{model.name}</p>
+                  <p className="text-gray-500 text-xs">
+                    {Object.keys(model.view_config ?? {}).join(', ') || 'Views not recorded'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onRemove(model.id)}
+                  disabled={models.length <= 2}
+                  className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                  title="Remove from comparison"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {models.map(model => (
+              <button
+                key={model.id}
+                onClick={() => setOverlayId(model.id)}
+                className={`px-3 py-1 rounded-lg text-xs ${
+                  model.id === overlayModel.id ? 'bg-purple-500/30 text-purple-200' : 'bg-white/5 text-gray-400 hover:text-white'
+                }`}
+              >
+                {model.name}
+              </button>
+            ))}
+          </div>
+          <OverlayView key={overlayModel.id} model={overlayModel} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,225 @@
+import { useEffect, useState } from 'react'
+import { Check, ChevronDown, ChevronRight, Link2, Save, SlidersHorizontal, X } from 'lucide-react'
+import type { ConversionSettings } from '../api'
+import {
+  BUILT_IN_PRESETS,
+  OUTPUT_FORMATS,
+  POLYGON_BUDGET,
+  SYMMETRY_HINTS,
+  TEXTURE_RESOLUTIONS,
+  createPreset,
+  formatPolygons,
+  loadPresets,
+  presetFromShareCode,
+  presetShareCode,
+  sameSettings,
+  savePresets,
+} from '../conversion/presets'
+import type { ConversionPreset } from '../conversion/presets'
+import { navigate, routePath, useSearchParam } from '../router/routes'
+
+// The budget slider works on a log scale so drafts and dense meshes both get usable precision.
+const LOG_MIN = Math.log10(POLYGON_BUDGET.min)
+const LOG_MAX = Math.log10(POLYGON_BUDGET.max)
+
+function presetLink(preset: ConversionPreset) {
+  return `${window.location.origin}${routePath({ name: 'create' })}?preset=${presetShareCode(preset)}`
+}
+
+export function ConversionSettingsPanel({
+  settings,
+  onChange,
+}: {
+  settings: ConversionSettings
+  onChange: (settings: ConversionSettings) => void
+}) {
+  const [open, setOpen] = useState(false)
+  const [userPresets, setUserPresets] = useState<ConversionPreset[]>(loadPresets)
+  const [presetName, setPresetName] = useState('')
+  const [copied, setCopied] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const set = <K extends keyof ConversionSettings>(key: K, value: ConversionSettings[K]) => onChange({ ...settings, [key]: value })
+
+  const presets = [...BUILT_IN_PRESETS, ...userPresets]
+  const current = presets.find(preset => sameSettings(preset.settings, settings))
+
+  const updatePresets = (next: ConversionPreset[]) => {
+    setUserPresets(next)
+    savePresets(next)
+  }
+
+  // Share links land on the create page with ?preset=; the preset is saved locally and the parameter dropped.
+  const sharedCode = useSearchParam('preset')
+  useEffect(() => {
+    if (!sharedCode) return
+    const shared = presetFromShareCode(sharedCode)
+    const params = new URLSearchParams(window.location.search)
+    params.delete('preset')
+    const search = params.toString()
+    navigate(`${routePath({ name: 'create' })}${search ? `?${search}` : ''}`, { replace: true })
+    if (!shared) {
+      setNotice('That preset link is invalid.')
+      return
+    }
+    const stored = loadPresets()
+    const existing = stored.find(preset => preset.name === shared.name && sameSettings(preset.settings, shared.settings))
+    if (!existing) {
+      const next = [...stored, shared]
+      setUserPresets(next)
+      savePresets(next)
+    }
+    onChange(shared.settings)
+    setOpen(true)
+    setNotice(existing ? `Using shared preset "${shared.name}".` : `Added shared preset "${shared.name}".`)
+  }, [sharedCode, onChange])
+
+  const savePreset = () => {
+    const name = presetName.trim()
+    if (!name) return
+    // Saving under an existing name overwrites that preset rather than adding a twin.
+    const others = userPresets.filter(preset => preset.name !== name)
+    updatePresets([...others, createPreset(name, settings)])
+    setPresetName('')
+  }
+
+  const copyLink = async (preset: ConversionPreset) => {
+    try {
+      await navigator.clipboard.writeText(presetLink(preset))
+      setCopied(preset.id)
+      setTimeout(() => setCopied(null), 1500)
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err)
+    }
+  }
+
+  return (
+    <div className="mt-4 border border-white/10 rounded-xl">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full px-3 py-2 flex items-center justify-between text-sm text-gray-300 hover:text-white"
+      >
+        <span className="flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4 text-purple-400" /> Conversion settings
+          <span className="text-xs text-gray-500">
+            {current ? current.name : 'Custom'} · {formatPolygons(settings.target_polygons)} polys · {settings.output_format.toUpperCase()}
+          </span>
+        </span>
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-3 text-sm">
+          {notice && <p className="text-xs text-purple-300">{notice}</p>}
+
+          <div className="flex flex-wrap gap-1">
+            {presets.map(preset => (
+              <span
+                key={preset.id}
+                className={`flex items-center rounded-lg text-xs ${current?.id === preset.id ? 'bg-purple-500 text-white' : 'bg-white/5 text-gray-400'}`}
+              >
+                <button onClick={() => onChange(preset.settings)} className="px-2 py-1 hover:text-white">
+                  {preset.name}
+                </button>
+                {!preset.builtIn && (
+                  <>
+                    <button onClick={() => copyLink(preset)} className="px-1 py-1 hover:text-white" title="Copy share link">
+                      {copied === preset.id ? <Check className="w-3 h-3 text-green-400" /> : <Link2 className="w-3 h-3" />}
+                    </button>
+                    <button
+                      onClick={() => updatePresets(userPresets.filter(p => p.id !== preset.id))}
+                      className="pr-2 pl-1 py-1 hover:text-white"
+                      title="Delete preset"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </>
+                )}
+              </span>
+            ))}
+          </div>
+
+          <label className="block text-gray-300">
+            <span className="flex items-center justify-between">
+              Polygon budget
+              <input
+                type="number"
+                min={POLYGON_BUDGET.min}
+                max={POLYGON_BUDGET.max}
+                step={1000}
+                value={settings.target_polygons}
+                onChange={(e) => set('target_polygons', Math.min(POLYGON_BUDGET.max, Math.max(POLYGON_BUDGET.min, Number(e.target.value) || POLYGON_BUDGET.min)))}
+                className="w-28 px-2 py-1 bg-black/30 border border-gray-600 rounded text-white text-sm text-right"
+              />
+            </span>
+            <input
+              type="range"
+              min={LOG_MIN}
+              max={LOG_MAX}
+              step={0.01}
+              value={Math.log10(settings.target_polygons)}
+              onChange={(e) => set('target_polygons', Math.round(10 ** Number(e.target.value) / 100) * 100)}
+              className="w-full"
+            />
+          </label>
+
+          <label className="flex items-center justify-between gap-2 text-gray-300">
+            Texture resolution
+            <select
+              value={settings.texture_resolution}
+              onChange={(e) => set('texture_resolution', Number(e.target.value))}
+              className="px-2 py-1 bg-black/30 border border-gray-600 rounded text-white text-sm"
+            >
+              {TEXTURE_RESOLUTIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+            </select>
+          </label>
+
+          <label className="flex items-center justify-between gap-2 text-gray-300">
+            Output format
+            <select
+              value={settings.output_format}
+              onChange={(e) => set('output_format', e.target.value as ConversionSettings['output_format'])}
+              className="px-2 py-1 bg-black/30 border border-gray-600 rounded text-white text-sm"
+            >
+              {OUTPUT_FORMATS.map(format => <option key={format.value} value={format.value}>{format.label}</option>)}
+            </select>
+          </label>
+
+          <label className="flex items-center justify-between gap-2 text-gray-300">
+            Symmetry
+            <select
+              value={settings.symmetry}
+              onChange={(e) => set('symmetry', e.target.value as ConversionSettings['symmetry'])}
+              className="px-2 py-1 bg-black/30 border border-gray-600 rounded text-white text-sm"
+            >
+              {SYMMETRY_HINTS.map(hint => <option key={hint.value} value={hint.value}>{hint.label}</option>)}
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2 text-gray-300">
+            <input type="checkbox" checked={settings.remesh} onChange={(e) => set('remesh', e.target.checked)} />
+            Remesh to an even, watertight surface
+          </label>
+
+          <div className="flex gap-2 pt-2 border-t border-white/10">
+            <input
+              type="text"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') savePreset() }}
+              placeholder="Preset name"
+              maxLength={60}
+              className="flex-1 px-2 py-1 bg-black/30 border border-gray-600 rounded text-white text-sm placeholder-gray-500 focus:border-purple-400 focus:outline-none"
+            />
+            <button
+              onClick={savePreset}
+              disabled={!presetName.trim()}
+              className="px-3 py-1 bg-white/5 text-gray-300 rounded hover:text-white flex items-center gap-1 disabled:opacity-40"
+            >
+              <Save className="w-3 h-3" /> Save preset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
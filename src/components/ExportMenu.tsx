@@ -0,0 +1,138 @@
+import { useState } from 'react'
+import { Download, Loader2, ChevronDown } from 'lucide-react'
+import type { Object3D } from 'three'
+import { errorMessage } from '../api'
+import { DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS, UNIT_SCALE, downloadBlob, exportFilename, exportModel } from '../export/exportModel'
+import type { ExportFormat, ExportOptions, ExportUnit } from '../export/exportModel'
+
+export function ExportMenu({
+  scene,
+  name,
+  originalUrl,
+  className = '',
+}: {
+  scene: Object3D | null
+  name: string | null | undefined
+  originalUrl: string
+  className?: string
+}) {
+  const [open, setOpen] = useState(false)
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS)
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const info = EXPORT_FORMATS[options.format]
+  const set = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) => setOptions(prev => ({ ...prev, [key]: value }))
+
+  const handleExport = async () => {
+    if (!scene) return
+    setExporting(true)
+    setError(null)
+    try {
+      downloadBlob(await exportModel(scene, options), exportFilename(name, options.format))
+    } catch (err) {
+      console.error('Export failed:', err)
+      setError(errorMessage(err, 'Export failed'))
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30"
+      >
+        <Download className="w-4 h-4" /> Export <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-72 p-4 bg-gray-900 border border-white/10 rounded-xl shadow-xl space-y-3 text-sm">
+          <div className="grid grid-cols-5 gap-1">
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => set('format', format)}
+                className={`py-1 rounded text-xs font-medium ${
+                  options.format === format ? 'bg-purple-500 text-white' : 'bg-white/5 text-gray-400 hover:text-white'
+                }`}
+              >
+                {EXPORT_FORMATS[format].label}
+              </button>
+            ))}
+          </div>
+
+          <fieldset disabled={info.fixedFrame} className="grid grid-cols-2 gap-2 disabled:opacity-40">
+            <label className="text-gray-400 text-xs">
+              Units
+              <select
+                value={info.fixedFrame ? 'm' : options.unit}
+                onChange={(e) => set('unit', e.target.value as ExportUnit)}
+                className="w-full mt-1 px-2 py-1 bg-black/30 border border-gray-600 rounded text-white"
+              >
+                {(Object.keys(UNIT_SCALE) as ExportUnit[]).map(unit => <option key={unit} value={unit}>{unit}</option>)}
+              </select>
+            </label>
+            <div className="text-gray-400 text-xs">
+              Up axis
+              <div className="mt-1 flex gap-1">
+                {(['y', 'z'] as const).map(axis => (
+                  <button
+                    key={axis}
+                    onClick={() => set('upAxis', axis)}
+                    className={`flex-1 py-1 rounded uppercase ${
+                      (info.fixedFrame ? 'y' : options.upAxis) === axis ? 'bg-purple-500 text-white' : 'bg-white/5 text-gray-400'
+                    }`}
+                  >
+                    {axis}-up
+                  </button>
+                ))}
+              </div>
+            </div>
+          </fieldset>
+          {info.fixedFrame && <p className="text-xs text-gray-500">{info.label} is always metres, Y-up.</p>}
+
+          <label className="flex items-center justify-between text-gray-400 text-xs">
+            Scale factor
+            <input
+              type="number"
+              min={0.001}
+              step={0.1}
+              value={options.scale}
+              onChange={(e) => set('scale', Number(e.target.value) || 1)}
+              className="w-24 px-2 py-1 bg-black/30 border border-gray-600 rounded text-white"
+            />
+          </label>
+
+          {info.hasAsciiVariant && (
+            <div className="flex gap-1 text-xs">
+              {[true, false].map(binary => (
+                <button
+                  key={String(binary)}
+                  onClick={() => set('binary', binary)}
+                  className={`flex-1 py-1 rounded ${options.binary === binary ? 'bg-purple-500 text-white' : 'bg-white/5 text-gray-400'}`}
+                >
+                  {binary ? 'Binary' : 'ASCII'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={!scene || exporting}
+            className="w-full py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            {scene ? `Download ${exportFilename(name, options.format)}` : 'Waiting for model...'}
+          </button>
+          {error && <p className="text-red-400 text-xs">{error}</p>}
+
+          <button onClick={() => window.open(originalUrl, '_blank')} className="w-full text-xs text-gray-500 hover:text-white">
+            Download original GLB
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+import { useEffect, useRef, useState } from 'react'
+import { Search, X, Tag, Trash2 } from 'lucide-react'
+import { DEFAULT_MODEL_QUERY, normalizeTags } from '../api'
+import type { Collection, ModelQuery } from '../api'
+import { isDefaultQuery } from '../gallery/galleryQuery'
+import { VIEW_SCHEMA } from '../views'
+
+const SEARCH_DELAY_MS = 300
+
+const SORT_OPTIONS: { label: string, sort: ModelQuery['sort'], order: ModelQuery['order'] }[] = [
+  { label: 'Newest first', sort: 'created_at', order: 'desc' },
+  { label: 'Oldest first', sort: 'created_at', order: 'asc' },
+  { label: 'Name A-Z', sort: 'name', order: 'asc' },
+  { label: 'Name Z-A', sort: 'name', order: 'desc' },
+]
+
+export function GalleryFilters({
+  query,
+  onChange,
+  collections,
+  onDeleteCollection,
+}: {
+  query: ModelQuery
+  onChange: (update: Partial<ModelQuery>) => void
+  collections: Collection[]
+  // Only admins may delete collections; without it the delete button is hidden.
+  onDeleteCollection?: (collectionId: number) => void
+}) {
+  const [search, setSearch] = useState(query.search)
+  const [tagInput, setTagInput] = useState('')
+  const selectedCollection = collections.find(collection => collection.id === query.collectionId)
+  const searchTimer = useRef<ReturnType<typeof setTimeout>>()
+
+  // Back/forward navigation can change the query underneath the input, and wins over a search still being typed.
+  useEffect(() => {
+    clearTimeout(searchTimer.current)
+    setSearch(query.search)
+  }, [query.search])
+
+  useEffect(() => () => clearTimeout(searchTimer.current), [])
+
+  // Debounced here, in the handler, so only typing changes the query and never the input catching up with it.
+  const changeSearch = (value: string) => {
+    setSearch(value)
+    clearTimeout(searchTimer.current)
+    searchTimer.current = setTimeout(() => onChange({ search: value }), SEARCH_DELAY_MS)
+  }
+
+  const addTagFilter = () => {
+    onChange({ tags: normalizeTags([...query.tags, ...tagInput.split(',')]) })
+    setTagInput('')
+  }
+
+  const toggleView = (view: string) => {
+    onChange({ views: query.views.includes(view) ? query.views.filter(v => v !== view) : [...query.views, view] })
+  }
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => changeSearch(e.target.value)}
+            placeholder="Search name or description"
+            className="w-full pl-9 pr-3 py-2 bg-black/30 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-500 focus:outline-none focus:border-purple-500"
+          />
+        </div>
+        <select
+          value={`${query.sort}:${query.order}`}
+          onChange={(e) => {
+            const option = SORT_OPTIONS.find(o => `${o.sort}:${o.order}` === e.target.value)
+            if (option) onChange({ sort: option.sort, order: option.order })
+          }}
+          className="px-3 py-2 bg-black/30 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-purple-500"
+        >
+          {SORT_OPTIONS.map(option => (
+            <option key={option.label} value={`${option.sort}:${option.order}`}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={query.collectionId ?? ''}
+          onChange={(e) => onChange({ collectionId: e.target.value ? Number(e.target.value) : null })}
+          className="px-3 py-2 bg-black/30 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-purple-500"
+        >
+          <option value="">All collections</option>
+          {collections.map(collection => (
+            <option key={collection.id} value={collection.id}>{collection.name}</option>
+          ))}
+        </select>
+        {selectedCollection && onDeleteCollection && (
+          <button
+            onClick={() => {
+              if (confirm(`Delete the collection "${selectedCollection.name}"? Its models are kept.`)) {
+                onDeleteCollection(selectedCollection.id)
+              }
+            }}
+            className="p-2 text-gray-400 hover:text-red-400"
+            title="Delete collection"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+        <Tag className="w-3 h-3" />
+        {query.tags.map(tag => (
+          <span key={tag} className="px-2 py-0.5 bg-purple-500/30 text-purple-200 rounded flex items-center gap-1">
+            {tag}
+            <button onClick={() => onChange({ tags: query.tags.filter(t => t !== tag) })} className="hover:text-white">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addTagFilter() }}
+          onBlur={() => { if (tagInput.trim()) addTagFilter() }}
+          placeholder={query.tags.length > 0 ? 'Add tag' : 'Filter by tag'}
+          className="w-28 px-2 py-0.5 bg-black/30 border border-gray-700 rounded text-white focus:outline-none focus:border-purple-500"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+        <label className="flex items-center gap-1">
+          From
+          <input
+            type="date"
+            value={query.createdFrom ?? ''}
+            max={query.createdTo ?? undefined}
+            onChange={(e) => onChange({ createdFrom: e.target.value || null })}
+            className="px-2 py-1 bg-black/30 border border-gray-700 rounded text-white [color-scheme:dark]"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          To
+          <input
+            type="date"
+            value={query.createdTo ?? ''}
+            min={query.createdFrom ?? undefined}
+            onChange={(e) => onChange({ createdTo: e.target.value || null })}
+            className="px-2 py-1 bg-black/30 border border-gray-700 rounded text-white [color-scheme:dark]"
+          />
+        </label>
+        <span className="ml-2">Views:</span>
+        {VIEW_SCHEMA.map(view => (
+          <button
+            key={view.name}
+            onClick={() => toggleView(view.name)}
+            className={`px-2 py-0.5 rounded ${
+              query.views.includes(view.name) ? 'bg-purple-500/30 text-purple-200' : 'bg-white/5 hover:text-white'
+            }`}
+          >
+            {view.label}
+          </button>
+        ))}
+        {!isDefaultQuery(query) && (
+          <button
+            onClick={() => { clearTimeout(searchTimer.current); setSearch(''); onChange(DEFAULT_MODEL_QUERY) }}
+            className="ml-auto flex items-center gap-1 hover:text-white"
+          >
+            <X className="w-3 h-3" /> Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+import { Loader2, CheckCircle2, AlertCircle, Ban, ArrowLeft, ExternalLink } from 'lucide-react'
+import { isActiveJob } from '../jobs/useJobQueue'
+import type { QueuedJob } from '../jobs/useJobQueue'
+import { useJobStatus } from '../jobs/useJobStatus'
+import { routePath } from '../router/routes'
+import { Link } from './Link'
+
+export function JobDetail({
+  jobId,
+  queuedJob,
+  onCancel,
+}: {
+  jobId: string
+  queuedJob: QueuedJob | null
+  onCancel: (id: string) => void
+}) {
+  // Jobs from this browser's queue are already being followed; only subscribe for the rest.
+  const remote = useJobStatus(queuedJob ? null : jobId)
+
+  const state = queuedJob?.state ?? remote.status?.status ?? null
+  const progress = queuedJob?.progress ?? remote.status?.progress ?? 0
+  const message = queuedJob?.message ?? remote.status?.message ?? null
+  const error = queuedJob?.error ?? remote.status?.error ?? remote.error
+  const modelId = (queuedJob?.result ?? remote.status?.result)?.model_id
+  const active = queuedJob ? isActiveJob(queuedJob) : state === 'pending' || state === 'processing'
+
+  return (
+    <div className="max-w-2xl mx-auto bg-white/5 backdrop-blur-lg rounded-2xl p-6 border border-white/10">
+      <Link to="/" className="text-sm text-gray-400 hover:text-white flex items-center gap-1 mb-4">
+        <ArrowLeft className="w-4 h-4" /> Back to create
+      </Link>
+      <h2 className="text-xl font-semibold text-white mb-1">{queuedJob?.name ?? 'Conversion job'}</h2>
+      <p className="text-gray-500 text-xs mb-6 font-mono">{jobId}</p>
+
+      {state === null && !error ? (
+        <div className="flex items-center gap-2 text-gray-400 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" /> Loading job status...
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-sm">
+            {state === 'completed' && <CheckCircle2 className="w-5 h-5 text-green-400" />}
+            {state === 'failed' && <AlertCircle className="w-5 h-5 text-red-400" />}
+            {state === 'cancelled' && <Ban className="w-5 h-5 text-gray-500" />}
+            {active && <Loader2 className="w-5 h-5 text-purple-400 animate-spin" />}
+            <span className="text-white capitalize">{state ?? 'Unknown'}</span>
+          </div>
+
+          {active && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span className="text-purple-400">{message || 'Processing...'}</span>
+                <span className="text-gray-400">{progress}%</span>
+              </div>
+              <div className="w-full h-2 bg-black/30 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-purple-500 to-pink-500 rounded-full transition-all duration-500 ease-out"
+                  style={{ width: `${progress}%` }}
+                />
+              </div>
+            </div>
+          )}
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+
+          <div className="flex gap-2 pt-2">
+            {state === 'completed' && modelId !== undefined && (
+              <Link
+                to={routePath({ name: 'model', modelId })}
+                className="px-3 py-2 bg-green-500/20 text-green-400 rounded-lg text-sm hover:bg-green-500/30 flex items-center gap-2"
+              >
+                <ExternalLink className="w-4 h-4" /> Open model
+              </Link>
+            )}
+            {queuedJob && active && (
+              <button
+                onClick={() => onCancel(queuedJob.id)}
+                className="px-3 py-2 bg-red-500/20 text-red-400 rounded-lg text-sm hover:bg-red-500/30"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
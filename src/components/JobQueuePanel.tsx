@@ -0,0 +1,129 @@
+import { Loader2, X, RotateCcw, ExternalLink, CheckCircle2, AlertCircle, Ban, ListChecks, WifiOff } from 'lucide-react'
+import { isActiveJob } from '../jobs/useJobQueue'
+import type { QueuedJob, QueuedJobState } from '../jobs/useJobQueue'
+import { routePath } from '../router/routes'
+import { Link } from './Link'
+
+const STATE_LABELS: Record<QueuedJobState, string> = {
+  queued: 'Waiting for connection',
+  submitting: 'Uploading',
+  pending: 'Queued',
+  processing: 'Processing',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+}
+
+function StateIcon({ state }: { state: QueuedJobState }) {
+  if (state === 'completed') return <CheckCircle2 className="w-4 h-4 text-green-400" />
+  if (state === 'failed') return <AlertCircle className="w-4 h-4 text-red-400" />
+  if (state === 'cancelled') return <Ban className="w-4 h-4 text-gray-500" />
+  if (state === 'queued') return <WifiOff className="w-4 h-4 text-yellow-400" />
+  return <Loader2 className="w-4 h-4 text-purple-400 animate-spin" />
+}
+
+export function JobQueuePanel({
+  jobs,
+  canRetry,
+  onCancel,
+  onRetry,
+  onDismiss,
+  onClearFinished,
+  onOpenModel,
+}: {
+  jobs: QueuedJob[]
+  canRetry: (id: string) => boolean
+  onCancel: (id: string) => void
+  onRetry: (id: string) => void
+  onDismiss: (id: string) => void
+  onClearFinished: () => void
+  onOpenModel: (modelId: number) => void
+}) {
+  const activeCount = jobs.filter(isActiveJob).length
+
+  return (
+    <div className="bg-white/5 backdrop-blur-lg rounded-2xl p-6 border border-white/10">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+          <ListChecks className="w-5 h-5 text-purple-400" />
+          Conversion Queue
+          {activeCount > 0 && <span className="text-sm font-normal text-gray-400">({activeCount} running)</span>}
+        </h2>
+        {jobs.length > activeCount && (
+          <button onClick={onClearFinished} className="text-gray-400 hover:text-white text-sm flex items-center gap-1">
+            <X className="w-4 h-4" /> Clear finished
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-3">
+        {jobs.map((job) => (
+          <li key={job.id} className="p-3 bg-black/20 rounded-xl border border-white/10">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <StateIcon state={job.state} />
+                {job.jobId ? (
+                  <Link
+                    to={routePath({ name: 'job', jobId: job.jobId })}
+                    className="text-white text-sm font-medium truncate hover:text-purple-300"
+                  >
+                    {job.name}
+                  </Link>
+                ) : (
+                  <span className="text-white text-sm font-medium truncate">{job.name}</span>
+                )}
+                <span className="text-gray-500 text-xs">{STATE_LABELS[job.state]}</span>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {job.state === 'completed' && job.result?.model_id !== undefined && (
+                  <button
+                    onClick={() => onOpenModel(job.result!.model_id!)}
+                    className="px-2 py-1 bg-green-500/20 text-green-400 rounded text-xs hover:bg-green-500/30 flex items-center gap-1"
+                  >
+                    <ExternalLink className="w-3 h-3" /> Open model
+                  </button>
+                )}
+                {(job.state === 'failed' || job.state === 'cancelled') && canRetry(job.id) && (
+                  <button
+                    onClick={() => onRetry(job.id)}
+                    className="px-2 py-1 bg-blue-500/20 text-blue-400 rounded text-xs hover:bg-blue-500/30 flex items-center gap-1"
+                  >
+                    <RotateCcw className="w-3 h-3" /> Retry
+                  </button>
+                )}
+                {isActiveJob(job) ? (
+                  <button
+                    onClick={() => onCancel(job.id)}
+                    className="px-2 py-1 bg-red-500/20 text-red-400 rounded text-xs hover:bg-red-500/30"
+                  >
+                    Cancel
+                  </button>
+                ) : (
+                  <button onClick={() => onDismiss(job.id)} className="p-1 text-gray-500 hover:text-white" title="Dismiss">
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {isActiveJob(job) && (
+              <div className="mt-2 space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span className="text-purple-400">{job.message || 'Processing...'}</span>
+                  <span className="text-gray-400">{job.progress}%</span>
+                </div>
+                <div className="w-full h-2 bg-black/30 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-purple-500 to-pink-500 rounded-full transition-all duration-500 ease-out"
+                    style={{ width: `${job.progress}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            {job.error && <p className="mt-2 text-red-400 text-xs">{job.error}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+import type { AnchorHTMLAttributes, MouseEvent } from 'react'
+import { navigate } from '../router/routes'
+
+// A plain anchor that navigates in-app on an unmodified left click and behaves natively otherwise (new tab, copy link).
+export function Link({ to, onClick, ...props }: { to: string } & Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'>) {
+  const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e)
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey || props.target) return
+    e.preventDefault()
+    navigate(to)
+  }
+  return <a href={to} onClick={handleClick} {...props} />
+}
@@ -0,0 +1,305 @@
+import { useCallback, useEffect, useState } from 'react'
+import { ArrowLeft, Film, Loader2, RefreshCw, RotateCcw, Share2, Wand2 } from 'lucide-react'
+import type { Object3D } from 'three'
+import { api, errorMessage, HttpError } from '../api'
+import type { ModelAnnotation, ModelVersion, SavedModel } from '../api'
+import { viewDefinitionByName } from '../views'
+import { routePath } from '../router/routes'
+import { ModelViewer } from './ModelViewer'
+import { ExportMenu } from './ExportMenu'
+import { Link } from './Link'
+import { VersionHistory } from './VersionHistory'
+import { ShareDialog } from './ShareDialog'
+import { PostProcessDialog } from './PostProcessDialog'
+import { ModelThumbnail } from './ModelThumbnail'
+import { usePreviewGenerator } from '../thumbnails/usePreviewGenerator'
+import { DEFAULT_TURNTABLE_OPTIONS } from '../thumbnails/render'
+import type { TurntableFormat } from '../thumbnails/render'
+import { sceneSettingsFromJson, sceneSettingsToJson } from '../viewer/sceneSettings'
+import type { SceneSettings } from '../viewer/sceneSettings'
+import { describeSettings } from '../conversion/presets'
+import type { Permissions } from '../auth/permissions'
+
+export function ModelDetail({
+  modelId,
+  galleryPath,
+  permissions,
+  onChanged,
+}: {
+  modelId: number
+  galleryPath: string
+  permissions: Permissions
+  onChanged: () => void
+}) {
+  const [model, setModel] = useState<SavedModel | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [scene, setScene] = useState<Object3D | null>(null)
+  const [preview, setPreview] = useState<ModelVersion | null>(null)
+  const [sharing, setSharing] = useState(false)
+  const [postProcessing, setPostProcessing] = useState(false)
+  const [turntableFormat, setTurntableFormat] = useState<TurntableFormat>(DEFAULT_TURNTABLE_OPTIONS.format)
+
+  const handlePreviewsUpdated = useCallback((updated: SavedModel) => {
+    setModel(current => (current?.id === updated.id ? updated : current))
+    onChanged()
+  }, [onChanged])
+  const previews = usePreviewGenerator(handlePreviewsUpdated)
+  const { ensurePreviews } = previews
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setModel(null)
+    setError(null)
+    setPreview(null)
+    api.getModel(modelId, controller.signal)
+      .then(setModel)
+      .catch(err => {
+        if (controller.signal.aborted) return
+        console.error('Failed to load model:', err)
+        setError(err instanceof HttpError && err.status === 404
+          ? 'This model does not exist or has been deleted.'
+          : `Failed to load model: ${errorMessage(err)}`)
+      })
+    return () => controller.abort()
+  }, [modelId])
+
+  useEffect(() => {
+    if (model && permissions.canEdit) ensurePreviews(model)
+  }, [model, permissions.canEdit, ensurePreviews])
+
+  const shownUrl = (preview ?? model)?.model_url
+  useEffect(() => {
+    setScene(null)
+  }, [shownUrl])
+
+  const handleSceneLoaded = useCallback((loaded: Object3D) => setScene(loaded), [])
+
+  const runAction = async (label: string, action: () => Promise<SavedModel>) => {
+    try {
+      setModel(await action())
+      setPreview(null)
+      setActionError(null)
+      onChanged()
+    } catch (err) {
+      console.error(`${label} failed:`, err)
+      setActionError(`${label} failed: ${errorMessage(err)}`)
+    }
+  }
+
+  const saveSceneSettings = async (settings: SceneSettings, environmentFile: File | null) => {
+    if (!model) return
+    const environmentUrl = environmentFile ? await api.uploadEnvironmentMap(model.id, environmentFile) : settings.environmentUrl
+    const sceneSettings = sceneSettingsToJson({ ...settings, environmentUrl })
+    await api.updateModel(model.id, { scene_settings: sceneSettings })
+    setModel(current => current && { ...current, scene_settings: sceneSettings })
+    onChanged()
+  }
+
+  const saveAnnotations = async (annotations: ModelAnnotation[]) => {
+    if (!model) return
+    await api.updateModel(model.id, { annotations })
+    setModel(current => current && { ...current, annotations })
+    onChanged()
+  }
+
+  const back = (
+    <Link to={galleryPath} className="text-sm text-gray-400 hover:text-white flex items-center gap-1 mb-4">
+      <ArrowLeft className="w-4 h-4" /> Back to gallery
+    </Link>
+  )
+
+  if (error || !model) {
+    return (
+      <div className="bg-white/5 backdrop-blur-lg rounded-2xl p-6 border border-white/10">
+        {back}
+        {error ? (
+          <p className="text-red-400 text-sm">{error}</p>
+        ) : (
+          <div className="flex items-center gap-2 text-gray-400 text-sm">
+            <Loader2 className="w-4 h-4 animate-spin" /> Loading model...
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  // While previewing an older version, everything version-specific comes from that snapshot.
+  const shown = preview ?? model
+  const editable = permissions.canEdit && !model.deleted_at
+  const views = Object.entries(shown.view_config ?? {})
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 bg-white/5 backdrop-blur-lg rounded-2xl p-6 border border-white/10">
+        {back}
+        {model.deleted_at && (
+          <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg flex items-center justify-between gap-2">
+            <p className="text-yellow-300 text-sm">This model is in the trash.</p>
+            {permissions.canEdit && (
+              <button
+                onClick={() => runAction('Restoring', () => api.restoreModel(model.id))}
+                className="px-2 py-1 bg-green-500/20 text-green-400 rounded text-xs hover:bg-green-500/30 flex items-center gap-1"
+              >
+                <RotateCcw className="w-3 h-3" /> Restore
+              </button>
+            )}
+          </div>
+        )}
+        {preview && (
+          <div className="mb-4 p-3 bg-purple-500/10 border border-purple-500/20 rounded-lg flex items-center justify-between gap-2">
+            <p className="text-purple-200 text-sm">Previewing version {preview.version}</p>
+            <button onClick={() => setPreview(null)} className="text-xs text-gray-400 hover:text-white">
+              Back to current
+            </button>
+          </div>
+        )}
+        <div className="h-[28rem] bg-black/30 rounded-xl overflow-hidden">
+          <ModelViewer
+            modelUrl={api.proxyGlbUrl(shown.model_url)}
+            onSceneLoaded={handleSceneLoaded}
+            initialSceneSettings={sceneSettingsFromJson(model.scene_settings)}
+            onSaveSceneSettings={editable ? saveSceneSettings : undefined}
+            // Notes are placed on the current mesh, so older versions show none.
+            annotations={preview ? [] : model.annotations}
+            onAnnotationsChange={editable && !preview ? saveAnnotations : undefined}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white/5 backdrop-blur-lg rounded-2xl p-6 border border-white/10 space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold text-white">{shown.name}</h2>
+          <p className="text-gray-400 text-sm mt-1">{shown.description || 'No description'}</p>
+        </div>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+          <dt className="text-gray-500">Created</dt>
+          <dd className="text-gray-300">{new Date(model.created_at).toLocaleString()}</dd>
+          <dt className="text-gray-500">Owner</dt>
+          <dd className="text-gray-300">{model.owner?.name ?? 'Unknown'}</dd>
+          <dt className="text-gray-500">Model ID</dt>
+          <dd className="text-gray-300">{model.id}</dd>
+          <dt className="text-gray-500">Version</dt>
+          <dd className="text-gray-300">{preview ? `${preview.version} (current: ${model.version})` : model.version}</dd>
+          <dt className="text-gray-500">Task</dt>
+          <dd className="text-gray-300 font-mono truncate" title={shown.task_id}>{shown.task_id}</dd>
+          <dt className="text-gray-500">Settings</dt>
+          <dd className="text-gray-300">{model.conversion_settings ? describeSettings(model.conversion_settings) : 'Not recorded'}</dd>
+          <dt className="text-gray-500">Tags</dt>
+          <dd className="text-gray-300">{model.tags.length > 0 ? model.tags.join(', ') : 'None'}</dd>
+        </dl>
+
+        {actionError && <p className="text-red-400 text-xs">{actionError}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          <ExportMenu scene={scene} name={shown.name} originalUrl={shown.model_url} />
+          {!model.deleted_at && (
+            <button
+              onClick={() => setSharing(true)}
+              className="px-3 py-2 bg-white/5 text-gray-300 rounded-lg text-sm hover:text-white flex items-center gap-2"
+            >
+              <Share2 className="w-4 h-4" /> Share
+            </button>
+          )}
+          {editable && (
+            <button
+              onClick={() => setPostProcessing(true)}
+              className="px-3 py-2 bg-white/5 text-gray-300 rounded-lg text-sm hover:text-white flex items-center gap-2"
+            >
+              <Wand2 className="w-4 h-4" /> Post-process
+            </button>
+          )}
+          {editable && (
+            <Link
+              to={`${routePath({ name: 'create' })}?version_of=${model.id}`}
+              className="px-3 py-2 bg-white/5 text-gray-300 rounded-lg text-sm hover:text-white flex items-center gap-2"
+            >
+              <RefreshCw className="w-4 h-4" /> Re-convert as new version
+            </Link>
+          )}
+        </div>
+
+        {!model.deleted_at && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">Previews</h3>
+            <div className="flex items-center gap-3">
+              <ModelThumbnail model={model} className="w-24 h-24 shrink-0" />
+              <div className="space-y-2 text-xs">
+                <p className="text-gray-500">
+                  {model.turntable ? `Turntable: ${model.turntable.format === 'webm' ? 'WebM video' : 'sprite sheet'}, ${model.turntable.frames} frames. Hover to play.` : 'No turntable yet.'}
+                </p>
+                {permissions.canEdit && (
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={turntableFormat}
+                      onChange={(e) => setTurntableFormat(e.target.value as TurntableFormat)}
+                      className="px-2 py-1 bg-black/30 border border-gray-700 rounded text-white focus:outline-none focus:border-purple-500"
+                    >
+                      <option value="sprite">Sprite sheet</option>
+                      <option value="webm">WebM video</option>
+                    </select>
+                    <button
+                      onClick={() => previews.generate(model, {
+                        thumbnail: true,
+                        turntable: true,
+                        turntableOptions: { ...DEFAULT_TURNTABLE_OPTIONS, format: turntableFormat },
+                      })}
+                      disabled={previews.generating === model.id}
+                      className="px-2 py-1 bg-white/5 text-gray-300 rounded hover:text-white flex items-center gap-1 disabled:opacity-40"
+                    >
+                      {previews.generating === model.id
+                        ? <><Loader2 className="w-3 h-3 animate-spin" /> Rendering...</>
+                        : <><Film className="w-3 h-3" /> Regenerate</>}
+                    </button>
+                  </div>
+                )}
+                {previews.error && <p className="text-red-400">{previews.error}</p>}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-300 mb-2">Source images</h3>
+          {views.length === 0 ? (
+            <p className="text-xs text-gray-500">Views were not recorded for this model.</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {views.map(([view, filename]) => (
+                <figure key={view}>
+                  <div className="aspect-square bg-black/30 rounded-lg overflow-hidden flex items-center justify-center">
+                    {shown.source_images?.[view] ? (
+                      <img src={shown.source_images[view]} alt={view} className="w-full h-full object-contain" />
+                    ) : (
+                      <span className="text-xs text-gray-600">Not stored</span>
+                    )}
+                  </div>
+                  <figcaption className="text-xs text-gray-400 mt-1 truncate" title={filename}>
+                    {viewDefinitionByName(view)?.label ?? view} · {filename}
+                  </figcaption>
+                </figure>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <VersionHistory
+          modelId={model.id}
+          currentVersion={model.version}
+          previewVersion={preview?.version ?? null}
+          onPreview={setPreview}
+          onRestore={editable ? version => runAction('Restoring version', () => api.restoreVersion(model.id, version.version)) : undefined}
+        />
+      </div>
+
+      {sharing && <ShareDialog model={model} onClose={() => setSharing(false)} />}
+      {postProcessing && (
+        <PostProcessDialog
+          model={model}
+          onSaved={updated => { setModel(updated); setPreview(null); onChanged() }}
+          onClose={() => setPostProcessing(false)}
+        />
+      )}
+    </div>
+  )
+}
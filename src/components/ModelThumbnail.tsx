@@ -0,0 +1,42 @@
+import { useState } from 'react'
+import type { CSSProperties } from 'react'
+import { Box } from 'lucide-react'
+import type { ModelTurntable, SavedModel } from '../api'
+
+const TURNTABLE_FPS = 18
+
+function TurntablePlayer({ turntable }: { turntable: ModelTurntable }) {
+  if (turntable.format === 'webm') {
+    return <video src={turntable.url} className="absolute inset-0 w-full h-full object-contain" autoPlay loop muted playsInline />
+  }
+  const style = {
+    backgroundImage: `url(${turntable.url})`,
+    backgroundSize: `${turntable.frames * 100}% 100%`,
+    animation: `turntable-sprite ${turntable.frames / TURNTABLE_FPS}s steps(${turntable.frames}, jump-none) infinite`,
+  } as CSSProperties
+  return <div className="absolute inset-0 bg-no-repeat" style={style} />
+}
+
+// The turntable is only fetched and played while the pointer is over the card.
+export function ModelThumbnail({ model, className = '' }: { model: SavedModel, className?: string }) {
+  const [hovered, setHovered] = useState(false)
+
+  return (
+    <div
+      className={`relative bg-gray-800 rounded-lg flex items-center justify-center overflow-hidden ${className}`}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+    >
+      {model.thumbnail_url ? (
+        <img src={model.thumbnail_url} alt={model.name} className="w-full h-full object-cover" />
+      ) : (
+        <Box className="w-8 h-8 text-gray-600" />
+      )}
+      {hovered && model.turntable && (
+        <div className="absolute inset-0 bg-gray-800">
+          <TurntablePlayer turntable={model.turntable} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,487 @@
+import { Suspense, Component, ReactNode, useCallback, useEffect, useId, useMemo, useRef, useState } from 'react'
+import type { ElementRef, RefObject } from 'react'
+import { Canvas, useFrame, useThree } from '@react-three/fiber'
+import type { ThreeEvent } from '@react-three/fiber'
+import { OrbitControls, Environment, useGLTF, Center, ContactShadows } from '@react-three/drei'
+import type { Box3, Group, Object3D, Vector3 } from 'three'
+import { errorMessage, sendCredentials } from '../api'
+import type { ModelAnnotation, Vec3 } from '../api'
+import { ViewerToolbar } from './ViewerToolbar'
+import { AnnotationLayer } from './AnnotationLayer'
+import { AnnotationsPanel } from './AnnotationsPanel'
+import { annotationId, createAnnotation, fromFrame, toFrame } from '../viewer/annotations'
+import type { Measurement, ViewerTool } from '../viewer/annotations'
+import {
+  applyShading,
+  boxSize,
+  cloneWithMaterials,
+  computeStats,
+  disposeMaterials,
+  fetchFileSize,
+  modelBounds,
+} from '../viewer/inspection'
+import type { MeshStats, ShadingMode } from '../viewer/inspection'
+import type { CameraSync } from '../viewer/cameraSync'
+import { viewDirectionPosition } from '../viewer/cameraSync'
+import { lightingPreset } from '../viewer/lighting'
+import {
+  DEFAULT_SCENE_SETTINGS,
+  applyEnvironmentIntensity,
+  applyMaterialOverrides,
+  environmentFiles,
+  listMaterials,
+  toneMappingValue,
+} from '../viewer/sceneSettings'
+import type { SceneMaterial, SceneSettings } from '../viewer/sceneSettings'
+import { useObjectUrl } from '../hooks/useObjectUrl'
+import { SceneSettingsPanel } from './SceneSettingsPanel'
+
+export type ViewerBackground = 'none' | 'dark' | 'light'
+
+export interface ViewerSettings {
+  shading: ShadingMode
+  autoRotate: boolean
+  showGrid: boolean
+  showAxes: boolean
+  showBounds: boolean
+  showStats: boolean
+  showAnnotations: boolean
+  background: ViewerBackground
+}
+
+export const DEFAULT_VIEWER_SETTINGS: ViewerSettings = {
+  shading: 'solid',
+  autoRotate: true,
+  showGrid: false,
+  showAxes: false,
+  showBounds: false,
+  showStats: false,
+  showAnnotations: true,
+  background: 'none',
+}
+
+const BACKGROUND_COLORS: Record<Exclude<ViewerBackground, 'none'>, string> = {
+  dark: '#111827',
+  light: '#e5e7eb',
+}
+
+const LIGHT_DISTANCE = 7
+const FLIGHT_MS = 700
+// Orbiting ends in a click as well; only one that barely moved the pointer picks a point.
+const PICK_TOLERANCE_PX = 4
+const NO_ANNOTATIONS: ModelAnnotation[] = []
+
+function Model({
+  url,
+  shading,
+  scale,
+  bounds,
+  onLoaded,
+  frameRef,
+  onSurfaceClick,
+  children,
+}: {
+  url: string
+  shading: ShadingMode
+  scale: number
+  bounds: Box3 | null
+  onLoaded?: (scene: Object3D) => void
+  frameRef: RefObject<Group>
+  onSurfaceClick: (e: ThreeEvent<MouseEvent>) => void
+  children?: ReactNode
+}) {
+  const { scene: cached } = useGLTF(url, false, false, sendCredentials)
+  // Shading and material edits go to this viewer's own copy, never to the cached scene that other
+  // viewers of the same URL also show.
+  const scene = useMemo(() => cloneWithMaterials(cached), [cached])
+
+  useEffect(() => {
+    onLoaded?.(scene)
+  }, [scene, onLoaded])
+
+  useEffect(() => applyShading(scene, shading), [scene, shading])
+
+  // Declared after the shading effect so its cleanup runs once the real materials are back.
+  useEffect(() => () => disposeMaterials(scene), [scene])
+
+  // Scale a wrapper rather than the scene, so exports see the model's own transform.
+  // Annotations hang off the same wrapper and so share the model's coordinates.
+  return (
+    <Center>
+      <group ref={frameRef} scale={scale}>
+        <primitive object={scene} onClick={onSurfaceClick} />
+        {bounds && <box3Helper args={[bounds, 0xf472b6]} />}
+        {children}
+      </group>
+    </Center>
+  )
+}
+
+function CameraSyncBridge({
+  sync,
+  controlsRef,
+}: {
+  sync: CameraSync
+  controlsRef: RefObject<ElementRef<typeof OrbitControls>>
+}) {
+  const camera = useThree(state => state.camera)
+  const id = useId()
+
+  useEffect(() => {
+    const controls = controlsRef.current
+    if (!controls) return
+    let applying = false
+    const onChange = () => {
+      if (!applying) sync.publish({ position: camera.position, target: controls.target }, id)
+    }
+    const unsubscribe = sync.subscribe((state, sourceId) => {
+      if (sourceId === id) return
+      // Applying a remote move fires our own change event; don't echo it back.
+      applying = true
+      camera.position.copy(state.position)
+      controls.target.copy(state.target)
+      controls.update()
+      applying = false
+    })
+    controls.addEventListener('change', onChange)
+    return () => {
+      controls.removeEventListener('change', onChange)
+      unsubscribe()
+    }
+  }, [sync, camera, controlsRef, id])
+
+  return null
+}
+
+// Tone mapping lives on the renderer, which the Canvas only configures when it's created.
+function ToneMappingBridge({ settings }: { settings: SceneSettings }) {
+  const gl = useThree(state => state.gl)
+
+  useEffect(() => {
+    gl.toneMapping = toneMappingValue(settings.toneMapping)
+    gl.toneMappingExposure = settings.exposure
+  }, [gl, settings.toneMapping, settings.exposure])
+
+  return null
+}
+
+// Eases the camera and orbit target to a saved viewpoint whenever a new one is requested.
+function CameraFlight({
+  to,
+  controlsRef,
+}: {
+  to: { position: Vector3, target: Vector3 } | null
+  controlsRef: RefObject<ElementRef<typeof OrbitControls>>
+}) {
+  const camera = useThree(state => state.camera)
+  const from = useRef<{ position: Vector3, target: Vector3, start: number } | null>(null)
+
+  useEffect(() => {
+    const controls = controlsRef.current
+    from.current = to && controls
+      ? { position: camera.position.clone(), target: controls.target.clone(), start: performance.now() }
+      : null
+  }, [to, camera, controlsRef])
+
+  useFrame(() => {
+    const controls = controlsRef.current
+    if (!from.current || !to || !controls) return
+    const t = Math.min(1, (performance.now() - from.current.start) / FLIGHT_MS)
+    const eased = t * t * (3 - 2 * t)
+    camera.position.lerpVectors(from.current.position, to.position, eased)
+    controls.target.lerpVectors(from.current.target, to.target, eased)
+    controls.update()
+    if (t === 1) from.current = null
+  })
+
+  return null
+}
+
+class ErrorBoundary extends Component<{children: ReactNode, fallback: ReactNode}, {hasError: boolean}> {
+  constructor(props: {children: ReactNode, fallback: ReactNode}) {
+    super(props)
+    this.state = { hasError: false }
+  }
+  static getDerivedStateFromError() {
+    return { hasError: true }
+  }
+  render() {
+    if (this.state.hasError) {
+      return this.props.fallback
+    }
+    return this.props.children
+  }
+}
+
+export function ModelViewer({
+  modelUrl,
+  onSceneLoaded,
+  inspectable = true,
+  cameraSync,
+  initialSettings,
+  initialSceneSettings = DEFAULT_SCENE_SETTINGS,
+  onSaveSceneSettings,
+  backgroundColor,
+  cameraPosition = [0, 0, 4],
+  annotations = NO_ANNOTATIONS,
+  onAnnotationsChange,
+}: {
+  modelUrl: string
+  onSceneLoaded?: (scene: Object3D) => void
+  inspectable?: boolean
+  cameraSync?: CameraSync
+  initialSettings?: Partial<ViewerSettings>
+  initialSceneSettings?: SceneSettings
+  // Enables "Save to model" in the scene panel; a newly chosen HDRI file is passed along for upload.
+  onSaveSceneSettings?: (settings: SceneSettings, environmentFile: File | null) => Promise<void>
+  // Overrides the background setting with an arbitrary CSS colour (used by the embed viewer).
+  backgroundColor?: string
+  // Only read on mount, like the rest of the Canvas camera options.
+  cameraPosition?: [number, number, number]
+  annotations?: ModelAnnotation[]
+  // Makes annotations editable; without it they are shown read-only.
+  onAnnotationsChange?: (annotations: ModelAnnotation[]) => Promise<void>
+}) {
+  const controlsRef = useRef<ElementRef<typeof OrbitControls>>(null)
+  const frameRef = useRef<Group>(null)
+  const [settings, setSettings] = useState({ ...DEFAULT_VIEWER_SETTINGS, ...initialSettings })
+  const [scene, setScene] = useState<Object3D | null>(null)
+  const [fileSize, setFileSize] = useState<number | null>(null)
+  const [sceneSettings, setSceneSettings] = useState(initialSceneSettings)
+  const [sceneOpen, setSceneOpen] = useState(false)
+  const [environmentFile, setEnvironmentFile] = useState<File | null>(null)
+  const [materials, setMaterials] = useState<SceneMaterial[]>([])
+  const environmentFileUrl = useObjectUrl(environmentFile)
+  const [annotationsOpen, setAnnotationsOpen] = useState(false)
+  const [tool, setTool] = useState<ViewerTool>('none')
+  const [draft, setDraft] = useState<Vec3 | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [measurements, setMeasurements] = useState<Measurement[]>([])
+  const [pendingPoint, setPendingPoint] = useState<Vec3 | null>(null)
+  const [flight, setFlight] = useState<{ position: Vector3, target: Vector3 } | null>(null)
+  const [annotationError, setAnnotationError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setScene(null)
+    setMaterials([])
+    setFileSize(null)
+    setSceneSettings(initialSceneSettings)
+    setEnvironmentFile(null)
+    setTool('none')
+    setDraft(null)
+    setSelectedId(null)
+    setMeasurements([])
+    setPendingPoint(null)
+    let cancelled = false
+    fetchFileSize(modelUrl).then(size => { if (!cancelled) setFileSize(size) })
+    return () => { cancelled = true }
+  }, [modelUrl])
+
+  // Called before Model applies any shading override, so these are the model's own materials.
+  const handleLoaded = useCallback((loaded: Object3D) => {
+    setScene(loaded)
+    setMaterials(listMaterials(loaded))
+    onSceneLoaded?.(loaded)
+  }, [onSceneLoaded])
+
+  useEffect(() => applyMaterialOverrides(materials, sceneSettings.materials), [materials, sceneSettings.materials])
+  useEffect(() => applyEnvironmentIntensity(materials, sceneSettings.environmentIntensity), [materials, sceneSettings.environmentIntensity])
+
+  useEffect(() => {
+    if (tool === 'none') return
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return
+      setDraft(null)
+      setPendingPoint(null)
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [tool])
+
+  const changeTool = (next: ViewerTool) => {
+    setTool(next)
+    setDraft(null)
+    setPendingPoint(null)
+  }
+
+  const handleSurfaceClick = (e: ThreeEvent<MouseEvent>) => {
+    const frame = frameRef.current
+    if (tool === 'none' || !frame || e.delta > PICK_TOLERANCE_PX) return
+    e.stopPropagation()
+    const point = toFrame(frame, e.point)
+    if (tool === 'annotate') {
+      setDraft(point)
+      setSelectedId(null)
+    } else if (pendingPoint) {
+      setMeasurements(prev => [...prev, { id: annotationId(), a: pendingPoint, b: point }])
+      setPendingPoint(null)
+    } else {
+      setPendingPoint(point)
+    }
+  }
+
+  const saveDraft = async (text: string) => {
+    const frame = frameRef.current
+    const controls = controlsRef.current
+    if (!draft || !frame || !controls || !onAnnotationsChange) return
+    const annotation = createAnnotation(text, draft, {
+      position: toFrame(frame, controls.object.position),
+      target: toFrame(frame, controls.target),
+    })
+    await onAnnotationsChange([...annotations, annotation])
+    setDraft(null)
+    setSelectedId(annotation.id)
+  }
+
+  const deleteAnnotation = (annotation: ModelAnnotation) => {
+    if (!onAnnotationsChange) return
+    onAnnotationsChange(annotations.filter(a => a.id !== annotation.id))
+      .then(() => setAnnotationError(null))
+      .catch(err => {
+        console.error('Failed to delete annotation:', err)
+        setAnnotationError(`Failed to delete note: ${errorMessage(err)}`)
+      })
+    setSelectedId(null)
+  }
+
+  const selectAnnotation = (annotation: ModelAnnotation) => {
+    const frame = frameRef.current
+    if (annotation.id === selectedId) {
+      setSelectedId(null)
+      return
+    }
+    setSelectedId(annotation.id)
+    if (!frame) return
+    setSettings(prev => ({ ...prev, autoRotate: false }))
+    setFlight({ position: fromFrame(frame, annotation.camera.position), target: fromFrame(frame, annotation.camera.target) })
+  }
+
+  const stats: MeshStats | null = useMemo(() => (scene ? computeStats(scene) : null), [scene])
+  const bounds = useMemo(() => (scene ? modelBounds(scene) : null), [scene])
+  const size = bounds ? boxSize(bounds) : null
+  const floorY = size ? -(size.y * sceneSettings.modelScale) / 2 : 0
+  // A freshly chosen HDRI is shown from its local copy until it's saved and uploaded.
+  const environment = { ...sceneSettings, environmentUrl: environmentFileUrl ?? sceneSettings.environmentUrl }
+  const customEnvironment = sceneSettings.environment === 'custom' ? environmentFiles(environment) : null
+  const preset = lightingPreset(sceneSettings.environment === 'custom' ? 'city' : sceneSettings.environment)
+  const lightScale = (customEnvironment ? 1 : preset.intensity) * sceneSettings.lightIntensity
+  const keyLight = viewDirectionPosition(sceneSettings.lightAzimuth, sceneSettings.lightElevation, LIGHT_DISTANCE)
+  const fillLight = viewDirectionPosition(sceneSettings.lightAzimuth + 180, sceneSettings.lightElevation, LIGHT_DISTANCE)
+  const background = backgroundColor ?? (settings.background === 'none' ? null : BACKGROUND_COLORS[settings.background])
+
+  return (
+    <div className={`relative h-full ${tool !== 'none' ? 'cursor-crosshair' : ''}`}>
+      <ErrorBoundary fallback={
+        <div className="h-full flex items-center justify-center text-red-400">
+          <p>Failed to load 3D model. Try downloading instead.</p>
+        </div>
+      }>
+        <Canvas camera={{ position: cameraPosition, fov: 45 }} shadows>
+          {background && <color attach="background" args={[background]} />}
+          <ToneMappingBridge settings={sceneSettings} />
+          <ambientLight intensity={0.4 * lightScale} />
+          <directionalLight position={keyLight} intensity={lightScale} castShadow />
+          <directionalLight position={fillLight} intensity={0.5 * lightScale} />
+          <spotLight position={[0, 10, 0]} angle={0.3} penumbra={1} intensity={0.8 * lightScale} />
+          <Suspense fallback={
+            <mesh>
+              <boxGeometry args={[1, 1, 1]} />
+              <meshStandardMaterial color="gray" />
+            </mesh>
+          }>
+            <Model
+              url={modelUrl}
+              shading={settings.shading}
+              scale={sceneSettings.modelScale}
+              bounds={settings.showBounds ? bounds : null}
+              onLoaded={handleLoaded}
+              frameRef={frameRef}
+              onSurfaceClick={handleSurfaceClick}
+            >
+              <AnnotationLayer
+                annotations={settings.showAnnotations ? annotations : NO_ANNOTATIONS}
+                selectedId={selectedId}
+                onSelect={selectAnnotation}
+                onDelete={onAnnotationsChange && deleteAnnotation}
+                draft={draft}
+                onSaveDraft={saveDraft}
+                onCancelDraft={() => setDraft(null)}
+                measurements={measurements}
+                pendingPoint={pendingPoint}
+              />
+            </Model>
+            {customEnvironment
+              ? <Environment files={customEnvironment} background={false} />
+              : <Environment preset={preset.environment} background={false} />}
+          </Suspense>
+          {sceneSettings.groundShadow && (
+            <ContactShadows position={[0, floorY - 0.001, 0]} opacity={0.5} scale={10} blur={2} far={4} />
+          )}
+          {settings.showGrid && <gridHelper args={[10, 20, 0x6b7280, 0x374151]} position={[0, floorY, 0]} />}
+          {settings.showAxes && <axesHelper args={[1.5]} />}
+          <OrbitControls
+            ref={controlsRef}
+            autoRotate={settings.autoRotate}
+            autoRotateSpeed={1}
+            enablePan={true}
+            enableZoom={true}
+            minDistance={1}
+            maxDistance={20}
+          />
+          {cameraSync && <CameraSyncBridge sync={cameraSync} controlsRef={controlsRef} />}
+          <CameraFlight to={flight} controlsRef={controlsRef} />
+        </Canvas>
+      </ErrorBoundary>
+
+      {inspectable && (
+        <ViewerToolbar
+          settings={settings}
+          onChange={setSettings}
+          onResetCamera={() => controlsRef.current?.reset()}
+          sceneOpen={sceneOpen}
+          onToggleScene={() => { setSceneOpen(!sceneOpen); setAnnotationsOpen(false) }}
+          annotationsOpen={annotationsOpen}
+          onToggleAnnotations={() => { setAnnotationsOpen(!annotationsOpen); setSceneOpen(false) }}
+          stats={stats}
+          size={size}
+          fileSize={fileSize}
+        />
+      )}
+
+      {inspectable && sceneOpen && (
+        <SceneSettingsPanel
+          settings={sceneSettings}
+          onChange={setSceneSettings}
+          materials={materials}
+          environmentFile={environmentFile}
+          onEnvironmentFileChange={setEnvironmentFile}
+          onSave={onSaveSceneSettings && (async () => {
+            await onSaveSceneSettings(sceneSettings, environmentFile)
+            setEnvironmentFile(null)
+          })}
+          onClose={() => setSceneOpen(false)}
+        />
+      )}
+
+      {inspectable && annotationsOpen && (
+        <AnnotationsPanel
+          annotations={annotations}
+          selectedId={selectedId}
+          onSelect={selectAnnotation}
+          tool={tool}
+          onToolChange={changeTool}
+          editable={!!onAnnotationsChange}
+          showMarkers={settings.showAnnotations}
+          onShowMarkersChange={showAnnotations => setSettings(prev => ({ ...prev, showAnnotations }))}
+          measurements={measurements}
+          onClearMeasurements={() => { setMeasurements([]); setPendingPoint(null) }}
+          onClose={() => { setAnnotationsOpen(false); changeTool('none') }}
+        />
+      )}
+
+      {annotationError && (
+        <p className="absolute bottom-2 left-1/2 -translate-x-1/2 px-2 py-1 bg-black/70 rounded-md text-xs text-red-400">{annotationError}</p>
+      )}
+    </div>
+  )
+}
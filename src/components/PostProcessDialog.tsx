@@ -0,0 +1,324 @@
+import { Suspense, useEffect, useMemo, useRef, useState } from 'react'
+import { Canvas } from '@react-three/fiber'
+import type { ThreeEvent } from '@react-three/fiber'
+import { Center, Environment, OrbitControls, useGLTF } from '@react-three/drei'
+import { Vector3 } from 'three'
+import { Download, Loader2, MousePointerClick, Save, Wand2, X } from 'lucide-react'
+import { api, errorMessage, isAbortError, sendCredentials } from '../api'
+import type { SavedModel } from '../api'
+import { useObjectUrl } from '../hooks/useObjectUrl'
+import { UNIT_SCALE, downloadBlob, exportFilename } from '../export/exportModel'
+import type { ExportUnit } from '../export/exportModel'
+import { computeStats, formatLength } from '../viewer/inspection'
+import { DEFAULT_POSTPROCESS_OPTIONS } from '../postprocess/meshProcessing'
+import type { PostProcessOptions, SizeDimension } from '../postprocess/meshProcessing'
+import { runPostProcess } from '../postprocess/runPostProcess'
+import type { PostProcessResult } from '../postprocess/runPostProcess'
+
+type PickMode = 'up' | 'forward' | null
+type Normal = [number, number, number]
+
+const DIMENSIONS: { value: SizeDimension, label: string }[] = [
+  { value: 'height', label: 'Height' },
+  { value: 'width', label: 'Width' },
+  { value: 'depth', label: 'Depth' },
+  { value: 'longest', label: 'Longest side' },
+]
+
+function PickableModel({
+  url,
+  onLoaded,
+  onPick,
+}: {
+  url: string
+  onLoaded: (triangles: number) => void
+  onPick: ((normal: Normal) => void) | null
+}) {
+  const { scene } = useGLTF(url, false, false, sendCredentials)
+  // The cached scene may already be mounted by the page's own viewer, and an object can only have one parent.
+  const clone = useMemo(() => scene.clone(true), [scene])
+
+  useEffect(() => {
+    onLoaded(computeStats(clone).triangles)
+  }, [clone, onLoaded])
+
+  // Center and the display scale only translate and scale uniformly, so a world-space direction
+  // is also the direction in the model's own frame.
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    if (!onPick || !e.face) return
+    e.stopPropagation()
+    const normal = e.face.normal.clone().transformDirection(e.object.matrixWorld)
+    onPick(normal.toArray() as Normal)
+  }
+
+  return (
+    <Center>
+      <group scale={2}>
+        <primitive object={clone} onClick={handleClick} />
+      </group>
+    </Center>
+  )
+}
+
+function NormalArrow({ normal, color }: { normal: Normal, color: number }) {
+  const direction = useMemo(() => new Vector3(...normal).normalize(), [normal])
+  return <arrowHelper args={[direction, new Vector3(), 1.8, color, 0.3, 0.15]} />
+}
+
+export function PostProcessDialog({
+  model,
+  onSaved,
+  onClose,
+}: {
+  model: SavedModel
+  onSaved: (model: SavedModel) => void
+  onClose: () => void
+}) {
+  const [options, setOptions] = useState<PostProcessOptions>(DEFAULT_POSTPROCESS_OPTIONS)
+  const [decimate, setDecimate] = useState(false)
+  const [rescale, setRescale] = useState(false)
+  const [targetSize, setTargetSize] = useState({ dimension: 'height' as SizeDimension, value: 20, unit: 'cm' as ExportUnit })
+  const [triangles, setTriangles] = useState<number | null>(null)
+  const [pickMode, setPickMode] = useState<PickMode>(null)
+  const [progress, setProgress] = useState<string | null>(null)
+  const [result, setResult] = useState<PostProcessResult | null>(null)
+  const [showResult, setShowResult] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const resultUrl = useObjectUrl(result?.glb)
+  const originalUrl = api.proxyGlbUrl(model.model_url)
+  const previewUrl = showResult && resultUrl ? resultUrl : originalUrl
+  const set = <K extends keyof PostProcessOptions>(key: K, value: PostProcessOptions[K]) => setOptions(prev => ({ ...prev, [key]: value }))
+
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const handleLoaded = useMemo(() => (count: number) => {
+    setTriangles(prev => prev ?? count)
+  }, [])
+
+  const handlePick = (normal: Normal) => {
+    if (pickMode === 'up') set('upNormal', normal)
+    if (pickMode === 'forward') set('forwardNormal', normal)
+    setPickMode(null)
+  }
+
+  const effectiveOptions = (): PostProcessOptions => ({
+    ...options,
+    targetTriangles: decimate ? Math.max(4, Math.round(options.targetTriangles ?? (triangles ?? 0) / 2)) : null,
+    targetSize: rescale ? { dimension: targetSize.dimension, metres: targetSize.value / UNIT_SCALE[targetSize.unit] } : null,
+  })
+
+  const handleProcess = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError(null)
+    setProgress('Downloading model')
+    try {
+      const response = await fetch(originalUrl, { credentials: 'include', signal: controller.signal })
+      if (!response.ok) throw new Error(`Failed to download model (${response.status})`)
+      const processed = await runPostProcess(await response.arrayBuffer(), effectiveOptions(), setProgress, controller.signal)
+      setResult(processed)
+      setShowResult(true)
+    } catch (err) {
+      if (isAbortError(err)) return
+      console.error('Post-processing failed:', err)
+      setError(`Post-processing failed: ${errorMessage(err)}`)
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!result) return
+    setSaving(true)
+    setError(null)
+    try {
+      onSaved(await api.uploadModelVersion(model.id, result.glb))
+      onClose()
+    } catch (err) {
+      console.error('Failed to save processed model:', err)
+      setError(`Failed to save: ${errorMessage(err)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const running = progress !== null
+  const inputClass = 'px-2 py-1 bg-black/30 border border-gray-700 rounded text-white focus:outline-none focus:border-purple-500'
+  const pickButton = (mode: Exclude<PickMode, null>, label: string, normal: Normal | null) => (
+    <div className="flex items-center gap-2">
+      <button
+        onClick={() => { setShowResult(false); setPickMode(pickMode === mode ? null : mode) }}
+        className={`flex-1 px-2 py-1 rounded flex items-center gap-1 ${pickMode === mode ? 'bg-purple-500 text-white' : 'bg-white/5 text-gray-300 hover:text-white'}`}
+      >
+        <MousePointerClick className="w-3 h-3" /> {label}
+      </button>
+      {normal && (
+        <button onClick={() => set(mode === 'up' ? 'upNormal' : 'forwardNormal', null)} className="text-gray-500 hover:text-white" title="Clear">
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-gray-900 rounded-2xl p-6 border border-white/10 w-full max-w-5xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white">Post-process {model.name}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_18rem] gap-6">
+          <div>
+            <div className={`relative aspect-[4/3] bg-black/30 rounded-lg overflow-hidden ${pickMode ? 'cursor-crosshair' : ''}`}>
+              <Canvas camera={{ position: [0, 0, 5], fov: 45 }}>
+                <ambientLight intensity={0.4} />
+                <directionalLight position={[5, 5, 5]} intensity={1} />
+                <Suspense fallback={null}>
+                  <PickableModel url={previewUrl} onLoaded={handleLoaded} onPick={pickMode && !showResult ? handlePick : null} />
+                  <Environment preset="city" background={false} />
+                </Suspense>
+                {!showResult && options.upNormal && <NormalArrow normal={options.upNormal} color={0x22c55e} />}
+                {!showResult && options.forwardNormal && <NormalArrow normal={options.forwardNormal} color={0x3b82f6} />}
+                {showResult && <gridHelper args={[10, 20, 0x6b7280, 0x374151]} />}
+                <OrbitControls makeDefault />
+              </Canvas>
+              {pickMode && (
+                <p className="absolute top-2 left-2 px-2 py-1 bg-black/60 rounded text-xs text-purple-200">
+                  Click the face that should point {pickMode === 'up' ? 'up' : 'towards the front'}
+                </p>
+              )}
+            </div>
+            {result && (
+              <div className="mt-2 flex items-center gap-2 text-xs">
+                {[false, true].map(processed => (
+                  <button
+                    key={String(processed)}
+                    onClick={() => setShowResult(processed)}
+                    className={`px-3 py-1 rounded ${showResult === processed ? 'bg-purple-500 text-white' : 'bg-white/5 text-gray-400 hover:text-white'}`}
+                  >
+                    {processed ? 'Result' : 'Original'}
+                  </button>
+                ))}
+                <span className="ml-auto text-gray-400 font-mono">
+                  {result.stats.trianglesBefore.toLocaleString()} → {result.stats.trianglesAfter.toLocaleString()} triangles ·{' '}
+                  {result.stats.size.map(formatLength).join(' × ')}
+                </span>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4 text-xs text-gray-300">
+            <div className="space-y-2">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={decimate} onChange={(e) => setDecimate(e.target.checked)} className="accent-purple-500" />
+                Reduce to
+                <input
+                  type="number"
+                  min={4}
+                  step={1000}
+                  value={options.targetTriangles ?? Math.round((triangles ?? 0) / 2)}
+                  onChange={(e) => set('targetTriangles', Number(e.target.value) || null)}
+                  disabled={!decimate}
+                  className={`w-24 ${inputClass} disabled:opacity-40`}
+                />
+                triangles
+              </label>
+              {triangles !== null && <p className="text-gray-500 pl-5">Currently {triangles.toLocaleString()} triangles.</p>}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-gray-400">Orientation</p>
+              {pickButton('up', options.upNormal ? 'Up face picked' : 'Pick the up face', options.upNormal)}
+              {pickButton('forward', options.forwardNormal ? 'Front face picked' : 'Pick the front face', options.forwardNormal)}
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={options.recenter} onChange={(e) => set('recenter', e.target.checked)} className="accent-purple-500" />
+                Recenter to origin
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={options.groundAlign} onChange={(e) => set('groundAlign', e.target.checked)} className="accent-purple-500" />
+                Rest on the ground
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={rescale} onChange={(e) => setRescale(e.target.checked)} className="accent-purple-500" />
+                Rescale so that
+              </label>
+              <fieldset disabled={!rescale} className="flex items-center gap-1 pl-5 disabled:opacity-40">
+                <select
+                  value={targetSize.dimension}
+                  onChange={(e) => setTargetSize(prev => ({ ...prev, dimension: e.target.value as SizeDimension }))}
+                  className={inputClass}
+                >
+                  {DIMENSIONS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={targetSize.value}
+                  onChange={(e) => setTargetSize(prev => ({ ...prev, value: Number(e.target.value) || prev.value }))}
+                  className={`w-16 ${inputClass}`}
+                />
+                <select
+                  value={targetSize.unit}
+                  onChange={(e) => setTargetSize(prev => ({ ...prev, unit: e.target.value as ExportUnit }))}
+                  className={inputClass}
+                >
+                  {(Object.keys(UNIT_SCALE) as ExportUnit[]).map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                </select>
+              </fieldset>
+            </div>
+
+            {running ? (
+              <div className="flex items-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin text-purple-400" />
+                <span className="flex-1">{progress}...</span>
+                <button onClick={() => abortRef.current?.abort()} className="text-gray-400 hover:text-white">Cancel</button>
+              </div>
+            ) : (
+              <button
+                onClick={handleProcess}
+                className="w-full py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg font-medium flex items-center justify-center gap-2"
+              >
+                <Wand2 className="w-4 h-4" /> {result ? 'Process again' : 'Process'}
+              </button>
+            )}
+
+            {result && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => downloadBlob(result.glb, exportFilename(model.name, 'glb'))}
+                  className="flex-1 px-2 py-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 flex items-center justify-center gap-1"
+                >
+                  <Download className="w-3 h-3" /> Download GLB
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving || running}
+                  className="flex-1 px-2 py-2 bg-purple-500/20 text-purple-300 rounded-lg hover:bg-purple-500/30 flex items-center justify-center gap-1 disabled:opacity-50"
+                >
+                  {saving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />} Save as new version
+                </button>
+              </div>
+            )}
+            {error && <p className="text-red-400">{error}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
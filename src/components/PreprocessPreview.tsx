@@ -0,0 +1,69 @@
+import { useState } from 'react'
+import { ArrowRight, X } from 'lucide-react'
+import { useObjectUrl } from '../hooks/useObjectUrl'
+import type { PreprocessResult } from '../preprocess/pipeline'
+
+export function PreprocessPreview({
+  title,
+  result,
+  onClose,
+}: {
+  title: string
+  result: PreprocessResult
+  onClose: () => void
+}) {
+  const [index, setIndex] = useState(result.stages.length - 1)
+  const stage = result.stages[index]
+  const beforeUrl = useObjectUrl(index === 0 ? result.original : result.stages[index - 1].preview)
+  const afterUrl = useObjectUrl(stage.preview)
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-gray-900 rounded-2xl p-6 border border-white/10 w-full max-w-3xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white">{title} preprocessing</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-1 mb-4 flex-wrap">
+          {result.stages.map((s, i) => (
+            <button
+              key={s.step}
+              onClick={() => setIndex(i)}
+              className={`px-3 py-1 rounded-lg text-sm ${
+                i === index ? 'bg-purple-500 text-white' : 'bg-white/5 text-gray-400 hover:text-white'
+              }`}
+            >
+              {i + 1}. {s.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-3">
+          <figure>
+            <div className="aspect-square bg-black/30 rounded-lg overflow-hidden flex items-center justify-center">
+              {beforeUrl && <img src={beforeUrl} alt="Before" className="max-w-full max-h-full object-contain" />}
+            </div>
+            <figcaption className="mt-1 text-xs text-gray-500 text-center">Before</figcaption>
+          </figure>
+          <ArrowRight className="w-5 h-5 text-gray-500" />
+          <figure>
+            <div className="aspect-square bg-black/30 rounded-lg overflow-hidden flex items-center justify-center">
+              {afterUrl && <img src={afterUrl} alt="After" className="max-w-full max-h-full object-contain" />}
+            </div>
+            <figcaption className="mt-1 text-xs text-gray-500 text-center">
+              After · {stage.width}×{stage.height}
+            </figcaption>
+          </figure>
+        </div>
+
+        <p className="mt-4 text-sm text-gray-300">{stage.detail}</p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, Wand2 } from 'lucide-react'
+import type { PreprocessOptions } from '../preprocess/pipeline'
+
+const MAX_SIZES = [512, 768, 1024, 1536, 2048]
+
+export function PreprocessSettings({
+  options,
+  onChange,
+}: {
+  options: PreprocessOptions
+  onChange: (options: PreprocessOptions) => void
+}) {
+  const [open, setOpen] = useState(false)
+  const set = <K extends keyof PreprocessOptions>(key: K, value: PreprocessOptions[K]) => onChange({ ...options, [key]: value })
+
+  return (
+    <div className="mt-4 border border-white/10 rounded-xl">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full px-3 py-2 flex items-center justify-between text-sm text-gray-300 hover:text-white"
+      >
+        <span className="flex items-center gap-2">
+          <Wand2 className="w-4 h-4 text-purple-400" /> Image preprocessing
+          <span className="text-xs text-gray-500">{options.enabled ? 'on' : 'off'}</span>
+        </span>
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-3 text-sm">
+          <label className="flex items-center gap-2 text-gray-300">
+            <input type="checkbox" checked={options.enabled} onChange={(e) => set('enabled', e.target.checked)} />
+            Preprocess images before upload
+          </label>
+
+          <fieldset disabled={!options.enabled} className="space-y-3 disabled:opacity-50">
+            <label className="flex items-center justify-between gap-2 text-gray-300">
+              Max resolution
+              <select
+                value={options.maxSize}
+                onChange={(e) => set('maxSize', Number(e.target.value))}
+                className="px-2 py-1 bg-black/30 border border-gray-600 rounded text-white text-sm"
+              >
+                {MAX_SIZES.map(size => <option key={size} value={size}>{size}px</option>)}
+              </select>
+            </label>
+
+            <label className="flex items-center gap-2 text-gray-300">
+              <input type="checkbox" checked={options.squareCrop} onChange={(e) => set('squareCrop', e.target.checked)} />
+              Square crop around subject
+            </label>
+            {options.squareCrop && (
+              <label className="flex items-center justify-between gap-2 text-gray-400 pl-6">
+                Padding
+                <input
+                  type="range"
+                  min={0}
+                  max={0.3}
+                  step={0.01}
+                  value={options.padding}
+                  onChange={(e) => set('padding', Number(e.target.value))}
+                  className="w-32"
+                />
+              </label>
+            )}
+
+            <label className="flex items-center gap-2 text-gray-300">
+              <input
+                type="checkbox"
+                checked={options.removeBackground}
+                onChange={(e) => set('removeBackground', e.target.checked)}
+              />
+              Flatten background to solid color
+            </label>
+            {options.removeBackground && (
+              <div className="pl-6 space-y-2">
+                <label className="flex items-center justify-between gap-2 text-gray-400">
+                  Color
+                  <input
+                    type="color"
+                    value={options.backgroundColor}
+                    onChange={(e) => set('backgroundColor', e.target.value)}
+                    className="w-10 h-6 bg-transparent"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-2 text-gray-400">
+                  Tolerance
+                  <input
+                    type="range"
+                    min={4}
+                    max={120}
+                    value={options.tolerance}
+                    onChange={(e) => set('tolerance', Number(e.target.value))}
+                    className="w-32"
+                  />
+                </label>
+                <p className="text-xs text-gray-500">Works best on plain, evenly lit backdrops.</p>
+              </div>
+            )}
+          </fieldset>
+        </div>
+      )}
+    </div>
+  )
+}
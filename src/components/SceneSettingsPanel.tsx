@@ -0,0 +1,219 @@
+import { useState } from 'react'
+import type { ReactNode } from 'react'
+import { Loader2, RotateCcw, Save, Upload, X } from 'lucide-react'
+import { errorMessage } from '../api'
+import { LIGHTING_PRESETS } from '../viewer/lighting'
+import { DEFAULT_SCENE_SETTINGS, TONE_MAPPINGS } from '../viewer/sceneSettings'
+import type { MaterialOverride, SceneMaterial, SceneSettings, ToneMappingName } from '../viewer/sceneSettings'
+
+function Slider({
+  label,
+  value,
+  min,
+  max,
+  step,
+  onChange,
+  format = v => v.toFixed(2),
+}: {
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  onChange: (value: number) => void
+  format?: (value: number) => string
+}) {
+  return (
+    <label className="block">
+      <span className="flex justify-between">
+        {label} <span className="text-gray-500 font-mono">{format(value)}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full accent-purple-500"
+      />
+    </label>
+  )
+}
+
+function Section({ title, children }: { title: string, children: ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-gray-400 font-medium uppercase tracking-wide text-[10px]">{title}</h4>
+      {children}
+    </div>
+  )
+}
+
+const degrees = (v: number) => `${Math.round(v)}°`
+
+export function SceneSettingsPanel({
+  settings,
+  onChange,
+  materials,
+  environmentFile,
+  onEnvironmentFileChange,
+  onSave,
+  onClose,
+}: {
+  settings: SceneSettings
+  onChange: (settings: SceneSettings) => void
+  materials: SceneMaterial[]
+  environmentFile: File | null
+  onEnvironmentFileChange: (file: File | null) => void
+  onSave?: () => Promise<void>
+  onClose: () => void
+}) {
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const set = <K extends keyof SceneSettings>(key: K, value: SceneSettings[K]) => onChange({ ...settings, [key]: value })
+
+  const setMaterial = (key: string, patch: MaterialOverride) => {
+    set('materials', { ...settings.materials, [key]: { ...settings.materials[key], ...patch } })
+  }
+  const resetMaterial = (key: string) => {
+    const { [key]: _removed, ...rest } = settings.materials
+    set('materials', rest)
+  }
+
+  const chooseEnvironmentFile = (file: File | undefined) => {
+    if (!file) return
+    onEnvironmentFileChange(file)
+    onChange({ ...settings, environment: 'custom', environmentFormat: file.name.toLowerCase().endsWith('.exr') ? 'exr' : 'hdr' })
+  }
+
+  const handleSave = async () => {
+    if (!onSave) return
+    setSaving(true)
+    setSaveError(null)
+    try {
+      await onSave()
+    } catch (err) {
+      console.error('Failed to save scene settings:', err)
+      setSaveError(errorMessage(err, 'Failed to save scene settings'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const hasCustomEnvironment = environmentFile !== null || settings.environmentUrl !== null
+  const selectClass = 'w-full mt-1 px-2 py-1 bg-black/30 border border-gray-700 rounded text-white focus:outline-none focus:border-purple-500'
+
+  return (
+    <div className="absolute top-2 right-2 bottom-2 z-10 w-64 p-3 bg-gray-900/95 border border-white/10 rounded-lg overflow-y-auto text-xs text-gray-300 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-white">Scene</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <Section title="Environment">
+        <select
+          value={settings.environment}
+          onChange={(e) => set('environment', e.target.value as SceneSettings['environment'])}
+          className={selectClass}
+        >
+          {LIGHTING_PRESETS.map(preset => <option key={preset.name} value={preset.name}>{preset.label}</option>)}
+          <option value="custom" disabled={!hasCustomEnvironment}>Custom HDRI</option>
+        </select>
+        <label className="flex items-center gap-2 cursor-pointer text-gray-400 hover:text-white">
+          <Upload className="w-3 h-3" />
+          <span className="truncate">{environmentFile ? environmentFile.name : 'Upload .hdr or .exr'}</span>
+          <input
+            type="file"
+            accept=".hdr,.exr"
+            className="hidden"
+            onChange={(e) => { chooseEnvironmentFile(e.target.files?.[0]); e.target.value = '' }}
+          />
+        </label>
+        <Slider label="Intensity" value={settings.environmentIntensity} min={0} max={3} step={0.05} onChange={v => set('environmentIntensity', v)} />
+      </Section>
+
+      <Section title="Key light">
+        <Slider label="Intensity" value={settings.lightIntensity} min={0} max={3} step={0.05} onChange={v => set('lightIntensity', v)} />
+        <Slider label="Direction" value={settings.lightAzimuth} min={0} max={359} step={1} onChange={v => set('lightAzimuth', v)} format={degrees} />
+        <Slider label="Height" value={settings.lightElevation} min={-10} max={90} step={1} onChange={v => set('lightElevation', v)} format={degrees} />
+      </Section>
+
+      <Section title="Camera">
+        <label className="block">
+          Tone mapping
+          <select
+            value={settings.toneMapping}
+            onChange={(e) => set('toneMapping', e.target.value as ToneMappingName)}
+            className={selectClass}
+          >
+            {TONE_MAPPINGS.map(t => <option key={t.name} value={t.name}>{t.label}</option>)}
+          </select>
+        </label>
+        <Slider label="Exposure" value={settings.exposure} min={0.1} max={3} step={0.05} onChange={v => set('exposure', v)} />
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.groundShadow}
+            onChange={(e) => set('groundShadow', e.target.checked)}
+            className="accent-purple-500"
+          />
+          Ground shadow
+        </label>
+        <Slider label="Display scale" value={settings.modelScale} min={0.25} max={5} step={0.25} onChange={v => set('modelScale', v)} />
+      </Section>
+
+      <Section title="Materials">
+        {materials.length === 0 && <p className="text-gray-500">No editable materials in this model.</p>}
+        {materials.map(({ key, label, material }) => {
+          const override = settings.materials[key] ?? {}
+          return (
+            <div key={key} className="p-2 bg-black/30 rounded space-y-1">
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={override.color ?? `#${material.color.getHexString()}`}
+                  onChange={(e) => setMaterial(key, { color: e.target.value })}
+                  className="w-6 h-6 bg-transparent rounded cursor-pointer"
+                  title="Base colour"
+                />
+                <span className="flex-1 truncate" title={label}>{label}</span>
+                {settings.materials[key] && (
+                  <button onClick={() => resetMaterial(key)} className="text-gray-500 hover:text-white" title="Reset material">
+                    <RotateCcw className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+              <Slider label="Roughness" value={override.roughness ?? material.roughness} min={0} max={1} step={0.01} onChange={v => setMaterial(key, { roughness: v })} />
+              <Slider label="Metalness" value={override.metalness ?? material.metalness} min={0} max={1} step={0.01} onChange={v => setMaterial(key, { metalness: v })} />
+            </div>
+          )
+        })}
+        {materials.length > 0 && (
+          <p className="text-gray-500">Material edits are included when exporting this model.</p>
+        )}
+      </Section>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => { onChange(DEFAULT_SCENE_SETTINGS); onEnvironmentFileChange(null) }}
+          className="flex-1 px-2 py-1 bg-white/5 text-gray-300 rounded hover:text-white flex items-center justify-center gap-1"
+        >
+          <RotateCcw className="w-3 h-3" /> Reset
+        </button>
+        {onSave && (
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex-1 px-2 py-1 bg-purple-500/20 text-purple-300 rounded hover:bg-purple-500/30 flex items-center justify-center gap-1 disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />} Save to model
+          </button>
+        )}
+      </div>
+      {saveError && <p className="text-red-400">{saveError}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react'
+import { Check, Copy, Loader2, X } from 'lucide-react'
+import { api, errorMessage } from '../api'
+import type { SavedModel } from '../api'
+import { DEFAULT_EMBED_OPTIONS, embedUrl, iframeSnippet } from '../embed/embedOptions'
+import type { EmbedOptions } from '../embed/embedOptions'
+import { LIGHTING_PRESETS } from '../viewer/lighting'
+import type { LightingPresetName } from '../viewer/lighting'
+import { VIEW_SCHEMA } from '../views'
+
+const BACKGROUNDS = [
+  { value: 'transparent', label: 'Transparent' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'light', label: 'Light' },
+]
+
+function CopyField({ label, value, multiline = false }: { label: string, value: string, multiline?: boolean }) {
+  const [copied, setCopied] = useState(false)
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(value)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err)
+    }
+  }
+
+  const fieldClass = 'flex-1 px-2 py-1 bg-black/30 border border-gray-700 rounded text-gray-200 text-xs font-mono focus:outline-none focus:border-purple-500'
+
+  return (
+    <label className="block">
+      <span className="text-xs text-gray-400">{label}</span>
+      <div className="mt-1 flex items-start gap-2">
+        {multiline ? (
+          <textarea value={value} readOnly rows={3} onFocus={(e) => e.target.select()} className={`${fieldClass} resize-none`} />
+        ) : (
+          <input value={value} readOnly onFocus={(e) => e.target.select()} className={fieldClass} />
+        )}
+        <button onClick={copy} className="p-1.5 bg-white/5 text-gray-300 rounded hover:text-white" title="Copy">
+          {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+        </button>
+      </div>
+    </label>
+  )
+}
+
+export function ShareDialog({ model, onClose }: { model: SavedModel, onClose: () => void }) {
+  const [options, setOptions] = useState<EmbedOptions>({ ...DEFAULT_EMBED_OPTIONS, modelId: model.id })
+  const [customColor, setCustomColor] = useState('#1f2937')
+  const [shareError, setShareError] = useState<string | null>(null)
+  const update = (patch: Partial<EmbedOptions>) => setOptions(prev => ({ ...prev, ...patch }))
+
+  // Embeds run without a session, so links are only offered once the model's share token is known.
+  useEffect(() => {
+    let cancelled = false
+    api.createShareToken(model.id)
+      .then(shareToken => { if (!cancelled) setOptions(prev => ({ ...prev, shareToken })) })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Failed to create share link:', err)
+        setShareError(`Failed to create share link: ${errorMessage(err)}`)
+      })
+    return () => { cancelled = true }
+  }, [model.id])
+
+  const url = embedUrl(options)
+  const snippet = iframeSnippet(url, model.name)
+  const isCustomBackground = !BACKGROUNDS.some(background => background.value === options.background)
+  const selectClass = 'w-full mt-1 px-2 py-1 bg-black/30 border border-gray-700 rounded text-white text-xs focus:outline-none focus:border-purple-500'
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-gray-900 rounded-2xl p-6 border border-white/10 w-full max-w-4xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white">Share {model.name}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_16rem] gap-6">
+          {options.shareToken ? (
+            <div className="space-y-3">
+              {/* The preview is the real embed page, so what you see is exactly what the snippet shows. */}
+              <iframe
+                key={url}
+                src={url}
+                title={`${model.name} embed preview`}
+                className="w-full aspect-[4/3] rounded-lg border border-white/10 bg-black/30"
+              />
+              <CopyField label="Link" value={url} />
+              <CopyField label="Embed code" value={snippet} multiline />
+            </div>
+          ) : (
+            <div className="aspect-[4/3] flex items-center justify-center rounded-lg border border-white/10 bg-black/30 text-sm">
+              {shareError ? <p className="text-red-400 px-4 text-center">{shareError}</p> : <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />}
+            </div>
+          )}
+
+          <div className="space-y-3 text-xs text-gray-300">
+            <label className="block">
+              Lighting
+              <select
+                value={options.lighting ?? ''}
+                onChange={(e) => update({ lighting: (e.target.value || null) as LightingPresetName | null })}
+                className={selectClass}
+              >
+                <option value="">As saved with the model</option>
+                {LIGHTING_PRESETS.map(preset => (
+                  <option key={preset.name} value={preset.name}>{preset.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              Background
+              <select
+                value={isCustomBackground ? 'custom' : options.background}
+                onChange={(e) => update({ background: e.target.value === 'custom' ? customColor : e.target.value })}
+                className={selectClass}
+              >
+                {BACKGROUNDS.map(background => (
+                  <option key={background.value} value={background.value}>{background.label}</option>
+                ))}
+                <option value="custom">Custom colour</option>
+              </select>
+            </label>
+            {isCustomBackground && (
+              <input
+                type="color"
+                value={customColor}
+                onChange={(e) => { setCustomColor(e.target.value); update({ background: e.target.value }) }}
+                className="w-full h-8 bg-transparent rounded cursor-pointer"
+              />
+            )}
+            <label className="block">
+              Camera start
+              <select
+                value={options.camera ?? ''}
+                onChange={(e) => update({ camera: e.target.value || null })}
+                className={selectClass}
+              >
+                <option value="">Default</option>
+                {VIEW_SCHEMA.map(view => (
+                  <option key={view.name} value={view.name}>{view.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options.autoRotate}
+                onChange={(e) => update({ autoRotate: e.target.checked })}
+                className="accent-purple-500"
+              />
+              Auto-rotate
+            </label>
+            {model.deleted_at && (
+              <p className="text-yellow-300">This model is in the trash; the embed shows an error until it's restored.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
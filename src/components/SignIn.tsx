@@ -0,0 +1,96 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { Box, Loader2, LogIn } from 'lucide-react'
+import { errorMessage } from '../api'
+import type { User } from '../api'
+import type { AuthProvider } from '../auth/providers'
+import { setSession } from '../auth/session'
+
+export function SignIn({ provider }: { provider: AuthProvider }) {
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const signIn = async (signInEmail: string, signInPassword: string) => {
+    setBusy(true)
+    setError(null)
+    try {
+      setSession(await provider.signIn(signInEmail, signInPassword))
+    } catch (err) {
+      console.error('Sign-in failed:', err)
+      setError(`Sign-in failed: ${errorMessage(err)}`)
+      setBusy(false)
+    }
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    if (email.trim() && password) signIn(email.trim(), password)
+  }
+
+  const signInAs = (account: User) => signIn(account.email, '')
+
+  return (
+    <div className="min-h-screen p-8 flex items-center justify-center">
+      <div className="w-full max-w-sm bg-white/5 backdrop-blur-lg rounded-2xl p-6 border border-white/10">
+        <h1 className="text-2xl font-bold text-white mb-1 flex items-center gap-2">
+          <Box className="w-7 h-7 text-purple-400" />
+          2D to 3D Converter
+        </h1>
+        <p className="text-gray-400 text-sm mb-6">Sign in to see your team's models.</p>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <label className="block">
+            <span className="text-sm font-medium text-gray-300 mb-1 block">Email</span>
+            <input
+              type="email"
+              autoComplete="username"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoFocus
+              className="w-full px-3 py-2 bg-black/30 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-500 focus:border-purple-400 focus:outline-none"
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-300 mb-1 block">Password</span>
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 bg-black/30 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-500 focus:border-purple-400 focus:outline-none"
+            />
+          </label>
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+          <button
+            type="submit"
+            disabled={busy || !email.trim() || !password}
+            className="w-full py-2 rounded-xl font-semibold bg-gradient-to-r from-purple-500 to-pink-500 text-white hover:from-purple-600 hover:to-pink-600 disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />} Sign in
+          </button>
+        </form>
+
+        {provider.devAccounts && (
+          <div className="mt-6 pt-4 border-t border-white/10">
+            <p className="text-xs text-gray-500 mb-2">Development accounts</p>
+            <div className="flex flex-wrap gap-1">
+              {provider.devAccounts.map(account => (
+                <button
+                  key={account.id}
+                  onClick={() => signInAs(account)}
+                  disabled={busy}
+                  className="px-2 py-1 bg-white/5 text-gray-300 rounded text-xs hover:text-white disabled:opacity-40"
+                  title={account.email}
+                >
+                  {account.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
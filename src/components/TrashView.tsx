@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Box, Loader2, RotateCcw, Trash2, X } from 'lucide-react'
+import { api, errorMessage } from '../api'
+import type { SavedModel } from '../api'
+import type { Permissions } from '../auth/permissions'
+
+export function TrashView({ permissions, onRestored }: { permissions: Permissions, onRestored: () => void }) {
+  const [models, setModels] = useState<SavedModel[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<number | null>(null)
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      setModels(await api.listTrash())
+    } catch (err) {
+      console.error('Failed to fetch trash:', err)
+      setError(`Failed to load trash: ${errorMessage(err)}`)
+      setModels([])
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTrash()
+  }, [fetchTrash])
+
+  const handleRestore = async (model: SavedModel) => {
+    setBusyId(model.id)
+    try {
+      await api.restoreModel(model.id)
+      setModels(prev => prev?.filter(m => m.id !== model.id) ?? null)
+      onRestored()
+    } catch (err) {
+      console.error('Failed to restore model:', err)
+      setError(`Failed to restore model: ${errorMessage(err)}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handlePurge = async (model: SavedModel) => {
+    // The one delete that can't be undone keeps its confirmation.
+    if (!confirm(`Permanently delete "${model.name}" and all its versions? This cannot be undone.`)) return
+    setBusyId(model.id)
+    try {
+      await api.purgeModel(model.id)
+      setModels(prev => prev?.filter(m => m.id !== model.id) ?? null)
+    } catch (err) {
+      console.error('Failed to delete model:', err)
+      setError(`Failed to delete model: ${errorMessage(err)}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-lg rounded-2xl p-6 border border-white/10">
+      <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
+        <Trash2 className="w-5 h-5 text-purple-400" /> Trash
+      </h2>
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-start justify-between gap-2">
+          <p className="text-red-400 text-sm">{error}</p>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-300">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      {models === null ? (
+        <div className="py-12 flex justify-center text-gray-500">
+          <Loader2 className="w-8 h-8 animate-spin opacity-50" />
+        </div>
+      ) : models.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <Trash2 className="w-16 h-16 mx-auto mb-4 opacity-30" />
+          <p>Trash is empty.</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-white/5">
+          {models.map(model => (
+            <li key={model.id} className="py-3 flex items-center gap-3">
+              <div className="w-12 h-12 bg-gray-800 rounded-lg flex items-center justify-center overflow-hidden shrink-0">
+                {model.thumbnail_url ? (
+                  <img src={model.thumbnail_url} alt={model.name} className="w-full h-full object-cover" />
+                ) : (
+                  <Box className="w-5 h-5 text-gray-600" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-white text-sm font-medium truncate">{model.name}</p>
+                <p className="text-gray-500 text-xs">
+                  Deleted {model.deleted_at ? new Date(model.deleted_at).toLocaleString() : ''}
+                </p>
+              </div>
+              {permissions.canEdit && (
+                <button
+                  onClick={() => handleRestore(model)}
+                  disabled={busyId === model.id}
+                  className="px-2 py-1 bg-green-500/20 text-green-400 rounded text-xs hover:bg-green-500/30 disabled:opacity-40 flex items-center gap-1"
+                >
+                  <RotateCcw className="w-3 h-3" /> Restore
+                </button>
+              )}
+              {permissions.canAdminister && (
+                <button
+                  onClick={() => handlePurge(model)}
+                  disabled={busyId === model.id}
+                  className="px-2 py-1 bg-red-500/20 text-red-400 rounded text-xs hover:bg-red-500/30 disabled:opacity-40"
+                >
+                  Delete forever
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+import { X } from 'lucide-react'
+import { useObjectUrl } from '../hooks/useObjectUrl'
+import type { ViewDefinition, ViewType } from '../views'
+
+export const TRAY_DRAG_TYPE = 'application/x-three-dee-tray-item'
+
+export interface TrayItem {
+  id: string
+  file: File
+}
+
+function TrayThumbnail({
+  item,
+  views,
+  onAssign,
+  onRemove,
+}: {
+  item: TrayItem
+  views: ViewDefinition[]
+  onAssign: (id: string, view: ViewType) => void
+  onRemove: (id: string) => void
+}) {
+  const url = useObjectUrl(item.file)
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(TRAY_DRAG_TYPE, item.id)
+        e.dataTransfer.effectAllowed = 'move'
+      }}
+      className="relative w-24 shrink-0 cursor-grab"
+    >
+      <div className="h-20 bg-black/30 rounded-lg overflow-hidden">
+        {url && <img src={url} alt={item.file.name} className="w-full h-full object-cover" />}
+      </div>
+      <button
+        onClick={() => onRemove(item.id)}
+        className="absolute top-1 right-1 bg-black/60 rounded-full p-0.5 hover:bg-red-500"
+        title="Discard"
+      >
+        <X className="w-3 h-3 text-white" />
+      </button>
+      <p className="mt-1 text-[10px] text-gray-500 truncate" title={item.file.name}>{item.file.name}</p>
+      <select
+        value=""
+        onChange={(e) => onAssign(item.id, e.target.value)}
+        className="w-full mt-1 px-1 py-0.5 bg-black/30 border border-gray-600 rounded text-[10px] text-gray-300"
+      >
+        <option value="" disabled>Assign to…</option>
+        {views.map(view => <option key={view.name} value={view.name}>{view.label}</option>)}
+      </select>
+    </div>
+  )
+}
+
+export function UnassignedTray({
+  items,
+  views,
+  onAssign,
+  onRemove,
+  onClear,
+}: {
+  items: TrayItem[]
+  views: ViewDefinition[]
+  onAssign: (id: string, view: ViewType) => void
+  onRemove: (id: string) => void
+  onClear: () => void
+}) {
+  return (
+    <div className="mt-4 p-3 bg-black/20 rounded-xl border border-white/10">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm text-gray-300">
+          Unassigned images <span className="text-gray-500">({items.length})</span>
+        </p>
+        <button onClick={onClear} className="text-xs text-gray-500 hover:text-white">Discard all</button>
+      </div>
+      <p className="text-xs text-gray-500 mb-2">Drag an image onto a view slot, or pick a view below it.</p>
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {items.map(item => (
+          <TrayThumbnail key={item.id} item={item} views={views} onAssign={onAssign} onRemove={onRemove} />
+        ))}
+      </div>
+    </div>
+  )
+}
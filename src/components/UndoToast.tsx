@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react'
+import { Undo2, X, Loader2 } from 'lucide-react'
+
+export function UndoToast({
+  message,
+  onUndo,
+  onDismiss,
+  durationMs = 8000,
+}: {
+  message: string
+  onUndo: () => Promise<void>
+  onDismiss: () => void
+  durationMs?: number
+}) {
+  const [undoing, setUndoing] = useState(false)
+
+  useEffect(() => {
+    if (undoing) return
+    const timer = setTimeout(onDismiss, durationMs)
+    return () => clearTimeout(timer)
+  }, [undoing, durationMs, onDismiss])
+
+  const handleUndo = async () => {
+    setUndoing(true)
+    try {
+      await onUndo()
+    } finally {
+      onDismiss()
+    }
+  }
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 min-w-[18rem] bg-gray-900 border border-white/10 rounded-xl shadow-2xl overflow-hidden">
+      <div className="flex items-center gap-3 px-4 py-3">
+        <p className="flex-1 text-sm text-white">{message}</p>
+        <button
+          onClick={handleUndo}
+          disabled={undoing}
+          className="px-2 py-1 bg-purple-500/20 text-purple-300 rounded text-sm hover:bg-purple-500/30 flex items-center gap-1"
+        >
+          {undoing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Undo2 className="w-4 h-4" />} Undo
+        </button>
+        <button onClick={onDismiss} className="p-1 text-gray-500 hover:text-white" title="Dismiss">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {!undoing && (
+        <div
+          className="h-0.5 bg-purple-500 origin-left"
+          style={{ animation: `toast-countdown ${durationMs}ms linear forwards` }}
+        />
+      )}
+    </div>
+  )
+}
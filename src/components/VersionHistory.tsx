@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react'
+import { History, Loader2, Eye, RotateCcw } from 'lucide-react'
+import { api, errorMessage } from '../api'
+import type { ModelVersion, ModelVersionChange } from '../api'
+
+const CHANGE_LABELS: Record<ModelVersionChange, string> = {
+  created: 'Created',
+  converted: 'Re-converted',
+  processed: 'Post-processed',
+  edited: 'Edited',
+  restored: 'Restored',
+}
+
+export function VersionHistory({
+  modelId,
+  currentVersion,
+  previewVersion,
+  onPreview,
+  onRestore,
+}: {
+  modelId: number
+  currentVersion: number
+  previewVersion: number | null
+  onPreview: (version: ModelVersion | null) => void
+  // Read-only when omitted.
+  onRestore?: (version: ModelVersion) => Promise<void>
+}) {
+  const [versions, setVersions] = useState<ModelVersion[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [restoring, setRestoring] = useState<number | null>(null)
+
+  // Refetch whenever the current version moves, e.g. after a restore or an edit elsewhere.
+  useEffect(() => {
+    const controller = new AbortController()
+    setError(null)
+    api.listVersions(modelId, controller.signal)
+      .then(setVersions)
+      .catch(err => {
+        if (controller.signal.aborted) return
+        console.error('Failed to load versions:', err)
+        setError(`Failed to load versions: ${errorMessage(err)}`)
+      })
+    return () => controller.abort()
+  }, [modelId, currentVersion])
+
+  const handleRestore = async (version: ModelVersion) => {
+    if (!onRestore) return
+    setRestoring(version.version)
+    try {
+      await onRestore(version)
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-300 mb-2 flex items-center gap-2">
+        <History className="w-4 h-4" /> Version history
+      </h3>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {!versions && !error && <Loader2 className="w-4 h-4 text-gray-500 animate-spin" />}
+      {versions && (
+        <ul className="space-y-1 max-h-56 overflow-y-auto">
+          {versions.map(version => {
+            const isCurrent = version.version === currentVersion
+            const isPreviewed = version.version === previewVersion
+            return (
+              <li
+                key={version.version}
+                className={`p-2 rounded-lg text-xs flex items-center gap-2 ${
+                  isPreviewed ? 'bg-purple-500/20' : 'bg-black/20'
+                }`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-white">
+                    v{version.version} · {CHANGE_LABELS[version.change]}
+                    {isCurrent && <span className="ml-1 text-green-400">(current)</span>}
+                  </p>
+                  <p className="text-gray-500 truncate" title={version.name}>
+                    {new Date(version.created_at).toLocaleString()} · {version.name}
+                  </p>
+                </div>
+                {!isCurrent && (
+                  <>
+                    <button
+                      onClick={() => onPreview(isPreviewed ? null : version)}
+                      className="p-1 text-gray-400 hover:text-white"
+                      title={isPreviewed ? 'Back to current version' : 'Preview this version'}
+                    >
+                      <Eye className="w-3 h-3" />
+                    </button>
+                    {onRestore && (
+                      <button
+                        onClick={() => handleRestore(version)}
+                        disabled={restoring !== null}
+                        className="p-1 text-gray-400 hover:text-white disabled:opacity-40"
+                        title="Restore this version"
+                      >
+                        {restoring === version.version ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                      </button>
+                    )}
+                  </>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
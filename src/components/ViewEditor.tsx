@@ -0,0 +1,281 @@
+import { useEffect, useRef, useState } from 'react'
+import type { PointerEvent } from 'react'
+import { FlipHorizontal, FlipVertical, Loader2, RotateCcw, RotateCw, X } from 'lucide-react'
+import { DEFAULT_ADJUSTMENT, drawAdjusted, drawGuideLine, loadImage } from '../editor/adjustment'
+import type { AlignmentGuides, ViewAdjustment } from '../editor/adjustment'
+import type { ViewDefinition, ViewType } from '../views'
+
+const CANVAS_SIZE = 480
+
+function normalizeRotation(degrees: number) {
+  return ((((degrees + 180) % 360) + 360) % 360) - 180
+}
+
+function useLoadedImage(file: File | null) {
+  const [image, setImage] = useState<HTMLImageElement | null>(null)
+  useEffect(() => {
+    setImage(null)
+    if (!file) return
+    let cancelled = false
+    loadImage(file)
+      .then(img => { if (!cancelled) setImage(img) })
+      .catch(err => console.error('Failed to load image for editor:', err))
+    return () => { cancelled = true }
+  }, [file])
+  return image
+}
+
+export function ViewEditor({
+  view,
+  source,
+  initialAdjustment,
+  references,
+  guides,
+  onGuidesChange,
+  onApply,
+  onClose,
+}: {
+  view: ViewDefinition
+  source: File
+  initialAdjustment: ViewAdjustment
+  references: { view: ViewDefinition, file: File }[]
+  guides: AlignmentGuides
+  onGuidesChange: (guides: AlignmentGuides) => void
+  onApply: (adjustment: ViewAdjustment) => Promise<void>
+  onClose: () => void
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const dragRef = useRef<{ x: number, y: number } | null>(null)
+  const [adjustment, setAdjustment] = useState(initialAdjustment)
+  const [referenceView, setReferenceView] = useState<ViewType | null>(references[0]?.view.name ?? null)
+  const [overlayOpacity, setOverlayOpacity] = useState(0.35)
+  const [applying, setApplying] = useState(false)
+  const image = useLoadedImage(source)
+  const reference = useLoadedImage(references.find(r => r.view.name === referenceView)?.file ?? null)
+
+  const update = (patch: Partial<ViewAdjustment>) => setAdjustment(prev => ({ ...prev, ...patch }))
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d')
+    if (!ctx) return
+    ctx.fillStyle = '#1f2937'
+    ctx.fillRect(0, 0, CANVAS_SIZE, CANVAS_SIZE)
+    if (image) drawAdjusted(ctx, image, CANVAS_SIZE, adjustment)
+    if (reference) {
+      ctx.globalAlpha = overlayOpacity
+      drawAdjusted(ctx, reference, CANVAS_SIZE, DEFAULT_ADJUSTMENT)
+      ctx.globalAlpha = 1
+    }
+    drawGuideLine(ctx, '#f472b6', [CANVAS_SIZE / 2, 0], [CANVAS_SIZE / 2, CANVAS_SIZE], 'center')
+    drawGuideLine(ctx, '#4ade80', [0, guides.groundLine * CANVAS_SIZE], [CANVAS_SIZE, guides.groundLine * CANVAS_SIZE], 'ground')
+    drawGuideLine(ctx, '#60a5fa', [0, guides.topLine * CANVAS_SIZE], [CANVAS_SIZE, guides.topLine * CANVAS_SIZE], 'top')
+  }, [image, reference, adjustment, overlayOpacity, guides])
+
+  // React registers wheel listeners as passive, which would let the page scroll behind the modal.
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      setAdjustment(prev => ({ ...prev, scale: Math.min(8, Math.max(0.1, prev.scale * Math.exp(-e.deltaY * 0.001))) }))
+    }
+    canvas.addEventListener('wheel', onWheel, { passive: false })
+    return () => canvas.removeEventListener('wheel', onWheel)
+  }, [])
+
+  const onPointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragRef.current = { x: e.clientX, y: e.clientY }
+  }
+
+  const onPointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const dx = (e.clientX - dragRef.current.x) / rect.width
+    const dy = (e.clientY - dragRef.current.y) / rect.height
+    dragRef.current = { x: e.clientX, y: e.clientY }
+    setAdjustment(prev => ({ ...prev, offsetX: prev.offsetX + dx, offsetY: prev.offsetY + dy }))
+  }
+
+  const handleApply = async () => {
+    setApplying(true)
+    try {
+      await onApply(adjustment)
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-gray-900 rounded-2xl p-6 border border-white/10 w-full max-w-4xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white">Frame {view.label} view</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[auto_1fr] gap-6">
+          <div>
+            <canvas
+              ref={canvasRef}
+              width={CANVAS_SIZE}
+              height={CANVAS_SIZE}
+              onPointerDown={onPointerDown}
+              onPointerMove={onPointerMove}
+              onPointerUp={() => { dragRef.current = null }}
+              className="w-full max-w-[480px] aspect-square rounded-lg cursor-move touch-none"
+            />
+            <p className="mt-2 text-xs text-gray-500">
+              Drag to position, scroll to zoom. The square frame is the crop that gets uploaded.
+            </p>
+          </div>
+
+          <div className="space-y-4 text-sm">
+            <div className="flex gap-2">
+              <button
+                onClick={() => update({ rotation: normalizeRotation(adjustment.rotation - 90) })}
+                className="p-2 bg-white/5 text-gray-300 rounded-lg hover:bg-white/10"
+                title="Rotate left"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => update({ rotation: normalizeRotation(adjustment.rotation + 90) })}
+                className="p-2 bg-white/5 text-gray-300 rounded-lg hover:bg-white/10"
+                title="Rotate right"
+              >
+                <RotateCw className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => update({ flipX: !adjustment.flipX })}
+                className={`p-2 rounded-lg ${adjustment.flipX ? 'bg-purple-500 text-white' : 'bg-white/5 text-gray-300 hover:bg-white/10'}`}
+                title="Flip horizontally"
+              >
+                <FlipHorizontal className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => update({ flipY: !adjustment.flipY })}
+                className={`p-2 rounded-lg ${adjustment.flipY ? 'bg-purple-500 text-white' : 'bg-white/5 text-gray-300 hover:bg-white/10'}`}
+                title="Flip vertically"
+              >
+                <FlipVertical className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setAdjustment(DEFAULT_ADJUSTMENT)}
+                className="ml-auto px-3 py-2 bg-white/5 text-gray-400 rounded-lg hover:text-white text-xs"
+              >
+                Reset
+              </button>
+            </div>
+
+            <label className="block text-gray-300">
+              Rotation <span className="text-gray-500">{Math.round(adjustment.rotation)}°</span>
+              <input
+                type="range"
+                min={-180}
+                max={180}
+                step={0.5}
+                value={adjustment.rotation}
+                onChange={(e) => update({ rotation: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+
+            <label className="block text-gray-300">
+              Scale <span className="text-gray-500">{adjustment.scale.toFixed(2)}×</span>
+              <input
+                type="range"
+                min={0.1}
+                max={8}
+                step={0.01}
+                value={adjustment.scale}
+                onChange={(e) => update({ scale: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+
+            <div className="pt-2 border-t border-white/10 space-y-2">
+              <p className="text-gray-300 font-medium">Alignment guides</p>
+              <p className="text-xs text-gray-500">Shared by all views: rest the subject on the ground line and touch the top line in every view.</p>
+              <label className="block text-gray-400">
+                Ground line
+                <input
+                  type="range"
+                  min={0.5}
+                  max={1}
+                  step={0.005}
+                  value={guides.groundLine}
+                  onChange={(e) => onGuidesChange({ ...guides, groundLine: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+              <label className="block text-gray-400">
+                Top line
+                <input
+                  type="range"
+                  min={0}
+                  max={0.5}
+                  step={0.005}
+                  value={guides.topLine}
+                  onChange={(e) => onGuidesChange({ ...guides, topLine: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+            </div>
+
+            {references.length > 0 && (
+              <div className="pt-2 border-t border-white/10 space-y-2">
+                <p className="text-gray-300 font-medium">Compare with</p>
+                <div className="flex gap-1 flex-wrap">
+                  {references.map(r => (
+                    <button
+                      key={r.view.name}
+                      onClick={() => setReferenceView(referenceView === r.view.name ? null : r.view.name)}
+                      className={`px-3 py-1 rounded-lg ${
+                        referenceView === r.view.name ? 'bg-purple-500 text-white' : 'bg-white/5 text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {r.view.label}
+                    </button>
+                  ))}
+                </div>
+                {referenceView && (
+                  <label className="block text-gray-400">
+                    Overlay opacity
+                    <input
+                      type="range"
+                      min={0.05}
+                      max={0.9}
+                      step={0.05}
+                      value={overlayOpacity}
+                      onChange={(e) => setOverlayOpacity(Number(e.target.value))}
+                      className="w-full"
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2 pt-2">
+              <button
+                onClick={handleApply}
+                disabled={applying || !image}
+                className="flex-1 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {applying && <Loader2 className="w-4 h-4 animate-spin" />} Apply
+              </button>
+              <button onClick={onClose} className="flex-1 py-2 bg-white/5 text-gray-300 rounded-lg hover:bg-white/10">
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+import { useCallback } from 'react'
+import type { DragEvent } from 'react'
+import { useDropzone } from 'react-dropzone'
+import { Upload, X, Loader2, Wand2, AlertTriangle, AlertCircle, Crop } from 'lucide-react'
+import { useObjectUrl } from '../hooks/useObjectUrl'
+import type { PreprocessResult } from '../preprocess/pipeline'
+import type { ViewIssue } from '../validation/uploadChecks'
+import { TRAY_DRAG_TYPE } from './UnassignedTray'
+import type { ViewDefinition, ViewType } from '../views'
+
+export function ViewUploadField({
+  definition,
+  file,
+  onFileChange,
+  processed,
+  processing = false,
+  processError,
+  onShowProcessing,
+  onEdit,
+  edited = false,
+  onRemoveView,
+  onTrayDrop,
+  issues = [],
+}: {
+  definition: ViewDefinition
+  file: File | null
+  onFileChange: (view: ViewType, file: File | null) => void
+  processed?: PreprocessResult
+  processing?: boolean
+  processError?: string
+  onShowProcessing?: (view: ViewType) => void
+  onEdit?: (view: ViewType) => void
+  edited?: boolean
+  onRemoveView?: (view: ViewType) => void
+  onTrayDrop?: (view: ViewType, itemId: string) => void
+  issues?: ViewIssue[]
+}) {
+  const view = definition.name
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    if (acceptedFiles.length > 0) {
+      onFileChange(view, acceptedFiles[0])
+    }
+  }, [view, onFileChange])
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: { 'image/*': ['.png', '.jpg', '.jpeg', '.webp'] },
+    maxFiles: 1
+  })
+
+  // Tray items are in-page drags rather than files, so handle them before react-dropzone sees the event.
+  const isTrayDrag = (e: DragEvent) => !!onTrayDrop && e.dataTransfer.types.includes(TRAY_DRAG_TYPE)
+  const trayHandlers = {
+    onDragOver: (e: DragEvent) => {
+      if (!isTrayDrag(e)) return
+      e.preventDefault()
+      e.stopPropagation()
+    },
+    onDrop: (e: DragEvent) => {
+      if (!isTrayDrag(e)) return
+      e.preventDefault()
+      e.stopPropagation()
+      onTrayDrop!(view, e.dataTransfer.getData(TRAY_DRAG_TYPE))
+    },
+  }
+
+  const preview = useObjectUrl(processed?.file ?? file)
+  const hasError = issues.some(issue => issue.severity === 'error')
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-center justify-between mb-1">
+        <label className="text-sm font-medium text-gray-300" title={`Azimuth ${definition.azimuth}°, elevation ${definition.elevation}°`}>
+          {definition.label} {definition.required && <span className="text-red-400">*</span>}
+        </label>
+        {onRemoveView && !definition.required && (
+          <button onClick={() => onRemoveView(view)} className="text-gray-500 hover:text-white" title="Remove view">
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      <div
+        {...getRootProps(trayHandlers)}
+        className={`
+          relative h-24 border-2 border-dashed rounded-lg cursor-pointer transition-all overflow-hidden
+          ${isDragActive ? 'border-purple-400 bg-purple-400/10' : 'border-gray-600 hover:border-purple-400'}
+          ${file ? (hasError ? 'border-red-500/70' : 'border-green-500/50') : ''}
+        `}
+      >
+        <input {...getInputProps()} />
+        {file && preview ? (
+          <>
+            <img src={preview} alt={definition.label} className="w-full h-full object-cover" />
+            <button
+              onClick={(e) => { e.stopPropagation(); onFileChange(view, null); }}
+              className="absolute top-1 right-1 bg-red-500 rounded-full p-1 hover:bg-red-600"
+            >
+              <X className="w-3 h-3 text-white" />
+            </button>
+            {onEdit && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onEdit(view); }}
+                className={`absolute top-1 left-1 rounded-full p-1 ${edited ? 'bg-purple-500 hover:bg-purple-600' : 'bg-black/60 hover:bg-black/80'}`}
+                title="Crop and align"
+              >
+                <Crop className="w-3 h-3 text-white" />
+              </button>
+            )}
+            {processing && (
+              <span className="absolute bottom-1 left-1 bg-black/60 rounded-full p-1" title="Preprocessing...">
+                <Loader2 className="w-3 h-3 text-purple-300 animate-spin" />
+              </span>
+            )}
+            {processed && onShowProcessing && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onShowProcessing(view); }}
+                className="absolute bottom-1 left-1 bg-purple-500 rounded-full p-1 hover:bg-purple-600"
+                title="Show preprocessing steps"
+              >
+                <Wand2 className="w-3 h-3 text-white" />
+              </button>
+            )}
+            {processError && (
+              <span className="absolute bottom-1 left-1 bg-yellow-500 rounded-full p-1" title={`Preprocessing failed, the original will be uploaded: ${processError}`}>
+                <AlertTriangle className="w-3 h-3 text-black" />
+              </span>
+            )}
+          </>
+        ) : (
+          <div className="h-full flex flex-col items-center justify-center text-gray-500">
+            <Upload className="w-5 h-5 mb-1" />
+            <span className="text-xs">{definition.label}</span>
+          </div>
+        )}
+      </div>
+      {file && issues.length > 0 && (
+        <ul className="mt-1 space-y-0.5">
+          {issues.map(issue => (
+            <li
+              key={issue.message}
+              className={`flex items-start gap-1 text-[11px] leading-tight ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}
+            >
+              {issue.severity === 'error'
+                ? <AlertCircle className="w-3 h-3 shrink-0 mt-px" />
+                : <AlertTriangle className="w-3 h-3 shrink-0 mt-px" />}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+import { useState } from 'react'
+import type { ReactNode } from 'react'
+import { BarChart3, Box as BoxIcon, Grid3x3, Move3d, RefreshCw, RotateCw, SunMoon, Layers, SlidersHorizontal, MapPin } from 'lucide-react'
+import type { Vector3 } from 'three'
+import { SHADING_MODES, formatBytes, formatLength } from '../viewer/inspection'
+import type { MeshStats } from '../viewer/inspection'
+import type { ViewerBackground, ViewerSettings } from './ModelViewer'
+
+const BACKGROUNDS: ViewerBackground[] = ['none', 'dark', 'light']
+
+function ToolButton({
+  active = false,
+  title,
+  onClick,
+  children,
+}: {
+  active?: boolean
+  title: string
+  onClick: () => void
+  children: ReactNode
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className={`p-1.5 rounded-md ${active ? 'bg-purple-500 text-white' : 'bg-black/50 text-gray-300 hover:text-white'}`}
+    >
+      {children}
+    </button>
+  )
+}
+
+export function ViewerToolbar({
+  settings,
+  onChange,
+  onResetCamera,
+  sceneOpen,
+  onToggleScene,
+  annotationsOpen,
+  onToggleAnnotations,
+  stats,
+  size,
+  fileSize,
+}: {
+  settings: ViewerSettings
+  onChange: (settings: ViewerSettings) => void
+  onResetCamera: () => void
+  sceneOpen: boolean
+  onToggleScene: () => void
+  annotationsOpen: boolean
+  onToggleAnnotations: () => void
+  stats: MeshStats | null
+  size: Vector3 | null
+  fileSize: number | null
+}) {
+  const [shadingOpen, setShadingOpen] = useState(false)
+  const toggle = (key: 'autoRotate' | 'showGrid' | 'showAxes' | 'showBounds' | 'showStats') =>
+    onChange({ ...settings, [key]: !settings[key] })
+  const nextBackground = BACKGROUNDS[(BACKGROUNDS.indexOf(settings.background) + 1) % BACKGROUNDS.length]
+
+  return (
+    <>
+      <div className="absolute top-2 left-2 flex flex-wrap gap-1 text-xs">
+        <div className="relative">
+          <ToolButton title="Shading mode" active={settings.shading !== 'solid'} onClick={() => setShadingOpen(!shadingOpen)}>
+            <Layers className="w-4 h-4" />
+          </ToolButton>
+          {shadingOpen && (
+            <div className="absolute z-10 mt-1 w-36 p-1 bg-gray-900 border border-white/10 rounded-lg">
+              {SHADING_MODES.map(({ mode, label }) => (
+                <button
+                  key={mode}
+                  onClick={() => { onChange({ ...settings, shading: mode }); setShadingOpen(false); }}
+                  className={`w-full text-left px-2 py-1 rounded ${
+                    settings.shading === mode ? 'bg-purple-500 text-white' : 'text-gray-300 hover:bg-white/10'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <ToolButton title="Auto-rotate" active={settings.autoRotate} onClick={() => toggle('autoRotate')}>
+          <RotateCw className="w-4 h-4" />
+        </ToolButton>
+        <ToolButton title="Grid" active={settings.showGrid} onClick={() => toggle('showGrid')}>
+          <Grid3x3 className="w-4 h-4" />
+        </ToolButton>
+        <ToolButton title="Axes" active={settings.showAxes} onClick={() => toggle('showAxes')}>
+          <Move3d className="w-4 h-4" />
+        </ToolButton>
+        <ToolButton title="Bounding box and dimensions" active={settings.showBounds} onClick={() => toggle('showBounds')}>
+          <BoxIcon className="w-4 h-4" />
+        </ToolButton>
+        <ToolButton title={`Background: ${settings.background}`} active={settings.background !== 'none'} onClick={() => onChange({ ...settings, background: nextBackground })}>
+          <SunMoon className="w-4 h-4" />
+        </ToolButton>
+        <ToolButton title="Mesh statistics" active={settings.showStats} onClick={() => toggle('showStats')}>
+          <BarChart3 className="w-4 h-4" />
+        </ToolButton>
+        <ToolButton title="Scene: lighting, tone mapping and materials" active={sceneOpen} onClick={onToggleScene}>
+          <SlidersHorizontal className="w-4 h-4" />
+        </ToolButton>
+        <ToolButton title="Annotations and measurements" active={annotationsOpen} onClick={onToggleAnnotations}>
+          <MapPin className="w-4 h-4" />
+        </ToolButton>
+        <ToolButton title="Reset camera" onClick={onResetCamera}>
+          <RefreshCw className="w-4 h-4" />
+        </ToolButton>
+      </div>
+
+      {settings.showBounds && size && (
+        <div className="absolute bottom-2 right-2 px-2 py-1 bg-black/60 rounded-md text-xs text-pink-300 font-mono">
+          {formatLength(size.x)} × {formatLength(size.y)} × {formatLength(size.z)}
+        </div>
+      )}
+
+      {settings.showStats && stats && (
+        <div className="absolute bottom-2 left-2 max-w-[60%] px-3 py-2 bg-black/70 rounded-md text-xs text-gray-300 font-mono space-y-0.5">
+          <p>Triangles: {stats.triangles.toLocaleString()}</p>
+          <p>Vertices: {stats.vertices.toLocaleString()}</p>
+          <p>Meshes: {stats.meshes} · Materials: {stats.materials}</p>
+          <p>File size: {fileSize !== null ? formatBytes(fileSize) : 'unknown'}</p>
+          {stats.textures.length === 0 ? (
+            <p>Textures: none</p>
+          ) : (
+            <p className="truncate" title={stats.textures.map(t => `${t.name} ${t.width}×${t.height}`).join('\n')}>
+              Textures: {stats.textures.map(t => `${t.width}×${t.height}`).join(', ')}
+            </p>
+          )}
+          {settings.shading === 'vertexColors' && !stats.hasVertexColors && <p className="text-yellow-400">No vertex colors in this mesh</p>}
+          {settings.shading === 'uv' && !stats.hasUVs && <p className="text-yellow-400">No UVs in this mesh</p>}
+        </div>
+      )}
+    </>
+  )
+}
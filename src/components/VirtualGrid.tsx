@@ -0,0 +1,89 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react'
+import type { ReactNode } from 'react'
+
+const OVERSCAN_ROWS = 2
+
+// Renders only the rows in (or near) the scroll viewport; every cell gets the same fixed height.
+export function VirtualGrid<T>({
+  items,
+  itemKey,
+  renderItem,
+  rowHeight,
+  minColumnWidth,
+  gap = 16,
+  height,
+  onEndReached,
+  footer,
+}: {
+  items: T[]
+  itemKey: (item: T) => string | number
+  renderItem: (item: T) => ReactNode
+  rowHeight: number
+  minColumnWidth: number
+  gap?: number
+  height: number | string
+  onEndReached?: () => void
+  footer?: ReactNode
+}) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [width, setWidth] = useState(0)
+  const [viewportHeight, setViewportHeight] = useState(0)
+  const [scrollTop, setScrollTop] = useState(0)
+
+  useLayoutEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const measure = () => {
+      setWidth(container.clientWidth)
+      setViewportHeight(container.clientHeight)
+    }
+    measure()
+    const observer = new ResizeObserver(measure)
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const columns = Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)))
+  const rowCount = Math.ceil(items.length / columns)
+  const rowStride = rowHeight + gap
+  const contentHeight = Math.max(0, rowCount * rowStride - gap)
+  const firstRow = Math.max(0, Math.floor(scrollTop / rowStride) - OVERSCAN_ROWS)
+  const lastRow = Math.min(rowCount - 1, Math.ceil((scrollTop + viewportHeight) / rowStride) + OVERSCAN_ROWS)
+
+  // Ask for more once the last loaded row is about to scroll into view, or when the loaded rows don't fill the viewport.
+  const nearEnd = width > 0 && lastRow >= rowCount - 1 - OVERSCAN_ROWS
+  const onEndReachedRef = useRef(onEndReached)
+  onEndReachedRef.current = onEndReached
+  useEffect(() => {
+    if (nearEnd) onEndReachedRef.current?.()
+  }, [nearEnd, items.length])
+
+  const rows: ReactNode[] = []
+  for (let row = firstRow; row <= lastRow; row++) {
+    rows.push(
+      <div
+        key={row}
+        className="absolute inset-x-0 grid"
+        style={{ top: row * rowStride, height: rowHeight, gap, gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+      >
+        {items.slice(row * columns, (row + 1) * columns).map(item => (
+          <div key={itemKey(item)} className="min-h-0">{renderItem(item)}</div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="overflow-y-auto pr-1"
+      style={{ height }}
+    >
+      <div className="relative" style={{ height: contentHeight }}>
+        {rows}
+      </div>
+      {footer}
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+import type { ConversionSettings, OutputFormat, SymmetryHint } from '../api'
+
+export interface ConversionPreset {
+  id: string
+  name: string
+  settings: ConversionSettings
+  builtIn?: boolean
+}
+
+export const OUTPUT_FORMATS: { value: OutputFormat, label: string }[] = [
+  { value: 'glb', label: 'GLB (binary glTF)' },
+  { value: 'obj', label: 'OBJ' },
+  { value: 'stl', label: 'STL (3D printing)' },
+  { value: 'usdz', label: 'USDZ (AR Quick Look)' },
+]
+
+export const SYMMETRY_HINTS: { value: SymmetryHint, label: string }[] = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'none', label: 'Not symmetric' },
+  { value: 'left-right', label: 'Left matches right' },
+  { value: 'front-back', label: 'Front matches back' },
+]
+
+export const TEXTURE_RESOLUTIONS = [512, 1024, 2048, 4096]
+
+export const POLYGON_BUDGET = { min: 1_000, max: 500_000 }
+
+export const DEFAULT_CONVERSION_SETTINGS: ConversionSettings = {
+  target_polygons: 50_000,
+  texture_resolution: 2048,
+  remesh: false,
+  output_format: 'glb',
+  symmetry: 'auto',
+}
+
+export const BUILT_IN_PRESETS: ConversionPreset[] = [
+  {
+    id: 'draft',
+    name: 'Draft',
+    builtIn: true,
+    settings: { target_polygons: 5_000, texture_resolution: 512, remesh: false, output_format: 'glb', symmetry: 'auto' },
+  },
+  {
+    id: 'print-ready',
+    name: 'Print-ready',
+    builtIn: true,
+    // Printers want a closed, evenly tessellated surface and ignore textures.
+    settings: { target_polygons: 200_000, texture_resolution: 512, remesh: true, output_format: 'stl', symmetry: 'auto' },
+  },
+  {
+    id: 'web-light',
+    name: 'Web-light',
+    builtIn: true,
+    settings: { target_polygons: 20_000, texture_resolution: 1024, remesh: true, output_format: 'glb', symmetry: 'auto' },
+  },
+]
+
+const STORAGE_KEY = 'three-dee:conversion-presets'
+
+// Presets come from localStorage and share links, so anything malformed falls back to the defaults field by field.
+export function normalizeSettings(value: unknown): ConversionSettings {
+  const raw = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {}
+  const polygons = Number(raw.target_polygons)
+  const texture = Number(raw.texture_resolution)
+  return {
+    target_polygons: Number.isFinite(polygons)
+      ? Math.round(Math.min(POLYGON_BUDGET.max, Math.max(POLYGON_BUDGET.min, polygons)))
+      : DEFAULT_CONVERSION_SETTINGS.target_polygons,
+    texture_resolution: TEXTURE_RESOLUTIONS.includes(texture) ? texture : DEFAULT_CONVERSION_SETTINGS.texture_resolution,
+    remesh: typeof raw.remesh === 'boolean' ? raw.remesh : DEFAULT_CONVERSION_SETTINGS.remesh,
+    output_format: OUTPUT_FORMATS.find(format => format.value === raw.output_format)?.value ?? DEFAULT_CONVERSION_SETTINGS.output_format,
+    symmetry: SYMMETRY_HINTS.find(hint => hint.value === raw.symmetry)?.value ?? DEFAULT_CONVERSION_SETTINGS.symmetry,
+  }
+}
+
+export function loadPresets(): ConversionPreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]') as ConversionPreset[]
+    return stored.map(preset => ({ id: preset.id, name: preset.name, settings: normalizeSettings(preset.settings) }))
+  } catch {
+    return []
+  }
+}
+
+export function savePresets(presets: ConversionPreset[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.filter(preset => !preset.builtIn)))
+}
+
+export function createPreset(name: string, settings: ConversionSettings): ConversionPreset {
+  return { id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`, name, settings }
+}
+
+export function sameSettings(a: ConversionSettings, b: ConversionSettings) {
+  return (Object.keys(a) as (keyof ConversionSettings)[]).every(key => a[key] === b[key])
+}
+
+// A preset travels as base64url JSON in the create page's ?preset= parameter.
+export function presetShareCode({ name, settings }: ConversionPreset) {
+  const bytes = new TextEncoder().encode(JSON.stringify({ name, settings }))
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export function presetFromShareCode(code: string): ConversionPreset | null {
+  try {
+    const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'))
+    const raw = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0))))
+    const name = typeof raw?.name === 'string' ? raw.name.trim().slice(0, 60) : ''
+    return name ? createPreset(name, normalizeSettings(raw.settings)) : null
+  } catch {
+    return null
+  }
+}
+
+export function formatPolygons(count: number) {
+  return count >= 1000 ? `${Math.round(count / 100) / 10}k` : String(count)
+}
+
+export function describeSettings(settings: ConversionSettings) {
+  return [
+    `${formatPolygons(settings.target_polygons)} polys`,
+    `${settings.texture_resolution}px textures`,
+    settings.remesh ? 'remeshed' : null,
+    settings.output_format.toUpperCase(),
+    settings.symmetry !== 'auto' ? SYMMETRY_HINTS.find(hint => hint.value === settings.symmetry)?.label.toLowerCase() : null,
+  ].filter(Boolean).join(' · ')
+}
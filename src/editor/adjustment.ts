@@ -0,0 +1,103 @@
+export interface ViewAdjustment {
+  rotation: number
+  flipX: boolean
+  flipY: boolean
+  scale: number
+  offsetX: number
+  offsetY: number
+}
+
+export interface AlignmentGuides {
+  groundLine: number
+  topLine: number
+}
+
+export const DEFAULT_ADJUSTMENT: ViewAdjustment = {
+  rotation: 0,
+  flipX: false,
+  flipY: false,
+  scale: 1,
+  offsetX: 0,
+  offsetY: 0,
+}
+
+export const DEFAULT_GUIDES: AlignmentGuides = { groundLine: 0.9, topLine: 0.1 }
+
+const MAX_OUTPUT_SIZE = 2048
+
+const framedFiles = new WeakSet<File>()
+
+// Files produced by the editor are already framed by hand, so automatic re-centering must leave them alone.
+export function isManuallyFramed(file: File) {
+  return framedFiles.has(file)
+}
+
+export function loadImage(file: Blob) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(image)
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('Failed to decode image'))
+    }
+    image.src = url
+  })
+}
+
+// At scale 1 the image is fitted inside the square frame; offsets are fractions of the frame size.
+export function drawAdjusted(
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  size: number,
+  adjustment: ViewAdjustment,
+) {
+  const fit = size / Math.max(image.naturalWidth, image.naturalHeight)
+  const width = image.naturalWidth * fit * adjustment.scale
+  const height = image.naturalHeight * fit * adjustment.scale
+  ctx.save()
+  ctx.translate(size / 2 + adjustment.offsetX * size, size / 2 + adjustment.offsetY * size)
+  ctx.rotate((adjustment.rotation * Math.PI) / 180)
+  ctx.scale(adjustment.flipX ? -1 : 1, adjustment.flipY ? -1 : 1)
+  ctx.drawImage(image, -width / 2, -height / 2, width, height)
+  ctx.restore()
+}
+
+export function drawGuideLine(ctx: CanvasRenderingContext2D, color: string, from: [number, number], to: [number, number], label: string) {
+  ctx.save()
+  ctx.strokeStyle = color
+  ctx.fillStyle = color
+  ctx.lineWidth = 1.5
+  ctx.setLineDash([6, 4])
+  ctx.beginPath()
+  ctx.moveTo(...from)
+  ctx.lineTo(...to)
+  ctx.stroke()
+  ctx.font = '11px sans-serif'
+  ctx.fillText(label, from[0] + 4, from[1] - 4)
+  ctx.restore()
+}
+
+export async function renderAdjustedFile(source: File, adjustment: ViewAdjustment, background = '#ffffff') {
+  const image = await loadImage(source)
+  const size = Math.min(MAX_OUTPUT_SIZE, Math.max(image.naturalWidth, image.naturalHeight))
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas 2D is not supported in this browser')
+  ctx.imageSmoothingQuality = 'high'
+  ctx.fillStyle = background
+  ctx.fillRect(0, 0, size, size)
+  drawAdjusted(ctx, image, size, adjustment)
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(b => (b ? resolve(b) : reject(new Error('Failed to encode image'))), 'image/jpeg', 0.92)
+  })
+  const file = new File([blob], `${source.name.replace(/\.[^.]+$/, '')}-framed.jpg`, { type: 'image/jpeg' })
+  framedFiles.add(file)
+  return file
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { api, errorMessage, HttpError } from '../api'
+import { ModelViewer } from '../components/ModelViewer'
+import type { ViewerSettings } from '../components/ModelViewer'
+import { viewDirectionPosition } from '../viewer/cameraSync'
+import { sceneSettingsFromJson } from '../viewer/sceneSettings'
+import type { SceneSettings } from '../viewer/sceneSettings'
+import { viewDefinitionByName } from '../views'
+import { routePath } from '../router/routes'
+import type { EmbedOptions } from './embedOptions'
+
+// Matches the app viewer's default camera distance.
+const CAMERA_DISTANCE = 4
+
+interface EmbeddedModel {
+  url: string
+  shareToken: string | null
+  name: string | null
+  sceneSettings: SceneSettings
+}
+
+function backgroundSettings(background: EmbedOptions['background']): { settings: Partial<ViewerSettings>, color?: string } {
+  if (background === 'transparent') return { settings: { background: 'none' } }
+  if (background === 'dark' || background === 'light') return { settings: { background } }
+  return { settings: { background: 'none' }, color: background }
+}
+
+export function EmbedViewer({ options }: { options: EmbedOptions }) {
+  const [model, setModel] = useState<EmbeddedModel | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (options.modelId === null) {
+      if (options.modelUrl) setModel({ url: options.modelUrl, shareToken: null, name: null, sceneSettings: sceneSettingsFromJson(null) })
+      else setError('No model specified. Add ?model=<id> or ?url=<glb url> to the embed link.')
+      return
+    }
+    const controller = new AbortController()
+    const { shareToken } = options
+    const load = shareToken
+      ? api.getSharedModel(shareToken, controller.signal)
+      : api.getModel(options.modelId, controller.signal)
+    load
+      .then(saved => {
+        if (saved.deleted_at) setError('This model is no longer available.')
+        else setModel({ url: saved.model_url, shareToken, name: saved.name, sceneSettings: sceneSettingsFromJson(saved.scene_settings) })
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return
+        console.error('Failed to load model:', err)
+        setError(err instanceof HttpError && err.status === 404
+          ? 'This model is no longer available.'
+          : `Failed to load model: ${errorMessage(err)}`)
+      })
+    return () => controller.abort()
+  }, [options.modelId, options.modelUrl, options.shareToken])
+
+  if (error || !model) {
+    return (
+      <div className="h-full flex items-center justify-center p-4 text-sm text-center">
+        {error ? <p className="text-red-400">{error}</p> : <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />}
+      </div>
+    )
+  }
+
+  const view = options.camera ? viewDefinitionByName(options.camera) : null
+  const background = backgroundSettings(options.background)
+
+  return (
+    <div className="relative h-full">
+      <ModelViewer
+        modelUrl={api.proxyGlbUrl(model.url, model.shareToken)}
+        inspectable={false}
+        initialSceneSettings={options.lighting ? { ...model.sceneSettings, environment: options.lighting } : model.sceneSettings}
+        backgroundColor={background.color}
+        initialSettings={{ ...background.settings, autoRotate: options.autoRotate }}
+        cameraPosition={view ? viewDirectionPosition(view.azimuth, view.elevation, CAMERA_DISTANCE) : undefined}
+      />
+      {model.name && options.modelId !== null && (
+        <a
+          href={routePath({ name: 'model', modelId: options.modelId })}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="absolute left-2 bottom-2 px-2 py-1 bg-black/50 text-gray-200 text-xs rounded hover:text-white"
+        >
+          {model.name}
+        </a>
+      )}
+    </div>
+  )
+}
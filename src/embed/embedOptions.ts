@@ -0,0 +1,78 @@
+import { isLightingPresetName } from '../viewer/lighting'
+import type { LightingPresetName } from '../viewer/lighting'
+import { viewDefinitionByName } from '../views'
+import type { ViewType } from '../views'
+
+export const EMBED_PATH = '/embed.html'
+
+export type EmbedBackground = 'transparent' | 'dark' | 'light' | string
+
+export interface EmbedOptions {
+  // Exactly one of modelId and modelUrl identifies what to show; the id wins if both are set.
+  modelId: number | null
+  modelUrl: string | null
+  // Lets a saved model load without a session; links to a bare model id only work for signed-in members.
+  shareToken: string | null
+  // Overrides the environment saved with the model; null keeps it.
+  lighting: LightingPresetName | null
+  background: EmbedBackground
+  autoRotate: boolean
+  // A view name as used for source images, e.g. "front-right" or "custom-30-20".
+  camera: ViewType | null
+}
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = {
+  modelId: null,
+  modelUrl: null,
+  shareToken: null,
+  lighting: null,
+  background: 'transparent',
+  autoRotate: true,
+  camera: null,
+}
+
+const HEX_COLOR = /^#[0-9a-f]{3}([0-9a-f]{3})?$/i
+
+function parseBackground(value: string | null): EmbedBackground {
+  if (value === 'dark' || value === 'light' || value === 'transparent') return value
+  if (value && HEX_COLOR.test(value)) return value
+  return DEFAULT_EMBED_OPTIONS.background
+}
+
+// Unknown or malformed values fall back to the defaults; embeds are pasted by hand and shouldn't break on a typo.
+export function embedOptionsFromParams(params: URLSearchParams): EmbedOptions {
+  const modelId = Number(params.get('model'))
+  const lighting = params.get('lighting') ?? ''
+  const camera = params.get('camera')
+  return {
+    modelId: Number.isInteger(modelId) && modelId > 0 ? modelId : null,
+    modelUrl: params.get('url') || null,
+    shareToken: params.get('share') || null,
+    lighting: isLightingPresetName(lighting) ? lighting : DEFAULT_EMBED_OPTIONS.lighting,
+    background: parseBackground(params.get('bg')),
+    autoRotate: params.get('rotate') !== '0',
+    camera: camera && viewDefinitionByName(camera) ? camera : null,
+  }
+}
+
+// Only non-default options are written, so shared links stay short.
+export function embedOptionsToParams(options: EmbedOptions): URLSearchParams {
+  const params = new URLSearchParams()
+  if (options.modelId !== null) params.set('model', String(options.modelId))
+  else if (options.modelUrl) params.set('url', options.modelUrl)
+  if (options.modelId !== null && options.shareToken) params.set('share', options.shareToken)
+  if (options.lighting) params.set('lighting', options.lighting)
+  if (options.background !== DEFAULT_EMBED_OPTIONS.background) params.set('bg', options.background)
+  if (!options.autoRotate) params.set('rotate', '0')
+  if (options.camera) params.set('camera', options.camera)
+  return params
+}
+
+export function embedUrl(options: EmbedOptions, origin = window.location.origin) {
+  return `${origin}${EMBED_PATH}?${embedOptionsToParams(options)}`
+}
+
+export function iframeSnippet(url: string, title: string, width = 640, height = 480) {
+  const escapedTitle = title.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+  return `<iframe src="${url.replace(/&/g, '&amp;')}" title="${escapedTitle}" width="${width}" height="${height}" style="border:0" allow="fullscreen" loading="lazy"></iframe>`
+}
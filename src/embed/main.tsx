@@ -0,0 +1,13 @@
+import React from 'react'
+import ReactDOM from 'react-dom/client'
+import { EmbedViewer } from './EmbedViewer'
+import { embedOptionsFromParams } from './embedOptions'
+import './embed.css'
+
+const options = embedOptionsFromParams(new URLSearchParams(window.location.search))
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <EmbedViewer options={options} />
+  </React.StrictMode>,
+)
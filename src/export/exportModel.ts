@@ -0,0 +1,106 @@
+import { Group } from 'three'
+import type { Object3D } from 'three'
+import { withOriginalMaterials } from '../viewer/inspection'
+
+export type ExportFormat = 'glb' | 'obj' | 'stl' | 'ply' | 'usdz'
+export type ExportUnit = 'm' | 'cm' | 'mm' | 'in'
+export type UpAxis = 'y' | 'z'
+
+export interface ExportOptions {
+  format: ExportFormat
+  unit: ExportUnit
+  scale: number
+  upAxis: UpAxis
+  binary: boolean
+}
+
+interface FormatInfo {
+  label: string
+  extension: string
+  mimeType: string
+  hasAsciiVariant: boolean
+  // glTF and USD define their units and up axis, so those formats are always metres, Y-up.
+  fixedFrame: boolean
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, FormatInfo> = {
+  glb: { label: 'GLB', extension: 'glb', mimeType: 'model/gltf-binary', hasAsciiVariant: false, fixedFrame: true },
+  obj: { label: 'OBJ', extension: 'obj', mimeType: 'text/plain', hasAsciiVariant: false, fixedFrame: false },
+  stl: { label: 'STL', extension: 'stl', mimeType: 'model/stl', hasAsciiVariant: true, fixedFrame: false },
+  ply: { label: 'PLY', extension: 'ply', mimeType: 'application/octet-stream', hasAsciiVariant: true, fixedFrame: false },
+  usdz: { label: 'USDZ', extension: 'usdz', mimeType: 'model/vnd.usdz+zip', hasAsciiVariant: false, fixedFrame: true },
+}
+
+export const UNIT_SCALE: Record<ExportUnit, number> = { m: 1, cm: 100, mm: 1000, in: 39.3701 }
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'stl',
+  unit: 'mm',
+  scale: 1,
+  upAxis: 'z',
+  binary: true,
+}
+
+// Scene units are treated as metres, as glTF specifies. The copy keeps the viewer's materials, so
+// material edits are baked in, but not a debug shading mode that happens to be showing.
+function prepareScene(scene: Object3D, options: ExportOptions, info: FormatInfo) {
+  const root = new Group()
+  root.add(withOriginalMaterials(scene, () => scene.clone(true)))
+  const unitScale = info.fixedFrame ? 1 : UNIT_SCALE[options.unit]
+  root.scale.setScalar(unitScale * options.scale)
+  if (!info.fixedFrame && options.upAxis === 'z') root.rotation.x = Math.PI / 2
+  root.updateMatrixWorld(true)
+  return root
+}
+
+export async function exportModel(scene: Object3D, options: ExportOptions): Promise<Blob> {
+  const info = EXPORT_FORMATS[options.format]
+  const root = prepareScene(scene, options, info)
+  const type = info.mimeType
+
+  switch (options.format) {
+    case 'glb': {
+      const { GLTFExporter } = await import('three/examples/jsm/exporters/GLTFExporter.js')
+      const result = await new GLTFExporter().parseAsync(root, { binary: true })
+      return new Blob([result as ArrayBuffer], { type })
+    }
+    case 'obj': {
+      const { OBJExporter } = await import('three/examples/jsm/exporters/OBJExporter.js')
+      return new Blob([new OBJExporter().parse(root)], { type })
+    }
+    case 'stl': {
+      const { STLExporter } = await import('three/examples/jsm/exporters/STLExporter.js')
+      const exporter = new STLExporter()
+      const result = options.binary ? exporter.parse(root, { binary: true }).buffer as ArrayBuffer : exporter.parse(root)
+      return new Blob([result], { type })
+    }
+    case 'ply': {
+      const { PLYExporter } = await import('three/examples/jsm/exporters/PLYExporter.js')
+      const result = await new Promise<ArrayBuffer | string>(resolve => {
+        new PLYExporter().parse(root, resolve, { binary: options.binary, littleEndian: true })
+      })
+      return new Blob([result], { type })
+    }
+    case 'usdz': {
+      const { USDZExporter } = await import('three/examples/jsm/exporters/USDZExporter.js')
+      const result = await new USDZExporter().parse(root, { quickLookCompatible: true })
+      return new Blob([result.slice().buffer as ArrayBuffer], { type })
+    }
+  }
+}
+
+export function exportFilename(name: string | null | undefined, format: ExportFormat) {
+  const base = (name || 'model').trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-') || 'model'
+  return `${base}.${EXPORT_FORMATS[format].extension}`
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
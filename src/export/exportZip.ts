@@ -0,0 +1,45 @@
+import { api } from '../api'
+import type { Collection, SavedModel } from '../api'
+import { exportFilename } from './exportModel'
+import { createZip } from './zip'
+import type { ZipEntry } from './zip'
+
+function uniqueName(name: string, used: Set<string>) {
+  const dot = name.lastIndexOf('.')
+  let candidate = name
+  for (let n = 2; used.has(candidate); n++) candidate = `${name.slice(0, dot)}-${n}${name.slice(dot)}`
+  used.add(candidate)
+  return candidate
+}
+
+// Bundles the original GLBs plus a manifest.json carrying each model's metadata.
+export async function exportModelsZip(
+  models: SavedModel[],
+  collections: Collection[],
+  onProgress?: (done: number, total: number) => void,
+): Promise<Blob> {
+  const entries: ZipEntry[] = []
+  const used = new Set<string>()
+  const manifest = []
+
+  for (const [index, model] of models.entries()) {
+    const response = await fetch(api.proxyGlbUrl(model.model_url), { credentials: 'include' })
+    if (!response.ok) throw new Error(`Failed to download "${model.name}" (HTTP ${response.status})`)
+    const file = uniqueName(exportFilename(model.name, 'glb'), used)
+    entries.push({ name: file, data: new Uint8Array(await response.arrayBuffer()) })
+    manifest.push({
+      file,
+      id: model.id,
+      name: model.name,
+      description: model.description,
+      tags: model.tags,
+      collection: collections.find(collection => collection.id === model.collection_id)?.name ?? null,
+      view_config: model.view_config,
+      created_at: model.created_at,
+    })
+    onProgress?.(index + 1, models.length)
+  }
+
+  entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) })
+  return createZip(entries)
+}
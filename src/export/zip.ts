@@ -0,0 +1,81 @@
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2)
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  return { time, day }
+}
+
+// Minimal ZIP writer: entries are stored uncompressed, which every unzip tool reads and costs no CPU.
+// No ZIP64, so the archive must stay under 4 GB.
+export function createZip(entries: ZipEntry[], modified = new Date()): Blob {
+  const encoder = new TextEncoder()
+  const { time, day } = dosDateTime(modified)
+  const parts: BlobPart[] = []
+  const central: ArrayBuffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+    const size = entry.data.length
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, 0x0800, true) // UTF-8 file names
+    local.setUint16(10, time, true)
+    local.setUint16(12, day, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, size, true)
+    local.setUint32(22, size, true)
+    local.setUint16(26, name.length, true)
+    parts.push(local.buffer, name, entry.data as BlobPart)
+
+    const header = new DataView(new ArrayBuffer(46 + name.length))
+    header.setUint32(0, 0x02014b50, true)
+    header.setUint16(4, 20, true)
+    header.setUint16(6, 20, true)
+    header.setUint16(8, 0x0800, true)
+    header.setUint16(12, time, true)
+    header.setUint16(14, day, true)
+    header.setUint32(16, crc, true)
+    header.setUint32(20, size, true)
+    header.setUint32(24, size, true)
+    header.setUint16(28, name.length, true)
+    header.setUint32(42, offset, true)
+    new Uint8Array(header.buffer).set(name, 46)
+    central.push(header.buffer)
+
+    offset += 30 + name.length + size
+  }
+
+  const centralSize = central.reduce((sum, header) => sum + header.byteLength, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' })
+}
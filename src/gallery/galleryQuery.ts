@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { DEFAULT_MODEL_QUERY } from '../api'
+import type { ModelQuery } from '../api'
+import { parseRoute, subscribeToLocation } from '../router/routes'
+
+// Short keys keep shared gallery links readable: ?q=shoe&sort=name&order=asc&from=2024-01-01&views=front,top
+export function galleryQueryFromSearch(search: string): ModelQuery {
+  const params = new URLSearchParams(search)
+  const date = (key: string) => {
+    const value = params.get(key)
+    return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null
+  }
+  return {
+    search: params.get('q') ?? DEFAULT_MODEL_QUERY.search,
+    sort: params.get('sort') === 'name' ? 'name' : DEFAULT_MODEL_QUERY.sort,
+    order: params.get('order') === 'asc' ? 'asc' : params.get('order') === 'desc' ? 'desc' : defaultOrder(params.get('sort')),
+    createdFrom: date('from'),
+    createdTo: date('to'),
+    views: params.get('views')?.split(',').filter(Boolean) ?? DEFAULT_MODEL_QUERY.views,
+    tags: params.get('tags')?.split(',').filter(Boolean) ?? DEFAULT_MODEL_QUERY.tags,
+    collectionId: Number(params.get('collection')) || DEFAULT_MODEL_QUERY.collectionId,
+  }
+}
+
+// Newest-first for dates but A-Z for names, so switching the sort field alone gives the expected order.
+function defaultOrder(sort: string | null) {
+  return sort === 'name' ? 'asc' : 'desc'
+}
+
+export function galleryQueryToSearch(query: ModelQuery, current = ''): string {
+  const params = new URLSearchParams(current)
+  for (const key of ['q', 'sort', 'order', 'from', 'to', 'views', 'tags', 'collection']) params.delete(key)
+  if (query.search) params.set('q', query.search)
+  if (query.sort !== DEFAULT_MODEL_QUERY.sort) params.set('sort', query.sort)
+  if (query.order !== defaultOrder(query.sort)) params.set('order', query.order)
+  if (query.createdFrom) params.set('from', query.createdFrom)
+  if (query.createdTo) params.set('to', query.createdTo)
+  if (query.views.length > 0) params.set('views', query.views.join(','))
+  if (query.tags.length > 0) params.set('tags', query.tags.join(','))
+  if (query.collectionId !== null) params.set('collection', String(query.collectionId))
+  const search = params.toString().replace(/%2C/g, ',')
+  return search ? `?${search}` : ''
+}
+
+export function isDefaultQuery(query: ModelQuery) {
+  return galleryQueryToSearch(query) === ''
+}
+
+export function useGalleryQuery() {
+  const [query, setQueryState] = useState(() => galleryQueryFromSearch(window.location.search))
+  // Lets setQuery build on updates made earlier in the same event without side effects in a state updater.
+  const latest = useRef(query)
+  latest.current = query
+
+  // Other pages don't carry the gallery's query string, so leaving the gallery keeps the last query.
+  useEffect(() => subscribeToLocation(() => {
+    if (parseRoute(window.location.pathname).name !== 'gallery') return
+    const next = galleryQueryFromSearch(window.location.search)
+    // Keep the same object when the query didn't change, or the gallery would refetch and lose its scroll position.
+    setQueryState(prev => galleryQueryToSearch(prev) === galleryQueryToSearch(next) ? prev : next)
+  }), [])
+
+  const setQuery = useCallback((update: Partial<ModelQuery>) => {
+    const next = { ...latest.current, ...update }
+    latest.current = next
+    const { pathname, search, hash } = window.location
+    // Replace rather than push: every keystroke in the search box would otherwise become a history entry.
+    window.history.replaceState(window.history.state, '', `${pathname}${galleryQueryToSearch(next, search)}${hash}`)
+    setQueryState(next)
+  }, [])
+
+  return [query, setQuery] as const
+}
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react'
+import { api, errorMessage } from '../api'
+import type { Collection } from '../api'
+
+export function useCollections() {
+  const [collections, setCollections] = useState<Collection[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setCollections(await api.listCollections())
+      setError(null)
+    } catch (err) {
+      console.error('Failed to fetch collections:', err)
+      setError(`Failed to load collections: ${errorMessage(err)}`)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const create = useCallback(async (name: string) => {
+    const collection = await api.createCollection(name)
+    setCollections(prev => [...prev, collection].sort((a, b) => a.name.localeCompare(b.name)))
+    return collection
+  }, [])
+
+  const remove = useCallback(async (collectionId: number) => {
+    await api.deleteCollection(collectionId)
+    setCollections(prev => prev.filter(collection => collection.id !== collectionId))
+  }, [])
+
+  return { collections, error, refresh, create, remove }
+}
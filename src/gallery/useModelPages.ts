@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { api, errorMessage, isAbortError } from '../api'
+import type { ModelQuery, SavedModel } from '../api'
+
+const PAGE_SIZE = 30
+
+export function useModelPages(query: ModelQuery) {
+  const [models, setModels] = useState<SavedModel[]>([])
+  const [total, setTotal] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [generation, setGeneration] = useState(0)
+  const controllerRef = useRef<AbortController | null>(null)
+  const modelsRef = useRef(models)
+  modelsRef.current = models
+
+  const fetchPage = useCallback(async (offset: number, limit: number, replace: boolean) => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setLoading(true)
+    try {
+      const page = await api.searchModels(query, { offset, limit }, controller.signal)
+      setModels(prev => (replace ? page.models : [...prev, ...page.models]))
+      setTotal(page.total)
+      setError(null)
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return
+      console.error('Failed to fetch models:', err)
+      setError(`Failed to load models: ${errorMessage(err)}`)
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null
+        setLoading(false)
+      }
+    }
+  }, [query])
+
+  // The previous query's results would otherwise stay on screen, looking current, until the new page arrives.
+  useEffect(() => {
+    setModels([])
+    setTotal(null)
+  }, [query])
+
+  useEffect(() => {
+    fetchPage(0, PAGE_SIZE, true)
+    return () => controllerRef.current?.abort()
+  }, [fetchPage, generation])
+
+  const hasMore = total === null || models.length < total
+
+  const loadMore = useCallback(() => {
+    if (loading || !hasMore || error) return
+    fetchPage(modelsRef.current.length, PAGE_SIZE, false)
+  }, [loading, hasMore, error, fetchPage])
+
+  // After an edit or delete the loaded window may have shifted, so refetch everything currently shown.
+  const reload = useCallback(() => {
+    fetchPage(0, Math.max(PAGE_SIZE, modelsRef.current.length), true)
+  }, [fetchPage])
+
+  const retry = useCallback(() => setGeneration(value => value + 1), [])
+
+  return { models, total, loading, error, hasMore, loadMore, reload, retry }
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react'
+
+export function useObjectUrl(blob: Blob | null | undefined) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null)
+      return
+    }
+    const objectUrl = URL.createObjectURL(blob)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [blob])
+
+  return url
+}
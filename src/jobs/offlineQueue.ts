@@ -0,0 +1,49 @@
+import type { ConvertRequest } from '../api'
+import { onSessionEnd } from '../auth/session'
+
+// Conversions submitted while offline keep their images here so they survive a reload until they can be sent.
+const DB_NAME = 'three-dee-offline'
+const STORE = 'queued-conversions'
+
+function openDatabase() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(STORE, mode).objectStore(STORE))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function saveQueuedConversion(id: string, request: ConvertRequest) {
+  await run('readwrite', store => store.put(request, id))
+}
+
+export async function loadQueuedConversion(id: string): Promise<ConvertRequest | null> {
+  return (await run<ConvertRequest | undefined>('readonly', store => store.get(id))) ?? null
+}
+
+export async function deleteQueuedConversion(id: string) {
+  await run('readwrite', store => store.delete(id))
+}
+
+export async function clearQueuedConversions() {
+  await run('readwrite', store => store.clear())
+}
+
+// Queued images belong to whoever queued them; they must not be uploaded under the next user's token.
+onSessionEnd(() => {
+  clearQueuedConversions().catch(err => console.warn('Failed to clear queued conversions:', err))
+})
@@ -0,0 +1,205 @@
+import { api, ApiError, isAbortError, parseJobStatus } from '../api'
+import type { JobStatus } from '../api'
+
+export interface JobUpdateHandlers {
+  onUpdate: (status: JobStatus) => void
+  onError?: (err: unknown) => void
+}
+
+export interface ProgressTransport {
+  subscribe(jobId: string, handlers: JobUpdateHandlers): () => void
+}
+
+export class StreamUnavailableError extends ApiError {
+  constructor(url: string) {
+    super(`Progress stream at ${url} is unavailable`)
+    this.name = 'StreamUnavailableError'
+  }
+}
+
+export interface BackoffOptions {
+  initialDelayMs?: number
+  maxDelayMs?: number
+  factor?: number
+}
+
+function isTerminal(status: JobStatus) {
+  return status.status === 'completed' || status.status === 'failed'
+}
+
+function backoff({ initialDelayMs = 1000, maxDelayMs = 15_000, factor = 2 }: BackoffOptions) {
+  let delay = initialDelayMs
+  return {
+    next() {
+      const current = delay
+      delay = Math.min(maxDelayMs, delay * factor)
+      return current
+    },
+    reset() {
+      delay = initialDelayMs
+    },
+  }
+}
+
+function parseMessage(data: unknown) {
+  return parseJobStatus(typeof data === 'string' ? JSON.parse(data) : data)
+}
+
+export function createPollingTransport({
+  getJob = api.getJob,
+  ...options
+}: BackoffOptions & { getJob?: typeof api.getJob } = {}): ProgressTransport {
+  return {
+    subscribe(jobId, { onUpdate, onError }) {
+      const controller = new AbortController()
+      const delays = backoff(options)
+      let lastProgress = -1
+      let timer: ReturnType<typeof setTimeout> | undefined
+
+      const poll = async () => {
+        try {
+          const status = await getJob(jobId, controller.signal)
+          if (controller.signal.aborted) return
+          onUpdate(status)
+          if (isTerminal(status)) return
+          // Back off while the job sits still; snap back as soon as it moves again.
+          if (status.progress !== lastProgress) delays.reset()
+          lastProgress = status.progress
+        } catch (err) {
+          if (controller.signal.aborted || isAbortError(err)) return
+          onError?.(err)
+        }
+        timer = setTimeout(poll, delays.next())
+      }
+
+      poll()
+      return () => {
+        controller.abort()
+        clearTimeout(timer)
+      }
+    },
+  }
+}
+
+export function createSseTransport({
+  url = api.jobEventsUrl,
+  maxReconnects = 3,
+}: { url?: (jobId: string) => string, maxReconnects?: number } = {}): ProgressTransport {
+  return {
+    subscribe(jobId, { onUpdate, onError }) {
+      const streamUrl = url(jobId)
+      const source = new EventSource(streamUrl, { withCredentials: true })
+      let received = false
+      let failures = 0
+
+      source.onopen = () => { failures = 0 }
+      source.onmessage = (event) => {
+        try {
+          const status = parseMessage(event.data)
+          received = true
+          onUpdate(status)
+          if (isTerminal(status)) source.close()
+        } catch (err) {
+          onError?.(err)
+        }
+      }
+      // EventSource reconnects on its own; give up once the server refuses outright or keeps dropping us.
+      source.onerror = () => {
+        failures++
+        const refused = source.readyState === EventSource.CLOSED
+        if (refused || failures > maxReconnects || (!received && failures > 1)) {
+          source.close()
+          onError?.(new StreamUnavailableError(streamUrl))
+        }
+      }
+
+      return () => source.close()
+    },
+  }
+}
+
+export function createWebSocketTransport({
+  url = api.jobSocketUrl,
+  maxReconnects = 5,
+  ...options
+}: BackoffOptions & { url?: (jobId: string) => string, maxReconnects?: number } = {}): ProgressTransport {
+  return {
+    subscribe(jobId, { onUpdate, onError }) {
+      const socketUrl = url(jobId)
+      const delays = backoff({ initialDelayMs: 500, maxDelayMs: 8000, ...options })
+      let socket: WebSocket | null = null
+      let timer: ReturnType<typeof setTimeout> | undefined
+      let everOpened = false
+      let reconnects = 0
+      let closed = false
+
+      const connect = () => {
+        socket = new WebSocket(socketUrl)
+        socket.onopen = () => {
+          everOpened = true
+          reconnects = 0
+          delays.reset()
+        }
+        socket.onmessage = (event) => {
+          try {
+            const status = parseMessage(event.data)
+            onUpdate(status)
+            if (isTerminal(status)) {
+              closed = true
+              socket?.close()
+            }
+          } catch (err) {
+            onError?.(err)
+          }
+        }
+        socket.onclose = () => {
+          if (closed) return
+          if (!everOpened || reconnects >= maxReconnects) {
+            closed = true
+            onError?.(new StreamUnavailableError(socketUrl))
+            return
+          }
+          reconnects++
+          timer = setTimeout(connect, delays.next())
+        }
+      }
+
+      connect()
+      return () => {
+        closed = true
+        clearTimeout(timer)
+        socket?.close()
+      }
+    },
+  }
+}
+
+export function withPollingFallback(stream: ProgressTransport, polling: ProgressTransport): ProgressTransport {
+  return {
+    subscribe(jobId, handlers) {
+      let unsubscribe = stream.subscribe(jobId, {
+        onUpdate: handlers.onUpdate,
+        onError: (err) => {
+          if (!(err instanceof StreamUnavailableError)) return handlers.onError?.(err)
+          unsubscribe()
+          unsubscribe = polling.subscribe(jobId, handlers)
+        },
+      })
+      return () => unsubscribe()
+    },
+  }
+}
+
+export function createDefaultTransport(): ProgressTransport {
+  const polling = createPollingTransport()
+  // The in-memory fake backend only answers fetch calls, so there is nothing to stream from.
+  if (import.meta.env.VITE_FAKE_API === 'true') return polling
+  switch (import.meta.env.VITE_JOB_TRANSPORT) {
+    case 'polling':
+      return polling
+    case 'websocket':
+      return typeof WebSocket === 'undefined' ? polling : withPollingFallback(createWebSocketTransport(), polling)
+    default:
+      return typeof EventSource === 'undefined' ? polling : withPollingFallback(createSseTransport(), polling)
+  }
+}
@@ -0,0 +1,293 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { api, errorMessage, HttpError, NetworkError } from '../api'
+import type { ConvertRequest, JobResult, JobStatus } from '../api'
+import { createDefaultTransport } from './transport'
+import type { ProgressTransport } from './transport'
+import { deleteQueuedConversion, loadQueuedConversion, saveQueuedConversion } from './offlineQueue'
+import { onSessionEnd } from '../auth/session'
+
+// 'queued' jobs were submitted without a connection and upload as soon as one is back.
+export type QueuedJobState = 'queued' | 'submitting' | 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
+export interface QueuedJob {
+  id: string
+  jobId: string | null
+  name: string
+  state: QueuedJobState
+  progress: number
+  message: string | null
+  error: string | null
+  result: JobResult | null
+  createdAt: number
+}
+
+const STORAGE_KEY = 'three-dee:job-queue'
+const MAX_FINISHED_JOBS = 20
+
+// navigator.onLine can't tell when only the backend is down, so queued jobs are also retried on a timer.
+const QUEUED_RETRY_MS = 30_000
+
+export function isActiveJob(job: QueuedJob) {
+  return job.state === 'queued' || job.state === 'submitting' || job.state === 'pending' || job.state === 'processing'
+}
+
+function loadJobs(): QueuedJob[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]') as QueuedJob[]
+    // A submit that never got a job id back cannot be resumed.
+    return stored.map(job => job.state === 'submitting'
+      ? { ...job, state: 'failed', error: 'Interrupted by page reload before the upload finished' }
+      : job)
+  } catch {
+    return []
+  }
+}
+
+// Jobs are newest first, so past the cap the oldest finished ones go; active jobs always stay.
+function trimFinished(jobs: QueuedJob[]) {
+  const finished = jobs.filter(job => !isActiveJob(job))
+  if (finished.length <= MAX_FINISHED_JOBS) return jobs
+  const kept = new Set(finished.slice(0, MAX_FINISHED_JOBS))
+  return jobs.filter(job => isActiveJob(job) || kept.has(job))
+}
+
+function saveJobs(jobs: QueuedJob[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(trimFinished(jobs)))
+}
+
+function localId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+const defaultTransport = createDefaultTransport()
+
+// Job names and ids are the user's own; the next person to sign in starts with an empty queue.
+onSessionEnd(() => localStorage.removeItem(STORAGE_KEY))
+
+export function useJobQueue({
+  onCompleted,
+  transport = defaultTransport,
+}: {
+  onCompleted?: (job: QueuedJob) => void
+  transport?: ProgressTransport
+} = {}) {
+  const [jobs, setJobs] = useState<QueuedJob[]>(loadJobs)
+  // Files can't go to localStorage, so retrying is only possible for jobs submitted in this session;
+  // queued jobs are the exception and have their images restored from IndexedDB.
+  const sources = useRef(new Map<string, ConvertRequest>())
+  const uploads = useRef(new Map<string, AbortController>())
+  const subscriptions = useRef(new Map<string, { jobId: string, unsubscribe: () => void }>())
+  const onCompletedRef = useRef(onCompleted)
+  onCompletedRef.current = onCompleted
+  const jobsRef = useRef(jobs)
+  jobsRef.current = jobs
+
+  useEffect(() => {
+    saveJobs(jobs)
+    // Images of jobs that were dismissed or trimmed can never be retried, so they needn't be held.
+    for (const id of sources.current.keys()) {
+      if (!jobs.some(job => job.id === id)) sources.current.delete(id)
+    }
+  }, [jobs])
+
+  // Every change that can finish a job goes through here, so the in-memory list is trimmed like the stored one.
+  const updateJob = useCallback((id: string, update: (job: QueuedJob) => QueuedJob) => {
+    setJobs(prev => trimFinished(prev.map(job => (job.id === id ? update(job) : job))))
+  }, [])
+
+  const queueUntilOnline = useCallback((id: string, request: ConvertRequest) => {
+    updateJob(id, job => job.state === 'cancelled' ? job : {
+      ...job,
+      state: 'queued',
+      progress: 0,
+      message: 'Waiting for a connection...',
+      error: null,
+    })
+    saveQueuedConversion(id, request).catch(() => updateJob(id, job => job.state === 'queued' ? {
+      ...job,
+      message: 'Waiting for a connection... Keep this tab open: the images could not be saved for after a reload.',
+    } : job))
+  }, [updateJob])
+
+  const startUpload = useCallback(async (id: string, request: ConvertRequest) => {
+    const controller = new AbortController()
+    uploads.current.set(id, controller)
+    try {
+      const created = await api.convertMultiview(request, controller.signal)
+      // A leftover entry is only restored for a job that is still queued, so a failed delete is harmless.
+      deleteQueuedConversion(id).catch(() => {})
+      updateJob(id, job => job.state === 'cancelled' ? job : {
+        ...job,
+        jobId: created.job_id,
+        state: 'pending',
+        progress: 5,
+        message: created.message || 'Job started...',
+      })
+    } catch (err) {
+      if (controller.signal.aborted) return
+      if (err instanceof NetworkError) {
+        queueUntilOnline(id, request)
+        return
+      }
+      updateJob(id, job => ({ ...job, state: 'failed', error: errorMessage(err), message: null }))
+    } finally {
+      uploads.current.delete(id)
+    }
+  }, [updateJob, queueUntilOnline])
+
+  const send = useCallback((id: string, request: ConvertRequest) => {
+    if (navigator.onLine) startUpload(id, request)
+    else queueUntilOnline(id, request)
+  }, [startUpload, queueUntilOnline])
+
+  const sendQueued = useCallback(() => {
+    for (const job of jobsRef.current) {
+      const request = sources.current.get(job.id)
+      if (job.state !== 'queued' || !request || uploads.current.has(job.id)) continue
+      updateJob(job.id, j => j.state === 'queued' ? { ...j, state: 'submitting', message: 'Uploading images...' } : j)
+      startUpload(job.id, request)
+    }
+  }, [startUpload, updateJob])
+
+  const submit = useCallback((request: ConvertRequest) => {
+    const id = localId()
+    sources.current.set(id, request)
+    const job: QueuedJob = {
+      id,
+      jobId: null,
+      name: request.name || 'Untitled model',
+      state: 'submitting',
+      progress: 0,
+      message: 'Uploading images...',
+      error: null,
+      result: null,
+      createdAt: Date.now(),
+    }
+    setJobs(prev => [job, ...prev])
+    send(id, request)
+    return id
+  }, [send])
+
+  const cancel = useCallback((id: string) => {
+    const job = jobs.find(j => j.id === id)
+    if (!job || !isActiveJob(job)) return
+    uploads.current.get(id)?.abort()
+    if (job.state === 'queued') {
+      deleteQueuedConversion(id).catch(() => {})
+    }
+    if (job.jobId) {
+      // Best effort: older servers have no cancel endpoint, in which case we simply stop tracking the job.
+      api.cancelJob(job.jobId).catch(() => {})
+    }
+    updateJob(id, j => ({ ...j, state: 'cancelled', message: null }))
+  }, [jobs, updateJob])
+
+  const canRetry = useCallback((id: string) => sources.current.has(id), [])
+
+  const retry = useCallback((id: string) => {
+    const request = sources.current.get(id)
+    if (!request) return
+    updateJob(id, job => ({
+      ...job,
+      jobId: null,
+      state: 'submitting',
+      progress: 0,
+      message: 'Uploading images...',
+      error: null,
+      result: null,
+    }))
+    send(id, request)
+  }, [send, updateJob])
+
+  const dismiss = useCallback((id: string) => {
+    sources.current.delete(id)
+    setJobs(prev => prev.filter(job => job.id !== id || isActiveJob(job)))
+  }, [])
+
+  const clearFinished = useCallback(() => {
+    setJobs(prev => prev.filter(isActiveJob))
+  }, [])
+
+  const applyStatus = useCallback((id: string, jobId: string, status: JobStatus) => {
+    const current = jobsRef.current.find(j => j.id === id)
+    if (!current || current.jobId !== jobId || !isActiveJob(current)) return
+    const next: QueuedJob = {
+      ...current,
+      state: status.status,
+      progress: status.status === 'completed' ? 100 : status.progress,
+      message: status.message,
+      error: status.status === 'failed' ? status.error || 'Conversion failed' : null,
+      result: status.result,
+    }
+    updateJob(id, j => (j.jobId === jobId && isActiveJob(j) ? next : j))
+    if (next.state === 'completed') onCompletedRef.current?.(next)
+  }, [updateJob])
+
+  const handleProgressError = useCallback((id: string, jobId: string, err: unknown) => {
+    console.error('Job progress error:', err)
+    if (err instanceof HttpError && err.status === 404) {
+      updateJob(id, j => (j.jobId === jobId && isActiveJob(j)
+        ? { ...j, state: 'failed', error: 'Conversion job no longer exists on the server' }
+        : j))
+    }
+  }, [updateJob])
+
+  useEffect(() => {
+    const tracked = new Map(jobs.filter(job => job.jobId && isActiveJob(job)).map(job => [job.id, job.jobId!]))
+    for (const [id, subscription] of subscriptions.current) {
+      if (tracked.get(id) === subscription.jobId) continue
+      subscription.unsubscribe()
+      subscriptions.current.delete(id)
+    }
+    for (const [id, jobId] of tracked) {
+      if (subscriptions.current.has(id)) continue
+      subscriptions.current.set(id, {
+        jobId,
+        unsubscribe: transport.subscribe(jobId, {
+          onUpdate: status => applyStatus(id, jobId, status),
+          onError: err => handleProgressError(id, jobId, err),
+        }),
+      })
+    }
+  }, [jobs, transport, applyStatus, handleProgressError])
+
+  // Jobs queued before a reload get their images back from IndexedDB, then go out if we're online.
+  useEffect(() => {
+    const restoring = jobsRef.current.filter(job => job.state === 'queued' && !sources.current.has(job.id))
+    Promise.all(restoring.map(async job => {
+      const request = await loadQueuedConversion(job.id).catch(() => null)
+      if (request) {
+        sources.current.set(job.id, request)
+      } else {
+        updateJob(job.id, j => j.state === 'queued'
+          ? { ...j, state: 'failed', error: 'The queued images could not be restored', message: null }
+          : j)
+      }
+    })).then(() => {
+      if (navigator.onLine) sendQueued()
+    })
+  }, [sendQueued, updateJob])
+
+  const hasQueued = jobs.some(job => job.state === 'queued')
+  useEffect(() => {
+    window.addEventListener('online', sendQueued)
+    if (!hasQueued) return () => window.removeEventListener('online', sendQueued)
+    const timer = setInterval(() => {
+      if (navigator.onLine) sendQueued()
+    }, QUEUED_RETRY_MS)
+    return () => {
+      window.removeEventListener('online', sendQueued)
+      clearInterval(timer)
+    }
+  }, [hasQueued, sendQueued])
+
+  useEffect(() => {
+    const active = subscriptions.current
+    return () => {
+      active.forEach(subscription => subscription.unsubscribe())
+      active.clear()
+    }
+  }, [])
+
+  return { jobs, submit, cancel, retry, canRetry, dismiss, clearFinished }
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react'
+import { errorMessage, HttpError } from '../api'
+import type { JobStatus } from '../api'
+import { createDefaultTransport } from './transport'
+import type { ProgressTransport } from './transport'
+
+const defaultTransport = createDefaultTransport()
+
+// Follows a server job that isn't in this browser's queue, e.g. one opened from a shared /jobs/:id link.
+export function useJobStatus(jobId: string | null, transport: ProgressTransport = defaultTransport) {
+  const [status, setStatus] = useState<JobStatus | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setStatus(null)
+    setError(null)
+    if (!jobId) return
+    return transport.subscribe(jobId, {
+      onUpdate: update => {
+        setStatus(update)
+        setError(null)
+      },
+      onError: err => {
+        console.error('Job progress error:', err)
+        setError(err instanceof HttpError && err.status === 404
+          ? 'Conversion job no longer exists on the server'
+          : errorMessage(err))
+      },
+    })
+  }, [jobId, transport])
+
+  return { status, error }
+}
@@ -0,0 +1,151 @@
+import { Box3, Group, Matrix4, Mesh, Quaternion, Vector3 } from 'three'
+import type { BufferGeometry, Object3D } from 'three'
+import { SimplifyModifier } from 'three/examples/jsm/modifiers/SimplifyModifier.js'
+
+export type SizeDimension = 'height' | 'width' | 'depth' | 'longest'
+
+export interface PostProcessOptions {
+  // Null keeps every triangle.
+  targetTriangles: number | null
+  // Outward normals of the faces the user picked, in the model's own frame.
+  upNormal: [number, number, number] | null
+  forwardNormal: [number, number, number] | null
+  recenter: boolean
+  // Rest the model on y = 0 instead of centring it vertically.
+  groundAlign: boolean
+  // Metres; null keeps the current size.
+  targetSize: { dimension: SizeDimension, metres: number } | null
+}
+
+export const DEFAULT_POSTPROCESS_OPTIONS: PostProcessOptions = {
+  targetTriangles: null,
+  upNormal: null,
+  forwardNormal: null,
+  recenter: true,
+  groundAlign: true,
+  targetSize: null,
+}
+
+export interface PostProcessStats {
+  trianglesBefore: number
+  trianglesAfter: number
+  size: [number, number, number]
+}
+
+export type ProgressReporter = (message: string) => void
+
+function triangleCount(geometry: BufferGeometry) {
+  const positions = geometry.getAttribute('position')
+  return (geometry.index ? geometry.index.count : positions.count) / 3
+}
+
+// Bakes every mesh's world transform into its geometry and collects them under one root, so the
+// output file has no leftover node transforms and each later step works in a single frame.
+function flatten(scene: Object3D) {
+  scene.updateMatrixWorld(true)
+  const root = new Group()
+  root.name = scene.name
+  scene.traverse(object => {
+    if (!(object as Mesh).isMesh) return
+    const mesh = object as Mesh
+    const geometry = mesh.geometry.clone().applyMatrix4(mesh.matrixWorld)
+    const baked = new Mesh(geometry, mesh.material)
+    baked.name = mesh.name
+    root.add(baked)
+  })
+  return root
+}
+
+function meshes(root: Group) {
+  return root.children as Mesh[]
+}
+
+function transformAll(root: Group, matrix: Matrix4) {
+  for (const mesh of meshes(root)) mesh.geometry.applyMatrix4(matrix)
+}
+
+// glTF models face +Z with +Y up.
+export function orientationFor(up: Vector3 | null, forward: Vector3 | null) {
+  const rotation = new Quaternion()
+  if (up) rotation.setFromUnitVectors(up.clone().normalize(), new Vector3(0, 1, 0))
+  if (forward) {
+    const turned = forward.clone().applyQuaternion(rotation).setY(0)
+    // A forward face picked parallel to the up axis has no horizontal direction to turn towards.
+    if (turned.lengthSq() > 1e-6) {
+      const yaw = new Quaternion().setFromUnitVectors(turned.normalize(), new Vector3(0, 0, 1))
+      rotation.premultiply(yaw)
+    }
+  }
+  return rotation
+}
+
+function bounds(root: Group) {
+  return new Box3().setFromObject(root)
+}
+
+function decimate(root: Group, targetTriangles: number, report: ProgressReporter) {
+  const total = meshes(root).reduce((sum, mesh) => sum + triangleCount(mesh.geometry), 0)
+  if (targetTriangles >= total) return
+  const ratio = targetTriangles / total
+  const modifier = new SimplifyModifier()
+  meshes(root).forEach((mesh, index) => {
+    report(`Decimating mesh ${index + 1} of ${root.children.length}`)
+    // The modifier counts collapsed vertices; each collapse inside a manifold surface removes two triangles.
+    const triangles = triangleCount(mesh.geometry)
+    const remove = Math.floor((triangles - triangles * ratio) / 2)
+    if (remove <= 0) return
+    const simplified = modifier.modify(mesh.geometry, remove)
+    mesh.geometry.dispose()
+    mesh.geometry = simplified
+  })
+}
+
+function sizeAlong(size: Vector3, dimension: SizeDimension) {
+  switch (dimension) {
+    case 'height': return size.y
+    case 'width': return size.x
+    case 'depth': return size.z
+    default: return Math.max(size.x, size.y, size.z)
+  }
+}
+
+export function postProcessScene(scene: Object3D, options: PostProcessOptions, report: ProgressReporter) {
+  const root = flatten(scene)
+  const trianglesBefore = meshes(root).reduce((sum, mesh) => sum + triangleCount(mesh.geometry), 0)
+
+  if (options.upNormal || options.forwardNormal) {
+    report('Fixing orientation')
+    const up = options.upNormal ? new Vector3(...options.upNormal) : null
+    const forward = options.forwardNormal ? new Vector3(...options.forwardNormal) : null
+    transformAll(root, new Matrix4().makeRotationFromQuaternion(orientationFor(up, forward)))
+  }
+
+  if (options.targetTriangles !== null) decimate(root, options.targetTriangles, report)
+
+  if (options.targetSize) {
+    report('Rescaling')
+    const current = sizeAlong(bounds(root).getSize(new Vector3()), options.targetSize.dimension)
+    const factor = current > 0 ? options.targetSize.metres / current : 1
+    transformAll(root, new Matrix4().makeScale(factor, factor, factor))
+  }
+
+  if (options.recenter || options.groundAlign) {
+    report('Recentering')
+    const box = bounds(root)
+    const center = box.getCenter(new Vector3())
+    const offset = new Vector3(
+      options.recenter ? -center.x : 0,
+      options.groundAlign ? -box.min.y : options.recenter ? -center.y : 0,
+      options.recenter ? -center.z : 0,
+    )
+    transformAll(root, new Matrix4().makeTranslation(offset.x, offset.y, offset.z))
+  }
+
+  for (const mesh of meshes(root)) mesh.geometry.computeBoundingSphere()
+  const stats: PostProcessStats = {
+    trianglesBefore: Math.round(trianglesBefore),
+    trianglesAfter: Math.round(meshes(root).reduce((sum, mesh) => sum + triangleCount(mesh.geometry), 0)),
+    size: bounds(root).getSize(new Vector3()).toArray(),
+  }
+  return { root, stats }
+}
@@ -0,0 +1,43 @@
+/// <reference lib="webworker" />
+import { ImageBitmapLoader } from 'three'
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js'
+import { postProcessScene } from './meshProcessing'
+import type { PostProcessMessage, PostProcessRequest } from './protocol'
+
+declare const self: DedicatedWorkerGlobalScope
+
+function post(message: PostProcessMessage, transfer: Transferable[] = []) {
+  self.postMessage(message, transfer)
+}
+
+// GLTFLoader falls back to TextureLoader in Safari and older Firefox, and that decodes through <img>
+// elements, which a worker has no document to create. ImageBitmapLoader works everywhere module
+// workers do; the textures are only decoded to be written back out, so its quirks on upload don't matter.
+function createLoader() {
+  return new GLTFLoader().register(parser => {
+    // GLTFLoader wants a name on every plugin, which its type definitions leave out.
+    const plugin = {
+      name: 'worker-image-bitmaps',
+      beforeRoot: () => {
+        parser.textureLoader = new ImageBitmapLoader(parser.options.manager)
+        return null
+      },
+    }
+    return plugin
+  })
+}
+
+self.onmessage = async (event: MessageEvent<PostProcessRequest>) => {
+  const { glb, options } = event.data
+  try {
+    post({ type: 'progress', message: 'Reading model' })
+    const gltf = await createLoader().parseAsync(glb, '')
+    const { root, stats } = postProcessScene(gltf.scene, options, message => post({ type: 'progress', message }))
+    post({ type: 'progress', message: 'Writing GLB' })
+    const output = await new GLTFExporter().parseAsync(root, { binary: true }) as ArrayBuffer
+    post({ type: 'done', glb: output, stats }, [output])
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+  }
+}
@@ -0,0 +1,11 @@
+import type { PostProcessOptions, PostProcessStats } from './meshProcessing'
+
+export interface PostProcessRequest {
+  glb: ArrayBuffer
+  options: PostProcessOptions
+}
+
+export type PostProcessMessage =
+  | { type: 'progress', message: string }
+  | { type: 'done', glb: ArrayBuffer, stats: PostProcessStats }
+  | { type: 'error', message: string }
@@ -0,0 +1,48 @@
+import type { PostProcessOptions, PostProcessStats } from './meshProcessing'
+import type { PostProcessMessage, PostProcessRequest } from './protocol'
+
+export interface PostProcessResult {
+  glb: Blob
+  stats: PostProcessStats
+}
+
+// Each run gets its own worker, so cancelling is just terminating it.
+export function runPostProcess(
+  glb: ArrayBuffer,
+  options: PostProcessOptions,
+  onProgress: (message: string) => void,
+  signal?: AbortSignal,
+): Promise<PostProcessResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./postprocess.worker.ts', import.meta.url), { type: 'module' })
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', abort)
+    }
+    const abort = () => {
+      finish()
+      reject(new DOMException('Post-processing was cancelled', 'AbortError'))
+    }
+    if (signal?.aborted) return abort()
+    signal?.addEventListener('abort', abort)
+
+    worker.onmessage = (event: MessageEvent<PostProcessMessage>) => {
+      const message = event.data
+      if (message.type === 'progress') {
+        onProgress(message.message)
+      } else if (message.type === 'done') {
+        finish()
+        resolve({ glb: new Blob([message.glb], { type: 'model/gltf-binary' }), stats: message.stats })
+      } else {
+        finish()
+        reject(new Error(message.message))
+      }
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || 'Post-processing worker failed'))
+    }
+    const request: PostProcessRequest = { glb, options }
+    worker.postMessage(request, [glb])
+  })
+}
@@ -0,0 +1,39 @@
+const SOI = 0xffd8
+const APP1 = 0xffe1
+const SOS = 0xffda
+const ORIENTATION_TAG = 0x0112
+
+// Reads the EXIF orientation (1-8) from a JPEG; anything without EXIF is treated as upright.
+export async function readExifOrientation(file: Blob): Promise<number> {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer())
+  if (view.byteLength < 4 || view.getUint16(0) !== SOI) return 1
+
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    if (marker === SOS || (marker & 0xff00) !== 0xff00) break
+    const length = view.getUint16(offset + 2)
+    if (marker === APP1 && view.getUint32(offset + 4) === 0x45786966) {
+      return readTiffOrientation(view, offset + 10)
+    }
+    offset += 2 + length
+  }
+  return 1
+}
+
+function readTiffOrientation(view: DataView, tiffStart: number) {
+  if (tiffStart + 8 > view.byteLength) return 1
+  const little = view.getUint16(tiffStart) === 0x4949
+  const ifd = tiffStart + view.getUint32(tiffStart + 4, little)
+  if (ifd + 2 > view.byteLength) return 1
+  const entries = view.getUint16(ifd, little)
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12
+    if (entry + 12 > view.byteLength) break
+    if (view.getUint16(entry, little) === ORIENTATION_TAG) {
+      const value = view.getUint16(entry + 8, little)
+      return value >= 1 && value <= 8 ? value : 1
+    }
+  }
+  return 1
+}
@@ -0,0 +1,264 @@
+import { readExifOrientation } from './exif'
+import { isManuallyFramed } from '../editor/adjustment'
+
+export type PreprocessStep = 'orient' | 'resize' | 'background' | 'square'
+
+export interface PreprocessOptions {
+  enabled: boolean
+  maxSize: number
+  squareCrop: boolean
+  padding: number
+  removeBackground: boolean
+  backgroundColor: string
+  tolerance: number
+}
+
+export interface PreprocessStage {
+  step: PreprocessStep
+  label: string
+  detail: string
+  preview: Blob
+  width: number
+  height: number
+}
+
+export interface PreprocessResult {
+  file: File
+  original: Blob
+  stages: PreprocessStage[]
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  enabled: true,
+  maxSize: 1024,
+  squareCrop: true,
+  padding: 0.08,
+  removeBackground: false,
+  backgroundColor: '#ffffff',
+  tolerance: 32,
+}
+
+const PREVIEW_SIZE = 320
+const OUTPUT_QUALITY = 0.92
+
+const ORIENTATION_LABELS: Record<number, string> = {
+  2: 'mirrored',
+  3: 'rotated 180°',
+  4: 'flipped vertically',
+  5: 'mirrored and rotated 90°',
+  6: 'rotated 90°',
+  7: 'mirrored and rotated 270°',
+  8: 'rotated 270°',
+}
+
+type Rgb = [number, number, number]
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) throw new Error('Canvas 2D is not supported in this browser')
+  ctx.imageSmoothingQuality = 'high'
+  return { canvas, ctx }
+}
+
+function toBlob(canvas: HTMLCanvasElement, type = 'image/jpeg', quality = OUTPUT_QUALITY) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type, quality)
+  })
+}
+
+// JPEG has no alpha channel: transparent pixels would encode, and sample, as black unless
+// they are composited onto the background colour first.
+function drawFlattened(ctx: CanvasRenderingContext2D, source: CanvasImageSource, background: string, width: number, height: number) {
+  ctx.fillStyle = background
+  ctx.fillRect(0, 0, width, height)
+  ctx.drawImage(source, 0, 0, width, height)
+}
+
+function previewOf(source: CanvasImageSource & { width: number, height: number }, background: string) {
+  const scale = Math.min(1, PREVIEW_SIZE / Math.max(source.width, source.height))
+  const { canvas, ctx } = createCanvas(Math.round(source.width * scale), Math.round(source.height * scale))
+  drawFlattened(ctx, source, background, canvas.width, canvas.height)
+  return toBlob(canvas, 'image/jpeg', 0.8)
+}
+
+function parseHex(color: string): Rgb {
+  const hex = color.replace('#', '')
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex
+  const value = parseInt(full, 16)
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+}
+
+function rgbCss([r, g, b]: Rgb) {
+  return `rgb(${r}, ${g}, ${b})`
+}
+
+function distance(data: Uint8ClampedArray, index: number, [r, g, b]: Rgb) {
+  const dr = data[index] - r
+  const dg = data[index + 1] - g
+  const db = data[index + 2] - b
+  return Math.sqrt(dr * dr + dg * dg + db * db)
+}
+
+// Halving repeatedly before the final draw avoids the aliasing a single large downscale produces.
+function downscale(source: HTMLCanvasElement, width: number, height: number) {
+  let current = source
+  while (current.width / 2 >= width && current.height / 2 >= height) {
+    const half = createCanvas(Math.round(current.width / 2), Math.round(current.height / 2))
+    half.ctx.drawImage(current, 0, 0, half.canvas.width, half.canvas.height)
+    current = half.canvas
+  }
+  const target = createCanvas(width, height)
+  target.ctx.drawImage(current, 0, 0, width, height)
+  return target.canvas
+}
+
+export function estimateBackground(data: Uint8ClampedArray, width: number, height: number): Rgb {
+  const samples: Rgb[] = []
+  const step = Math.max(1, Math.floor((width + height) / 200))
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4
+    samples.push([data[i], data[i + 1], data[i + 2]])
+  }
+  for (let x = 0; x < width; x += step) {
+    sample(x, 0)
+    sample(x, height - 1)
+  }
+  for (let y = 0; y < height; y += step) {
+    sample(0, y)
+    sample(width - 1, y)
+  }
+  const median = (channel: number) => samples.map(s => s[channel]).sort((a, b) => a - b)[samples.length >> 1]
+  return [median(0), median(1), median(2)]
+}
+
+// Flood fill from the image border over pixels close to the background colour, so subject
+// pixels that happen to match the backdrop (e.g. white laces on white) are left alone.
+export function backgroundMask(data: Uint8ClampedArray, width: number, height: number, background: Rgb, tolerance: number) {
+  const mask = new Uint8Array(width * height)
+  const queue = new Int32Array(width * height)
+  let head = 0
+  let tail = 0
+  const visit = (pixel: number) => {
+    if (mask[pixel] || distance(data, pixel * 4, background) > tolerance) return
+    mask[pixel] = 1
+    queue[tail++] = pixel
+  }
+  for (let x = 0; x < width; x++) {
+    visit(x)
+    visit((height - 1) * width + x)
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width)
+    visit(y * width + width - 1)
+  }
+  while (head < tail) {
+    const pixel = queue[head++]
+    const x = pixel % width
+    if (x > 0) visit(pixel - 1)
+    if (x < width - 1) visit(pixel + 1)
+    if (pixel >= width) visit(pixel - width)
+    if (pixel < width * (height - 1)) visit(pixel + width)
+  }
+  return mask
+}
+
+function subjectBounds(mask: Uint8Array, width: number, height: number) {
+  let minX = width
+  let minY = height
+  let maxX = -1
+  let maxY = -1
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) continue
+      if (x < minX) minX = x
+      if (x > maxX) maxX = x
+      if (y < minY) minY = y
+      if (y > maxY) maxY = y
+    }
+  }
+  if (maxX < 0) return { x: 0, y: 0, width, height }
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 }
+}
+
+export async function preprocessImage(file: File, options: PreprocessOptions): Promise<PreprocessResult> {
+  const stages: PreprocessStage[] = []
+  const addStage = async (step: PreprocessStep, label: string, detail: string, canvas: HTMLCanvasElement) => {
+    stages.push({ step, label, detail, preview: await previewOf(canvas, options.backgroundColor), width: canvas.width, height: canvas.height })
+  }
+
+  // The conversion server reads raw pixels and ignores EXIF, so sideways phone photos have to be
+  // rotated here; re-encoding through a canvas also strips the tag so nothing rotates them twice.
+  const orientation = await readExifOrientation(file)
+  const [raw, oriented] = await Promise.all([
+    createImageBitmap(file, { imageOrientation: 'none' }),
+    createImageBitmap(file, { imageOrientation: 'from-image' }),
+  ])
+  const original = await previewOf(raw, options.backgroundColor)
+  raw.close()
+  // Flattened from the start, so background detection and every later stage see opaque pixels.
+  let { canvas, ctx } = createCanvas(oriented.width, oriented.height)
+  drawFlattened(ctx, oriented, options.backgroundColor, oriented.width, oriented.height)
+  oriented.close()
+  await addStage('orient', 'Orientation', orientation === 1 ? 'Already upright' : `Corrected: photo was ${ORIENTATION_LABELS[orientation]}`, canvas)
+
+  const scale = Math.min(1, options.maxSize / Math.max(canvas.width, canvas.height))
+  if (scale < 1) {
+    const width = Math.round(canvas.width * scale)
+    const height = Math.round(canvas.height * scale)
+    const detail = `${canvas.width}×${canvas.height} → ${width}×${height}`
+    canvas = downscale(canvas, width, height)
+    ctx = canvas.getContext('2d', { willReadFrequently: true })!
+    await addStage('resize', 'Resize', detail, canvas)
+  } else {
+    await addStage('resize', 'Resize', `${canvas.width}×${canvas.height} is within ${options.maxSize}px`, canvas)
+  }
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  const detected = estimateBackground(imageData.data, canvas.width, canvas.height)
+  const mask = backgroundMask(imageData.data, canvas.width, canvas.height, detected, options.tolerance)
+  let fill = detected
+
+  if (options.removeBackground) {
+    fill = parseHex(options.backgroundColor)
+    const { data } = imageData
+    for (let pixel = 0; pixel < mask.length; pixel++) {
+      if (!mask[pixel]) continue
+      data[pixel * 4] = fill[0]
+      data[pixel * 4 + 1] = fill[1]
+      data[pixel * 4 + 2] = fill[2]
+    }
+    ctx.putImageData(imageData, 0, 0)
+    const removed = Math.round((mask.reduce((sum, v) => sum + v, 0) / mask.length) * 100)
+    await addStage('background', 'Background', `Flattened ${removed}% of the image to ${options.backgroundColor}`, canvas)
+  }
+
+  if (options.squareCrop && isManuallyFramed(file)) {
+    await addStage('square', 'Square crop', 'Skipped: framed by hand in the editor', canvas)
+  } else if (options.squareCrop) {
+    const bounds = subjectBounds(mask, canvas.width, canvas.height)
+    const side = Math.round(Math.max(bounds.width, bounds.height) * (1 + 2 * options.padding))
+    const size = Math.min(side, options.maxSize)
+    const square = createCanvas(size, size)
+    square.ctx.fillStyle = rgbCss(fill)
+    square.ctx.fillRect(0, 0, size, size)
+    const ratio = size / side
+    const centerX = bounds.x + bounds.width / 2
+    const centerY = bounds.y + bounds.height / 2
+    square.ctx.drawImage(
+      canvas,
+      (side / 2 - centerX) * ratio,
+      (side / 2 - centerY) * ratio,
+      canvas.width * ratio,
+      canvas.height * ratio,
+    )
+    canvas = square.canvas
+    await addStage('square', 'Square crop', `Centered ${bounds.width}×${bounds.height} subject in ${size}×${size}`, canvas)
+  }
+
+  const blob = await toBlob(canvas)
+  const name = `${file.name.replace(/\.[^.]+$/, '')}.jpg`
+  return { file: new File([blob], name, { type: 'image/jpeg' }), original, stages }
+}
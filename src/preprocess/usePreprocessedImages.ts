@@ -0,0 +1,77 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { errorMessage } from '../api'
+import { preprocessImage } from './pipeline'
+import type { PreprocessOptions, PreprocessResult } from './pipeline'
+
+interface Entry {
+  source: File
+  options: PreprocessOptions
+  result: PreprocessResult | null
+  error: string | null
+}
+
+export function usePreprocessedImages<K extends string>(images: Record<K, File | null>, options: PreprocessOptions) {
+  const [entries, setEntries] = useState<Partial<Record<K, Entry>>>({})
+  const entriesRef = useRef(entries)
+  entriesRef.current = entries
+
+  useEffect(() => {
+    if (!options.enabled) return
+    const keys = Object.keys(images) as K[]
+    const isCurrent = (entry: Entry | undefined, file: File) => entry?.source === file && entry.options === options
+    const stale = keys.filter(key => images[key] && !isCurrent(entriesRef.current[key], images[key]!))
+    if (stale.length === 0 && keys.every(key => images[key] || !entriesRef.current[key])) return
+
+    setEntries(prev => {
+      const next: Partial<Record<K, Entry>> = {}
+      for (const key of keys) {
+        const file = images[key]
+        const existing = prev[key]
+        if (!file) continue
+        next[key] = isCurrent(existing, file) ? existing : { source: file, options, result: null, error: null }
+      }
+      return next
+    })
+
+    for (const key of stale) {
+      const file = images[key]!
+      preprocessImage(file, options)
+        .then(result => ({ result, error: null }))
+        .catch(err => {
+          console.error(`Failed to preprocess ${key} image:`, err)
+          return { result: null, error: errorMessage(err) }
+        })
+        .then(({ result, error }) => {
+          // Results for a file or option set that has since been replaced are simply dropped.
+          setEntries(prev => {
+            const entry = prev[key]
+            if (!entry || !isCurrent(entry, file)) return prev
+            return { ...prev, [key]: { ...entry, result, error } }
+          })
+        })
+    }
+  }, [images, options])
+
+  // Memoised so callers can derive further state from the results without redoing it every render.
+  return useMemo(() => {
+    const results: Partial<Record<K, PreprocessResult>> = {}
+    const errors: Partial<Record<K, string>> = {}
+    let pending = false
+    if (options.enabled) {
+      for (const key of Object.keys(images) as K[]) {
+        const entry = entries[key]
+        if (!images[key]) continue
+        if (!entry || entry.source !== images[key] || entry.options !== options) {
+          pending = true
+        } else if (entry.result) {
+          results[key] = entry.result
+        } else if (entry.error) {
+          errors[key] = entry.error
+        } else {
+          pending = true
+        }
+      }
+    }
+    return { results, errors, pending }
+  }, [entries, images, options])
+}
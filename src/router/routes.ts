@@ -0,0 +1,66 @@
+import { useSyncExternalStore } from 'react'
+
+export type Route =
+  | { name: 'create' }
+  | { name: 'gallery' }
+  | { name: 'trash' }
+  | { name: 'model', modelId: number }
+  | { name: 'job', jobId: string }
+  | { name: 'not-found' }
+
+export function parseRoute(pathname: string): Route {
+  const path = pathname.replace(/\/+$/, '') || '/'
+  if (path === '/') return { name: 'create' }
+  if (path === '/gallery') return { name: 'gallery' }
+  if (path === '/trash') return { name: 'trash' }
+  const model = path.match(/^\/models\/(\d+)$/)
+  if (model) return { name: 'model', modelId: Number(model[1]) }
+  const job = path.match(/^\/jobs\/([^/]+)$/)
+  if (job) return { name: 'job', jobId: decodeURIComponent(job[1]) }
+  return { name: 'not-found' }
+}
+
+export function routePath(route: Exclude<Route, { name: 'not-found' }>): string {
+  switch (route.name) {
+    case 'create': return '/'
+    case 'gallery': return '/gallery'
+    case 'trash': return '/trash'
+    case 'model': return `/models/${route.modelId}`
+    case 'job': return `/jobs/${encodeURIComponent(route.jobId)}`
+  }
+}
+
+// pushState doesn't fire popstate, so in-app navigation notifies listeners itself.
+const listeners = new Set<() => void>()
+
+export function subscribeToLocation(listener: () => void) {
+  listeners.add(listener)
+  window.addEventListener('popstate', listener)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('popstate', listener)
+  }
+}
+
+export function navigate(to: string, { replace = false }: { replace?: boolean } = {}) {
+  const current = `${window.location.pathname}${window.location.search}${window.location.hash}`
+  if (to === current) return
+  if (replace) window.history.replaceState(null, '', to)
+  else window.history.pushState(null, '', to)
+  window.scrollTo(0, 0)
+  listeners.forEach(listener => listener())
+}
+
+function currentPathname() {
+  return window.location.pathname
+}
+
+export function useRoute(): Route {
+  const pathname = useSyncExternalStore(subscribeToLocation, currentPathname)
+  return parseRoute(pathname)
+}
+
+// Re-renders when this query parameter changes through navigate() or back/forward.
+export function useSearchParam(name: string): string | null {
+  return useSyncExternalStore(subscribeToLocation, () => new URLSearchParams(window.location.search).get(name))
+}
@@ -0,0 +1,194 @@
+import {
+  AmbientLight,
+  Box3,
+  DirectionalLight,
+  Group,
+  PerspectiveCamera,
+  PMREMGenerator,
+  Scene,
+  Sphere,
+  SRGBColorSpace,
+  Texture,
+  WebGLRenderer,
+} from 'three'
+import type { Object3D } from 'three'
+import { sendCredentials } from '../api'
+import { materialsOf, meshesOf } from '../viewer/inspection'
+
+export type TurntableFormat = 'sprite' | 'webm'
+
+export interface TurntableOptions {
+  format: TurntableFormat
+  frames: number
+  frameSize: number
+  fps: number
+}
+
+export const DEFAULT_TURNTABLE_OPTIONS: TurntableOptions = {
+  format: 'sprite',
+  frames: 36,
+  frameSize: 192,
+  fps: 18,
+}
+
+export interface Turntable {
+  blob: Blob
+  format: TurntableFormat
+  frames: number
+}
+
+const THUMBNAIL_SIZE = 512
+// Camera sits slightly above and to the front-right, the usual product-shot angle.
+const CAMERA_AZIMUTH = Math.PI / 6
+const CAMERA_ELEVATION = Math.PI / 9
+const FOV = 35
+
+export async function loadScene(url: string): Promise<Object3D> {
+  const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js')
+  const loader = new GLTFLoader()
+  sendCredentials(loader)
+  const gltf = await loader.loadAsync(url)
+  return gltf.scene
+}
+
+// A loaded scene isn't cached anywhere, so its GPU resources are freed only when released here.
+export function disposeScene(scene: Object3D) {
+  for (const mesh of meshesOf(scene)) {
+    mesh.geometry.dispose()
+    for (const material of materialsOf(mesh)) {
+      for (const value of Object.values(material)) {
+        if (value instanceof Texture) value.dispose()
+      }
+      material.dispose()
+    }
+  }
+}
+
+// A fixed studio rig so every thumbnail is lit and framed the same way regardless of the model.
+async function createStage(model: Object3D, size: number) {
+  const { RoomEnvironment } = await import('three/examples/jsm/environments/RoomEnvironment.js')
+  const canvas = document.createElement('canvas')
+  const renderer = new WebGLRenderer({ canvas, antialias: true, alpha: true, preserveDrawingBuffer: true })
+  renderer.setSize(size, size, false)
+  renderer.outputColorSpace = SRGBColorSpace
+
+  const scene = new Scene()
+  const pmrem = new PMREMGenerator(renderer)
+  const environment = pmrem.fromScene(new RoomEnvironment(), 0.04).texture
+  scene.environment = environment
+  scene.add(new AmbientLight(0xffffff, 0.3))
+  const key = new DirectionalLight(0xffffff, 1.2)
+  key.position.set(3, 5, 4)
+  scene.add(key)
+  const rim = new DirectionalLight(0xffffff, 0.6)
+  rim.position.set(-4, 3, -4)
+  scene.add(rim)
+
+  // Spin a pivot around the model's centre; the model itself (a shared, cached scene) is only cloned.
+  const pivot = new Group()
+  const clone = model.clone(true)
+  const bounds = new Box3().setFromObject(clone).getBoundingSphere(new Sphere())
+  clone.position.sub(bounds.center)
+  pivot.add(clone)
+  scene.add(pivot)
+
+  const radius = Math.max(bounds.radius, 1e-3)
+  const distance = radius / Math.sin((FOV * Math.PI) / 360) * 1.05
+  const camera = new PerspectiveCamera(FOV, 1, distance / 100, distance * 10)
+  camera.position.set(
+    Math.sin(CAMERA_AZIMUTH) * Math.cos(CAMERA_ELEVATION) * distance,
+    Math.sin(CAMERA_ELEVATION) * distance,
+    Math.cos(CAMERA_AZIMUTH) * Math.cos(CAMERA_ELEVATION) * distance,
+  )
+  camera.lookAt(0, 0, 0)
+
+  return {
+    canvas,
+    render(angle = 0) {
+      pivot.rotation.y = angle
+      renderer.render(scene, camera)
+    },
+    dispose() {
+      environment.dispose()
+      pmrem.dispose()
+      renderer.dispose()
+      renderer.forceContextLoss()
+    },
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type)
+  })
+}
+
+export async function renderThumbnail(model: Object3D, size = THUMBNAIL_SIZE): Promise<Blob> {
+  const stage = await createStage(model, size)
+  try {
+    stage.render()
+    return await canvasToBlob(stage.canvas, 'image/png')
+  } finally {
+    stage.dispose()
+  }
+}
+
+// Frames laid out left to right in one PNG; the gallery steps through them with a CSS animation.
+async function renderSpriteSheet(model: Object3D, { frames, frameSize }: TurntableOptions) {
+  const stage = await createStage(model, frameSize)
+  try {
+    const sheet = document.createElement('canvas')
+    sheet.width = frameSize * frames
+    sheet.height = frameSize
+    const ctx = sheet.getContext('2d')!
+    for (let i = 0; i < frames; i++) {
+      stage.render((i / frames) * Math.PI * 2)
+      ctx.drawImage(stage.canvas, i * frameSize, 0)
+    }
+    return await canvasToBlob(sheet, 'image/png')
+  } finally {
+    stage.dispose()
+  }
+}
+
+function webmMimeType() {
+  return ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type))
+}
+
+// MediaRecorder runs in real time, so recording one rotation takes frames / fps seconds.
+async function renderWebm(model: Object3D, { frames, frameSize, fps }: TurntableOptions) {
+  const mimeType = typeof MediaRecorder === 'undefined' ? undefined : webmMimeType()
+  if (!mimeType) throw new Error('This browser cannot record WebM video; use a sprite sheet instead')
+
+  const stage = await createStage(model, frameSize)
+  // WebGL canvases don't reliably emit frames to captureStream, so each frame is copied onto a 2D canvas.
+  const output = document.createElement('canvas')
+  output.width = output.height = frameSize
+  const ctx = output.getContext('2d')!
+  const stream = output.captureStream(fps)
+  const recorder = new MediaRecorder(stream, { mimeType })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data) }
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve() })
+
+  try {
+    recorder.start()
+    for (let i = 0; i < frames; i++) {
+      stage.render((i / frames) * Math.PI * 2)
+      ctx.clearRect(0, 0, frameSize, frameSize)
+      ctx.drawImage(stage.canvas, 0, 0)
+      await new Promise(resolve => setTimeout(resolve, 1000 / fps))
+    }
+    recorder.stop()
+    await stopped
+    return new Blob(chunks, { type: 'video/webm' })
+  } finally {
+    stream.getTracks().forEach(track => track.stop())
+    stage.dispose()
+  }
+}
+
+export async function renderTurntable(model: Object3D, options: TurntableOptions = DEFAULT_TURNTABLE_OPTIONS): Promise<Turntable> {
+  const blob = options.format === 'webm' ? await renderWebm(model, options) : await renderSpriteSheet(model, options)
+  return { blob, format: options.format, frames: options.frames }
+}
@@ -0,0 +1,60 @@
+import { useCallback, useState } from 'react'
+import type { Object3D } from 'three'
+import { api, errorMessage } from '../api'
+import type { SavedModel } from '../api'
+import { DEFAULT_TURNTABLE_OPTIONS, disposeScene, loadScene, renderThumbnail, renderTurntable } from './render'
+import type { TurntableOptions } from './render'
+
+export interface PreviewRequest {
+  thumbnail: boolean
+  turntable: boolean
+  turntableOptions?: TurntableOptions
+}
+
+// Shared across hook instances so the gallery preview and the detail page never render the same model twice.
+const inFlight = new Set<string>()
+// Automatic generation isn't retried within a session; a broken GLB would otherwise be reloaded on every visit.
+const failed = new Set<string>()
+
+function previewKey(model: SavedModel) {
+  return `${model.id}:${model.version}`
+}
+
+export function usePreviewGenerator(onUpdated: (model: SavedModel) => void) {
+  const [generating, setGenerating] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const generate = useCallback(async (model: SavedModel, request: PreviewRequest) => {
+    const key = previewKey(model)
+    if (inFlight.has(key) || (!request.thumbnail && !request.turntable)) return
+    inFlight.add(key)
+    setGenerating(model.id)
+    setError(null)
+    let scene: Object3D | null = null
+    try {
+      scene = await loadScene(api.proxyGlbUrl(model.model_url))
+      let updated = model
+      if (request.thumbnail) updated = await api.uploadThumbnail(model.id, await renderThumbnail(scene))
+      if (request.turntable) {
+        updated = await api.uploadTurntable(model.id, await renderTurntable(scene, request.turntableOptions ?? DEFAULT_TURNTABLE_OPTIONS))
+      }
+      failed.delete(key)
+      onUpdated(updated)
+    } catch (err) {
+      console.error('Failed to generate previews:', err)
+      failed.add(key)
+      setError(`Failed to generate previews: ${errorMessage(err)}`)
+    } finally {
+      if (scene) disposeScene(scene)
+      inFlight.delete(key)
+      setGenerating(current => (current === model.id ? null : current))
+    }
+  }, [onUpdated])
+
+  const ensurePreviews = useCallback((model: SavedModel) => {
+    if (model.deleted_at || failed.has(previewKey(model))) return
+    generate(model, { thumbnail: !model.thumbnail_url, turntable: !model.turntable })
+  }, [generate])
+
+  return { generate, ensurePreviews, generating, error }
+}
@@ -0,0 +1,236 @@
+import type { ViewDefinition, ViewImages, ViewType } from '../views'
+
+export type IssueSeverity = 'error' | 'warning'
+
+export interface ViewIssue {
+  severity: IssueSeverity
+  message: string
+}
+
+export interface ImageAnalysis {
+  width: number
+  height: number
+  bytes: number
+  // Mean of the strongest 10% of Laplacian responses; low when even the sharpest edges are soft.
+  sharpness: number
+  // 0-255.
+  meanLuma: number
+  darkFraction: number
+  brightFraction: number
+  // 64-bit difference hash as 16 hex digits, for spotting the same photo under two views.
+  perceptualHash: string
+  // SHA-256 of the file bytes.
+  digest: string
+}
+
+// Thresholds tuned on typical product photos, where a plain background fills much of the frame.
+export const UPLOAD_LIMITS = {
+  maxBytes: 20 * 1024 * 1024,
+  minBytesWarning: 10 * 1024,
+  minSide: 256,
+  recommendedMinSide: 512,
+  minSharpness: 12,
+  darkLuma: 45,
+  brightFraction: 0.9,
+  nearDuplicateDistance: 5,
+  aspectTolerance: 0.15,
+}
+
+const ANALYSIS_SIZE = 512
+const HASH_SIZE = 8
+
+function grayscale(bitmap: ImageBitmap, maxSize: number) {
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height))
+  const width = Math.max(1, Math.round(bitmap.width * scale))
+  const height = Math.max(1, Math.round(bitmap.height * scale))
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) throw new Error('Canvas 2D is not supported in this browser')
+  ctx.drawImage(bitmap, 0, 0, width, height)
+  const { data } = ctx.getImageData(0, 0, width, height)
+  const luma = new Float32Array(width * height)
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+  return { luma, width, height }
+}
+
+function sharpnessOf(luma: Float32Array, width: number, height: number) {
+  const responses: number[] = []
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      responses.push(Math.abs(4 * luma[i] - luma[i - 1] - luma[i + 1] - luma[i - width] - luma[i + width]))
+    }
+  }
+  if (responses.length === 0) return 0
+  responses.sort((a, b) => b - a)
+  const top = responses.slice(0, Math.max(1, Math.floor(responses.length / 10)))
+  return top.reduce((sum, v) => sum + v, 0) / top.length
+}
+
+// Difference hash: each bit says whether a pixel is brighter than its right-hand neighbour.
+function differenceHash(bitmap: ImageBitmap) {
+  const canvas = document.createElement('canvas')
+  canvas.width = HASH_SIZE + 1
+  canvas.height = HASH_SIZE
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  let hash = ''
+  for (let y = 0; y < HASH_SIZE; y++) {
+    let nibble = 0
+    for (let x = 0; x < HASH_SIZE; x++) {
+      const left = (y * canvas.width + x) * 4
+      const right = left + 4
+      const bit = data[left] + data[left + 1] + data[left + 2] > data[right] + data[right + 1] + data[right + 2] ? 1 : 0
+      nibble = (nibble << 1) | bit
+      if (x % 4 === 3) {
+        hash += nibble.toString(16)
+        nibble = 0
+      }
+    }
+  }
+  return hash
+}
+
+async function sha256(file: Blob) {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export async function analyzeImage(file: File): Promise<ImageAnalysis> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+  try {
+    const { luma, width, height } = grayscale(bitmap, ANALYSIS_SIZE)
+    let total = 0
+    let dark = 0
+    let bright = 0
+    for (const value of luma) {
+      total += value
+      if (value < 16) dark++
+      if (value > 245) bright++
+    }
+    return {
+      width: bitmap.width,
+      height: bitmap.height,
+      bytes: file.size,
+      sharpness: sharpnessOf(luma, width, height),
+      meanLuma: total / luma.length,
+      darkFraction: dark / luma.length,
+      brightFraction: bright / luma.length,
+      perceptualHash: differenceHash(bitmap),
+      digest: await sha256(file),
+    }
+  } finally {
+    bitmap.close()
+  }
+}
+
+export function hashDistance(a: string, b: string) {
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+// uploadBytes is the size of what will actually be sent, which preprocessing can change.
+function imageIssues(analysis: ImageAnalysis, uploadBytes: number): ViewIssue[] {
+  const issues: ViewIssue[] = []
+  const shortSide = Math.min(analysis.width, analysis.height)
+  if (uploadBytes > UPLOAD_LIMITS.maxBytes) {
+    issues.push({ severity: 'error', message: `File is ${formatMegabytes(uploadBytes)}; the upload limit is ${formatMegabytes(UPLOAD_LIMITS.maxBytes)}. Export it at a lower quality.` })
+  } else if (analysis.bytes < UPLOAD_LIMITS.minBytesWarning) {
+    issues.push({ severity: 'warning', message: 'File is very small; it may be a thumbnail rather than the original photo.' })
+  }
+  if (shortSide < UPLOAD_LIMITS.minSide) {
+    issues.push({ severity: 'error', message: `${analysis.width}×${analysis.height} is too small; use at least ${UPLOAD_LIMITS.minSide}px on the short side.` })
+  } else if (shortSide < UPLOAD_LIMITS.recommendedMinSide) {
+    issues.push({ severity: 'warning', message: `${analysis.width}×${analysis.height} is low resolution; ${UPLOAD_LIMITS.recommendedMinSide}px or more gives better detail.` })
+  }
+  if (analysis.sharpness < UPLOAD_LIMITS.minSharpness) {
+    issues.push({ severity: 'warning', message: 'Looks blurry; retake it in focus or with a steadier camera.' })
+  }
+  if (analysis.meanLuma < UPLOAD_LIMITS.darkLuma) {
+    issues.push({ severity: 'warning', message: 'Looks underexposed; add light or raise the exposure.' })
+  } else if (analysis.brightFraction > UPLOAD_LIMITS.brightFraction) {
+    issues.push({ severity: 'warning', message: 'Looks overexposed; most of the image is blown out to white.' })
+  }
+  return issues
+}
+
+function aspectLabel(analysis: ImageAnalysis) {
+  return `${analysis.width}×${analysis.height}`
+}
+
+// Errors block the conversion; warnings are advice the user may ignore. The analyses are of the
+// photos as taken, since preprocessing squares and re-encodes them; only the upload limit applies
+// to the preprocessed file, whose size is given in uploadSizes.
+export function validateViews(
+  views: ViewDefinition[],
+  images: ViewImages,
+  analyses: Partial<Record<ViewType, ImageAnalysis>>,
+  failures: Partial<Record<ViewType, string>>,
+  uploadSizes: Partial<Record<ViewType, number>> = {},
+): Record<ViewType, ViewIssue[]> {
+  const issues: Record<ViewType, ViewIssue[]> = Object.fromEntries(views.map(view => [view.name, []]))
+  const analysed = views.filter(view => images[view.name] && analyses[view.name])
+
+  for (const view of views) {
+    if (images[view.name] && failures[view.name]) {
+      issues[view.name].push({ severity: 'error', message: `Could not read this image: ${failures[view.name]}` })
+    }
+  }
+
+  for (const view of analysed) {
+    const analysis = analyses[view.name]!
+    issues[view.name].push(...imageIssues(analysis, uploadSizes[view.name] ?? analysis.bytes))
+  }
+
+  for (const [index, view] of analysed.entries()) {
+    const analysis = analyses[view.name]!
+    for (const other of analysed.slice(index + 1)) {
+      const otherAnalysis = analyses[other.name]!
+      if (analysis.digest === otherAnalysis.digest) {
+        issues[view.name].push({ severity: 'error', message: `Same file as the ${other.label} view; each view needs its own photo.` })
+        issues[other.name].push({ severity: 'error', message: `Same file as the ${view.label} view; each view needs its own photo.` })
+      } else if (hashDistance(analysis.perceptualHash, otherAnalysis.perceptualHash) <= UPLOAD_LIMITS.nearDuplicateDistance) {
+        issues[view.name].push({ severity: 'warning', message: `Looks almost identical to the ${other.label} view; check it shows the correct side.` })
+        issues[other.name].push({ severity: 'warning', message: `Looks almost identical to the ${view.label} view; check it shows the correct side.` })
+      }
+    }
+  }
+
+  // Compare against the first analysed view, normally the front, which the others are framed to match.
+  const reference = analysed[0]
+  if (reference) {
+    const ratio = (a: ImageAnalysis) => a.width / a.height
+    const referenceRatio = ratio(analyses[reference.name]!)
+    for (const view of analysed.slice(1)) {
+      const analysis = analyses[view.name]!
+      if (Math.abs(ratio(analysis) / referenceRatio - 1) > UPLOAD_LIMITS.aspectTolerance) {
+        issues[view.name].push({
+          severity: 'warning',
+          message: `Shape ${aspectLabel(analysis)} differs from the ${reference.label} view (${aspectLabel(analyses[reference.name]!)}); framing may not line up.`,
+        })
+      }
+    }
+  }
+
+  return issues
+}
+
+export function hasBlockingIssues(issues: Record<ViewType, ViewIssue[]>) {
+  return Object.values(issues).some(list => list.some(issue => issue.severity === 'error'))
+}
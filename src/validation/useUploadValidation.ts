@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useState } from 'react'
+import { errorMessage } from '../api'
+import type { ViewDefinition, ViewImages, ViewType } from '../views'
+import { VIEW_SCHEMA } from '../views'
+import type { ObjectSet } from '../bulk/assign'
+import { analyzeImage, hasBlockingIssues, validateViews } from './uploadChecks'
+import type { ImageAnalysis, ViewIssue } from './uploadChecks'
+
+type Outcome = { analysis: ImageAnalysis } | { error: string }
+
+export interface UploadValidation {
+  issues: Record<ViewType, ViewIssue[]>
+  pending: boolean
+  blocked: boolean
+}
+
+// Analysis depends only on the file, so it's shared by every caller and survives view changes.
+const outcomes = new WeakMap<File, Promise<Outcome>>()
+
+function analyze(file: File) {
+  let outcome = outcomes.get(file)
+  if (!outcome) {
+    outcome = analyzeImage(file)
+      .then(analysis => ({ analysis }))
+      .catch(err => {
+        console.error('Failed to analyse image:', err)
+        return { error: errorMessage(err) }
+      })
+    outcomes.set(file, outcome)
+  }
+  return outcome
+}
+
+function useAnalyses(files: File[]) {
+  const [results, setResults] = useState(new Map<File, Outcome>())
+
+  useEffect(() => {
+    let cancelled = false
+    const current = new Set(files)
+    for (const file of current) {
+      if (results.has(file)) continue
+      analyze(file).then(outcome => {
+        if (cancelled) return
+        // Drop outcomes for files that are no longer selected so their data can be released.
+        setResults(prev => new Map([...prev].filter(([known]) => current.has(known))).set(file, outcome))
+      })
+    }
+    return () => { cancelled = true }
+  }, [files, results])
+
+  return results
+}
+
+function validationOf(
+  views: ViewDefinition[],
+  images: ViewImages,
+  results: Map<File, Outcome>,
+  uploads: ViewImages = images,
+): UploadValidation {
+  const analyses: Partial<Record<ViewType, ImageAnalysis>> = {}
+  const failures: Partial<Record<ViewType, string>> = {}
+  const uploadSizes: Partial<Record<ViewType, number>> = {}
+  let pending = false
+  for (const view of views) {
+    const file = images[view.name]
+    if (!file) continue
+    const upload = uploads[view.name]
+    if (upload) uploadSizes[view.name] = upload.size
+    const outcome = results.get(file)
+    if (!outcome) pending = true
+    else if ('analysis' in outcome) analyses[view.name] = outcome.analysis
+    else failures[view.name] = outcome.error
+  }
+  const issues = validateViews(views, images, analyses, failures, uploadSizes)
+  return { issues, pending, blocked: hasBlockingIssues(issues) }
+}
+
+function filesOf(images: ViewImages) {
+  return Object.values(images).filter((file): file is File => !!file)
+}
+
+// `uploads` are the files that will be sent, where preprocessing replaced the originals in `images`.
+export function useUploadValidation(views: ViewDefinition[], images: ViewImages, uploads: ViewImages = images) {
+  const files = useMemo(() => filesOf(images), [images])
+  const results = useAnalyses(files)
+  return useMemo(() => validationOf(views, images, results, uploads), [views, images, uploads, results])
+}
+
+// The same checks for sets converted straight from a bulk drop, keyed by set id. They are preprocessed
+// only when submitted, so the upload limit is checked against the originals.
+export function useObjectSetValidation(sets: ObjectSet[]) {
+  const files = useMemo(() => sets.flatMap(set => filesOf(set.images)), [sets])
+  const results = useAnalyses(files)
+  return useMemo(() => Object.fromEntries(sets.map(set => [
+    set.id,
+    validationOf(VIEW_SCHEMA.filter(view => set.images[view.name]), set.images, results),
+  ])) as Record<string, UploadValidation>, [sets, results])
+}
@@ -0,0 +1,35 @@
+import { Vector3 } from 'three'
+import type { Object3D } from 'three'
+import type { ModelAnnotation, Vec3 } from '../api'
+
+export type ViewerTool = 'none' | 'annotate' | 'measure'
+
+// A point-to-point distance; kept for the viewing session only.
+export interface Measurement {
+  id: string
+  a: Vec3
+  b: Vec3
+}
+
+export function annotationId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function measurementLength({ a, b }: Measurement) {
+  return new Vector3(...a).distanceTo(new Vector3(...b))
+}
+
+// `frame` is the object annotations are parented to; converting through it keeps stored
+// points independent of the viewer's display scale and centring.
+export function toFrame(frame: Object3D, world: Vector3): Vec3 {
+  const local = frame.worldToLocal(world.clone())
+  return [local.x, local.y, local.z]
+}
+
+export function fromFrame(frame: Object3D, local: Vec3): Vector3 {
+  return frame.localToWorld(new Vector3(...local))
+}
+
+export function createAnnotation(text: string, position: Vec3, camera: ModelAnnotation['camera']): ModelAnnotation {
+  return { id: annotationId(), text, position, camera, created_at: new Date().toISOString() }
+}
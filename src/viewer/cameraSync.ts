@@ -0,0 +1,36 @@
+import { Vector3 } from 'three'
+
+export interface CameraState {
+  position: Vector3
+  target: Vector3
+}
+
+type Listener = (state: CameraState, sourceId: string) => void
+
+export interface CameraSync {
+  publish(state: CameraState, sourceId: string): void
+  subscribe(listener: Listener): () => void
+}
+
+export function createCameraSync(): CameraSync {
+  const listeners = new Set<Listener>()
+  return {
+    publish(state, sourceId) {
+      listeners.forEach(listener => listener(state, sourceId))
+    },
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => { listeners.delete(listener) }
+    },
+  }
+}
+
+// Camera placement for a photographed view; azimuth 90 looks at the subject's right side,
+// which for a glTF model facing +Z lies along -X.
+export function viewDirectionPosition(azimuth: number, elevation: number, distance: number): [number, number, number] {
+  const az = (azimuth * Math.PI) / 180
+  const el = (elevation * Math.PI) / 180
+  // Straight up/down would make the default up vector degenerate, so nudge the camera slightly forward.
+  const horizontal = Math.max(Math.cos(el), 1e-3)
+  return [-Math.sin(az) * horizontal * distance, Math.sin(el) * distance, Math.cos(az) * horizontal * distance]
+}
@@ -0,0 +1,237 @@
+import {
+  Box3,
+  CanvasTexture,
+  Color,
+  Matrix4,
+  Mesh,
+  MeshBasicMaterial,
+  MeshNormalMaterial,
+  RepeatWrapping,
+  Texture,
+  Vector3,
+} from 'three'
+import type { Material, Object3D } from 'three'
+
+export type ShadingMode = 'solid' | 'wireframe' | 'normals' | 'uv' | 'vertexColors' | 'texture'
+
+export const SHADING_MODES: { mode: ShadingMode, label: string }[] = [
+  { mode: 'solid', label: 'Solid' },
+  { mode: 'wireframe', label: 'Wireframe' },
+  { mode: 'normals', label: 'Normals' },
+  { mode: 'uv', label: 'UV checker' },
+  { mode: 'vertexColors', label: 'Vertex colors' },
+  { mode: 'texture', label: 'Texture only' },
+]
+
+export interface TextureInfo {
+  name: string
+  width: number
+  height: number
+}
+
+export interface MeshStats {
+  triangles: number
+  vertices: number
+  meshes: number
+  materials: number
+  textures: TextureInfo[]
+  hasVertexColors: boolean
+  hasUVs: boolean
+}
+
+export function meshesOf(scene: Object3D) {
+  const meshes: Mesh[] = []
+  scene.traverse(object => { if ((object as Mesh).isMesh) meshes.push(object as Mesh) })
+  return meshes
+}
+
+export function materialsOf(mesh: Mesh): Material[] {
+  return Array.isArray(mesh.material) ? mesh.material : [mesh.material]
+}
+
+// The GLTF cache hands every viewer the same scene. Each viewer shows its own copy, and clone() alone
+// would still share materials, so they are copied too; textures and geometry stay shared.
+export function cloneWithMaterials(scene: Object3D) {
+  const clone = scene.clone(true)
+  const copies = new Map<Material, Material>()
+  const copy = (material: Material) => {
+    if (!copies.has(material)) copies.set(material, material.clone())
+    return copies.get(material)!
+  }
+  for (const mesh of meshesOf(clone)) {
+    mesh.material = Array.isArray(mesh.material) ? mesh.material.map(copy) : copy(mesh.material)
+  }
+  return clone
+}
+
+export function disposeMaterials(scene: Object3D) {
+  const materials = new Set(meshesOf(scene).flatMap(materialsOf))
+  materials.forEach(material => material.dispose())
+}
+
+function texturesOf(material: Material) {
+  return Object.values(material).filter((value): value is Texture => value instanceof Texture)
+}
+
+export function computeStats(scene: Object3D): MeshStats {
+  const meshes = meshesOf(scene)
+  const materials = new Set<Material>()
+  const textures = new Map<Texture, TextureInfo>()
+  let triangles = 0
+  let vertices = 0
+  let hasVertexColors = false
+  let hasUVs = false
+
+  for (const mesh of meshes) {
+    const { geometry } = mesh
+    const positions = geometry.getAttribute('position')
+    if (!positions) continue
+    vertices += positions.count
+    triangles += (geometry.index ? geometry.index.count : positions.count) / 3
+    hasVertexColors ||= !!geometry.getAttribute('color')
+    hasUVs ||= !!geometry.getAttribute('uv')
+    for (const material of materialsOf(mesh)) {
+      materials.add(material)
+      for (const texture of texturesOf(material)) {
+        const image = texture.image as { width?: number, height?: number } | undefined
+        textures.set(texture, { name: texture.name || `texture ${textures.size + 1}`, width: image?.width ?? 0, height: image?.height ?? 0 })
+      }
+    }
+  }
+
+  return {
+    triangles: Math.round(triangles),
+    vertices,
+    meshes: meshes.length,
+    materials: materials.size,
+    textures: [...textures.values()],
+    hasVertexColors,
+    hasUVs,
+  }
+}
+
+// Bounds in the model's own units: the viewer wraps the scene in centring and display-scale groups,
+// which must not leak into the reported dimensions.
+export function modelBounds(scene: Object3D) {
+  scene.updateWorldMatrix(true, true)
+  const box = new Box3().setFromObject(scene)
+  if (scene.parent) box.applyMatrix4(new Matrix4().copy(scene.parent.matrixWorld).invert())
+  return box
+}
+
+export function boxSize(box: Box3) {
+  return box.getSize(new Vector3())
+}
+
+let checkerTexture: CanvasTexture | null = null
+
+function uvCheckerTexture() {
+  if (checkerTexture) return checkerTexture
+  const size = 512
+  const cells = 8
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const ctx = canvas.getContext('2d')!
+  const cell = size / cells
+  for (let y = 0; y < cells; y++) {
+    for (let x = 0; x < cells; x++) {
+      ctx.fillStyle = (x + y) % 2 === 0 ? '#e5e7eb' : '#7c3aed'
+      ctx.fillRect(x * cell, y * cell, cell, cell)
+      ctx.fillStyle = (x + y) % 2 === 0 ? '#7c3aed' : '#e5e7eb'
+      ctx.font = `${cell / 3}px sans-serif`
+      ctx.fillText(`${String.fromCharCode(65 + x)}${y + 1}`, x * cell + 6, y * cell + cell / 2.5)
+    }
+  }
+  checkerTexture = new CanvasTexture(canvas)
+  checkerTexture.wrapS = checkerTexture.wrapT = RepeatWrapping
+  return checkerTexture
+}
+
+function overrideFor(mode: ShadingMode, original: Material): Material {
+  const map = (original as MeshBasicMaterial).map ?? null
+  switch (mode) {
+    case 'wireframe':
+      return new MeshBasicMaterial({ color: new Color('#a78bfa'), wireframe: true })
+    case 'normals':
+      return new MeshNormalMaterial()
+    case 'uv':
+      return new MeshBasicMaterial({ map: uvCheckerTexture() })
+    case 'vertexColors':
+      return new MeshBasicMaterial({ vertexColors: true })
+    case 'texture':
+      return new MeshBasicMaterial({ map, color: map ? 0xffffff : 0x808080 })
+    default:
+      return original
+  }
+}
+
+// Meshes currently showing a debug material, with the material they really have.
+const shadedOriginals = new WeakMap<Mesh, Material | Material[]>()
+
+// Swaps every mesh's material for the chosen debug view and returns a function that puts the
+// originals back when the mode changes or the viewer goes away.
+export function applyShading(scene: Object3D, mode: ShadingMode) {
+  if (mode === 'solid') return () => {}
+  const originals = new Map<Mesh, Material | Material[]>()
+  const created: Material[] = []
+
+  for (const mesh of meshesOf(scene)) {
+    originals.set(mesh, mesh.material)
+    shadedOriginals.set(mesh, mesh.material)
+    const swap = (material: Material) => {
+      const override = overrideFor(mode, material)
+      created.push(override)
+      return override
+    }
+    mesh.material = Array.isArray(mesh.material) ? mesh.material.map(swap) : swap(mesh.material)
+  }
+
+  return () => {
+    originals.forEach((material, mesh) => {
+      mesh.material = material
+      shadedOriginals.delete(mesh)
+    })
+    created.forEach(material => material.dispose())
+  }
+}
+
+// Runs fn with the real materials back in place, so a copy taken for export never picks up the
+// debug view. Synchronous, so no frame is rendered in between.
+export function withOriginalMaterials<T>(scene: Object3D, fn: () => T): T {
+  const shaded = meshesOf(scene).filter(mesh => shadedOriginals.has(mesh))
+  const debug = shaded.map(mesh => mesh.material)
+  shaded.forEach(mesh => { mesh.material = shadedOriginals.get(mesh)! })
+  try {
+    return fn()
+  } finally {
+    shaded.forEach((mesh, i) => { mesh.material = debug[i] })
+  }
+}
+
+export async function fetchFileSize(url: string): Promise<number | null> {
+  const timing = performance.getEntriesByName(new URL(url, window.location.href).href)
+    .find((entry): entry is PerformanceResourceTiming => 'encodedBodySize' in entry)
+  if (timing?.encodedBodySize) return timing.encodedBodySize
+
+  try {
+    if (url.startsWith('blob:')) return (await (await fetch(url)).blob()).size
+    const response = await fetch(url, { method: 'HEAD', credentials: 'include' })
+    const length = response.headers.get('Content-Length')
+    return length ? Number(length) : null
+  } catch {
+    return null
+  }
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+export function formatLength(metres: number) {
+  if (metres >= 1) return `${metres.toFixed(2)} m`
+  if (metres >= 0.01) return `${(metres * 100).toFixed(1)} cm`
+  return `${(metres * 1000).toFixed(1)} mm`
+}
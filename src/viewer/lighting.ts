@@ -0,0 +1,32 @@
+import type { ComponentProps } from 'react'
+import type { Environment } from '@react-three/drei'
+
+type EnvironmentPreset = NonNullable<ComponentProps<typeof Environment>['preset']>
+
+export type LightingPresetName = 'city' | 'studio' | 'sunset' | 'night' | 'warehouse'
+
+export interface LightingPreset {
+  name: LightingPresetName
+  label: string
+  environment: EnvironmentPreset
+  // Multiplier for the viewer's direct lights, so dim environments aren't washed out by them.
+  intensity: number
+}
+
+export const LIGHTING_PRESETS: LightingPreset[] = [
+  { name: 'city', label: 'City', environment: 'city', intensity: 1 },
+  { name: 'studio', label: 'Studio', environment: 'studio', intensity: 1.2 },
+  { name: 'sunset', label: 'Sunset', environment: 'sunset', intensity: 0.7 },
+  { name: 'night', label: 'Night', environment: 'night', intensity: 0.4 },
+  { name: 'warehouse', label: 'Warehouse', environment: 'warehouse', intensity: 0.9 },
+]
+
+export const DEFAULT_LIGHTING: LightingPresetName = 'city'
+
+export function lightingPreset(name: LightingPresetName) {
+  return LIGHTING_PRESETS.find(preset => preset.name === name) ?? LIGHTING_PRESETS[0]
+}
+
+export function isLightingPresetName(value: string): value is LightingPresetName {
+  return LIGHTING_PRESETS.some(preset => preset.name === value)
+}
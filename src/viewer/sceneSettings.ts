@@ -0,0 +1,168 @@
+import {
+  ACESFilmicToneMapping,
+  AgXToneMapping,
+  CineonToneMapping,
+  LinearToneMapping,
+  MeshStandardMaterial,
+  NoToneMapping,
+  ReinhardToneMapping,
+} from 'three'
+import type { Color, Material, Object3D, ToneMapping } from 'three'
+import { materialsOf, meshesOf } from './inspection'
+import { DEFAULT_LIGHTING, isLightingPresetName } from './lighting'
+import type { LightingPresetName } from './lighting'
+
+export type ToneMappingName = 'none' | 'linear' | 'reinhard' | 'cineon' | 'aces' | 'agx'
+export type EnvironmentFormat = 'hdr' | 'exr'
+
+export const TONE_MAPPINGS: { name: ToneMappingName, label: string, value: ToneMapping }[] = [
+  { name: 'aces', label: 'ACES Filmic', value: ACESFilmicToneMapping },
+  { name: 'agx', label: 'AgX', value: AgXToneMapping },
+  { name: 'reinhard', label: 'Reinhard', value: ReinhardToneMapping },
+  { name: 'cineon', label: 'Cineon', value: CineonToneMapping },
+  { name: 'linear', label: 'Linear', value: LinearToneMapping },
+  { name: 'none', label: 'None', value: NoToneMapping },
+]
+
+export interface MaterialOverride {
+  color?: string
+  roughness?: number
+  metalness?: number
+}
+
+export interface SceneSettings {
+  environment: LightingPresetName | 'custom'
+  // Only used when environment is 'custom'.
+  environmentUrl: string | null
+  environmentFormat: EnvironmentFormat
+  environmentIntensity: number
+  lightIntensity: number
+  // Key light direction in degrees, measured like photographed views (see viewDirectionPosition).
+  lightAzimuth: number
+  lightElevation: number
+  toneMapping: ToneMappingName
+  exposure: number
+  groundShadow: boolean
+  modelScale: number
+  // Keyed by materialKey().
+  materials: Record<string, MaterialOverride>
+}
+
+export const DEFAULT_SCENE_SETTINGS: SceneSettings = {
+  environment: DEFAULT_LIGHTING,
+  environmentUrl: null,
+  environmentFormat: 'hdr',
+  environmentIntensity: 1,
+  lightIntensity: 1,
+  lightAzimuth: 45,
+  lightElevation: 35,
+  toneMapping: 'aces',
+  exposure: 1,
+  groundShadow: false,
+  modelScale: 2,
+  materials: {},
+}
+
+function finiteOr(value: unknown, fallback: number) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback
+}
+
+function materialOverrides(value: unknown): Record<string, MaterialOverride> {
+  if (typeof value !== 'object' || value === null) return {}
+  const overrides: Record<string, MaterialOverride> = {}
+  for (const [key, raw] of Object.entries(value as Record<string, Record<string, unknown>>)) {
+    if (typeof raw !== 'object' || raw === null) continue
+    overrides[key] = {
+      color: typeof raw.color === 'string' ? raw.color : undefined,
+      roughness: typeof raw.roughness === 'number' ? raw.roughness : undefined,
+      metalness: typeof raw.metalness === 'number' ? raw.metalness : undefined,
+    }
+  }
+  return overrides
+}
+
+// Saved settings may come from an older or newer client, so every field falls back to its default.
+export function sceneSettingsFromJson(value: Record<string, unknown> | null | undefined): SceneSettings {
+  if (!value) return DEFAULT_SCENE_SETTINGS
+  const d = DEFAULT_SCENE_SETTINGS
+  const environment = String(value.environment)
+  const toneMapping = TONE_MAPPINGS.find(t => t.name === value.toneMapping)
+  return {
+    environment: environment === 'custom' || isLightingPresetName(environment) ? environment : d.environment,
+    environmentUrl: typeof value.environmentUrl === 'string' ? value.environmentUrl : null,
+    environmentFormat: value.environmentFormat === 'exr' ? 'exr' : 'hdr',
+    environmentIntensity: finiteOr(value.environmentIntensity, d.environmentIntensity),
+    lightIntensity: finiteOr(value.lightIntensity, d.lightIntensity),
+    lightAzimuth: finiteOr(value.lightAzimuth, d.lightAzimuth),
+    lightElevation: finiteOr(value.lightElevation, d.lightElevation),
+    toneMapping: toneMapping?.name ?? d.toneMapping,
+    exposure: finiteOr(value.exposure, d.exposure),
+    groundShadow: typeof value.groundShadow === 'boolean' ? value.groundShadow : d.groundShadow,
+    modelScale: finiteOr(value.modelScale, d.modelScale),
+    materials: materialOverrides(value.materials),
+  }
+}
+
+export function sceneSettingsToJson(settings: SceneSettings): Record<string, unknown> {
+  return { ...settings }
+}
+
+export function toneMappingValue(name: ToneMappingName) {
+  return (TONE_MAPPINGS.find(t => t.name === name) ?? TONE_MAPPINGS[0]).value
+}
+
+// drei picks the HDRI loader from the file extension, which object URLs and extensionless
+// server paths don't have; the fragment supplies one and is ignored when fetching.
+export function environmentFiles(settings: SceneSettings) {
+  return settings.environmentUrl ? `${settings.environmentUrl}#.${settings.environmentFormat}` : null
+}
+
+export interface SceneMaterial {
+  key: string
+  label: string
+  material: MeshStandardMaterial
+}
+
+// Material names aren't guaranteed unique or present, so the traversal index is part of the key.
+export function listMaterials(scene: Object3D): SceneMaterial[] {
+  const seen = new Set<Material>()
+  const result: SceneMaterial[] = []
+  for (const mesh of meshesOf(scene)) {
+    for (const material of materialsOf(mesh)) {
+      if (seen.has(material)) continue
+      seen.add(material)
+      if (!(material instanceof MeshStandardMaterial)) continue
+      const index = seen.size - 1
+      result.push({ key: `${index}:${material.name}`, label: material.name || `Material ${index + 1}`, material })
+    }
+  }
+  return result
+}
+
+// Edits the viewer's own material copies in place, which is what bakes them into exports of its
+// scene, and returns a function that puts the original values back.
+export function applyMaterialOverrides(materials: SceneMaterial[], overrides: Record<string, MaterialOverride>) {
+  const originals: { material: MeshStandardMaterial, color: Color, roughness: number, metalness: number }[] = []
+  for (const { key, material } of materials) {
+    const override = overrides[key]
+    if (!override) continue
+    originals.push({ material, color: material.color.clone(), roughness: material.roughness, metalness: material.metalness })
+    if (override.color !== undefined) material.color.set(override.color)
+    if (override.roughness !== undefined) material.roughness = override.roughness
+    if (override.metalness !== undefined) material.metalness = override.metalness
+  }
+  return () => {
+    for (const { material, color, roughness, metalness } of originals) {
+      material.color.copy(color)
+      material.roughness = roughness
+      material.metalness = metalness
+    }
+  }
+}
+
+// three r160 has no scene-wide environment intensity, so it is applied per material.
+export function applyEnvironmentIntensity(materials: SceneMaterial[], intensity: number) {
+  const originals = materials.map(({ material }) => material.envMapIntensity)
+  materials.forEach(({ material }, i) => { material.envMapIntensity = originals[i] * intensity })
+  return () => materials.forEach(({ material }, i) => { material.envMapIntensity = originals[i] })
+}
@@ -0,0 +1,63 @@
+export type ViewType = string
+
+export interface ViewDefinition {
+  name: ViewType
+  label: string
+  // Degrees around the vertical axis from the front (90 = the subject's right side).
+  azimuth: number
+  // Degrees above the horizon (90 = straight down from the top).
+  elevation: number
+  required: boolean
+}
+
+export type ViewImages = Record<ViewType, File | null>
+
+export const VIEW_SCHEMA: ViewDefinition[] = [
+  { name: 'front', label: 'Front', azimuth: 0, elevation: 0, required: true },
+  { name: 'back', label: 'Back', azimuth: 180, elevation: 0, required: false },
+  { name: 'left', label: 'Left', azimuth: 270, elevation: 0, required: false },
+  { name: 'right', label: 'Right', azimuth: 90, elevation: 0, required: false },
+  { name: 'top', label: 'Top', azimuth: 0, elevation: 90, required: false },
+  { name: 'bottom', label: 'Bottom', azimuth: 0, elevation: -90, required: false },
+  { name: 'front-left', label: 'Front left 45°', azimuth: 315, elevation: 0, required: false },
+  { name: 'front-right', label: 'Front right 45°', azimuth: 45, elevation: 0, required: false },
+  { name: 'back-left', label: 'Back left 45°', azimuth: 225, elevation: 0, required: false },
+  { name: 'back-right', label: 'Back right 45°', azimuth: 135, elevation: 0, required: false },
+]
+
+export const DEFAULT_VIEW_NAMES: ViewType[] = ['front', 'back', 'left', 'right']
+
+export const DEFAULT_VIEWS = VIEW_SCHEMA.filter(view => DEFAULT_VIEW_NAMES.includes(view.name))
+
+export function customView(azimuth: number, elevation: number): ViewDefinition {
+  const az = ((Math.round(azimuth) % 360) + 360) % 360
+  const el = Math.max(-90, Math.min(90, Math.round(elevation)))
+  return { name: `custom-${az}-${el}`, label: `Custom ${az}° / ${el}°`, azimuth: az, elevation: el, required: false }
+}
+
+// Saved models only record view names, so custom angles are recovered from the name itself.
+export function viewDefinitionByName(name: ViewType): ViewDefinition | null {
+  const known = VIEW_SCHEMA.find(view => view.name === name)
+  if (known) return known
+  const custom = name.match(/^custom-(\d+)-(-?\d+)$/)
+  return custom ? customView(Number(custom[1]), Number(custom[2])) : null
+}
+
+export function emptyViewImages(views: ViewDefinition[]): ViewImages {
+  return Object.fromEntries(views.map(view => [view.name, null]))
+}
+
+export function missingRequiredViews(views: ViewDefinition[], images: ViewImages) {
+  return views.filter(view => view.required && !images[view.name])
+}
+
+// Recorded on the saved model as view_config: which views were used and the file each came from.
+export function viewConfig(views: ViewDefinition[], images: ViewImages): Record<string, string> {
+  return Object.fromEntries(views.filter(view => images[view.name]).map(view => [view.name, images[view.name]!.name]))
+}
+
+export function viewAngles(views: ViewDefinition[], images: ViewImages) {
+  return Object.fromEntries(views
+    .filter(view => images[view.name])
+    .map(view => [view.name, { azimuth: view.azimuth, elevation: view.elevation }]))
+}
@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string
+  readonly VITE_FAKE_API?: string
+  readonly VITE_JOB_TRANSPORT?: 'sse' | 'websocket' | 'polling'
+  readonly VITE_FAKE_CAMERA?: string
+  readonly VITE_FAKE_AUTH?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
@@ -1,8 +1,31 @@
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Lists every emitted asset, lazily imported chunks and workers included, for the service worker to
+// precache; index.html only names the entry bundles.
+function precacheManifest(): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    generateBundle(_, bundle) {
+      const files = Object.keys(bundle).filter(name => /^assets\//.test(name)).map(name => `/${name}`)
+      this.emitFile({ type: 'asset', fileName: 'precache-manifest.json', source: JSON.stringify(files) })
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
+  build: {
+    rollupOptions: {
+      // The embeddable viewer is its own page so host sites don't download the whole app.
+      input: {
+        main: 'index.html',
+        embed: 'embed.html',
+      },
+    },
+  },
   server: {
     port: 5173,
     proxy: {